@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useLocale } from '../../../hooks/useLocale';
+
+interface AbilityErrorProps {
+  error: Error & { digest?: string };
+  reset: () => void;
+}
+
+export default function AbilityError({ error, reset }: AbilityErrorProps) {
+  const { t } = useLocale();
+
+  useEffect(() => {
+    console.error('Error loading ability:', error);
+  }, [error]);
+
+  return (
+    <div className="text-center py-12">
+      <div className="bg-red-500/10 backdrop-blur-md rounded-2xl border border-red-500/20 p-8 max-w-md mx-auto">
+        <div className="text-6xl mb-4">😵</div>
+        <p className="text-red-400 text-lg mb-6">{t('ability.loadFailed')}</p>
+        <div className="flex justify-center gap-3">
+          <button
+            onClick={reset}
+            className="px-6 py-3 bg-white/10 text-white rounded-xl border border-white/20 hover:bg-white/20 transition-all duration-300"
+          >
+            {t('common.tryAgain')}
+          </button>
+          <Link
+            href="/"
+            className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl shadow-lg hover:shadow-xl hover:scale-105 transition-all duration-300 group"
+          >
+            <span className="mr-2 transition-transform group-hover:-translate-x-1">←</span>
+            {t('common.backHome')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import Link from 'next/link';
+import { Message } from '../../../components/LocalizedText';
+
+export default function AbilityNotFound() {
+  return (
+    <div className="text-center py-12">
+      <div className="bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 p-8 max-w-md mx-auto">
+        <div className="text-6xl mb-4">❓</div>
+        <h1 className="text-3xl font-bold text-white mb-2">404</h1>
+        <p className="text-white/80 text-lg mb-2">
+          <Message id="ability.notFound" />
+        </p>
+        <p className="text-white/60 text-sm mb-6">
+          <Message id="ability.notFoundHint" />
+        </p>
+        <Link
+          href="/"
+          className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl shadow-lg hover:shadow-xl hover:scale-105 transition-all duration-300 group"
+        >
+          <span className="mr-2 transition-transform group-hover:-translate-x-1">←</span>
+          <Message id="common.backHome" />
+        </Link>
+      </div>
+    </div>
+  );
+}
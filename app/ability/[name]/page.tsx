@@ -0,0 +1,158 @@
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import type { ReactNode } from 'react';
+import { notFound } from 'next/navigation';
+import { LocalizedName, LocalizedType, Message } from '../../../components/LocalizedText';
+import { formatSlug } from '../../../lib/i18n';
+import { AbilityPokemon, getAbilityDetail } from '../../../lib/server/abilityDetail';
+
+interface AbilityPageProps {
+  params: Promise<{
+    name: string;
+  }>;
+}
+
+// Rendered on first request and cached like the detail pages.
+export const revalidate = 86400;
+
+export async function generateMetadata({ params }: AbilityPageProps): Promise<Metadata> {
+  const { name } = await params;
+  const detail = await getAbilityDetail(name);
+  if (!detail) return { title: 'Ability not found | Pokemon Explorer' };
+
+  const { ability } = detail;
+  const title = `${ability.names.en ?? formatSlug(ability.name)} | Pokemon Explorer`;
+  const description = ability.shortEffect ?? `Pokémon with the ${formatSlug(ability.name)} ability.`;
+
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: 'website' },
+    twitter: { card: 'summary', title, description },
+  };
+}
+
+export default async function AbilityPage({ params }: AbilityPageProps) {
+  const { name } = await params;
+  const detail = await getAbilityDetail(name);
+  if (!detail) notFound();
+
+  const { ability, pokemon } = detail;
+
+  return (
+    <div className="px-4 py-8 max-w-7xl mx-auto">
+      {/* Back Button */}
+      <Link
+        href="/"
+        className="group inline-flex items-center text-white/80 hover:text-white mb-8 transition-all duration-300"
+      >
+        <div className="mr-2 p-2 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 group-hover:bg-white/20 transition-all duration-300">
+          <svg className="w-4 h-4 transition-transform group-hover:-translate-x-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+        </div>
+        <span className="font-medium">
+          <Message id="detail.back" />
+        </span>
+      </Link>
+
+      {/* Main Content */}
+      <div className="bg-white/10 backdrop-blur-xl border border-white/20 rounded-3xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="relative bg-gradient-to-br from-white/20 to-white/5 p-8 md:p-12">
+          <div className="absolute inset-0 bg-gradient-to-r from-green-500/10 to-emerald-500/10"></div>
+          <div className="relative space-y-4">
+            <div className="flex flex-wrap items-center gap-4">
+              <h1 className="text-4xl md:text-5xl font-bold text-white">
+                <LocalizedName names={ability.names} slug={ability.name} />
+              </h1>
+              {ability.generation && (
+                <span className="px-3 py-1 text-sm font-semibold text-green-200 bg-green-500/20 border border-green-500/30 rounded-full">
+                  <Message id="detail.generation" /> {ability.generation}
+                </span>
+              )}
+            </div>
+            {ability.shortEffect && <p className="text-xl text-white/80 leading-relaxed">{ability.shortEffect}</p>}
+          </div>
+        </div>
+
+        {/* Content Sections */}
+        <div className="p-8 md:p-12 space-y-10">
+          {/* Effect */}
+          <div className="space-y-4">
+            <SectionTitle gradient="from-green-500 to-emerald-500">
+              <Message id="ability.effect" />
+            </SectionTitle>
+            {ability.effect ? (
+              <p className="text-white/70 leading-relaxed whitespace-pre-line">{ability.effect}</p>
+            ) : (
+              <p className="text-white/60 italic">
+                <Message id="ability.noEffect" />
+              </p>
+            )}
+          </div>
+
+          {/* Pokémon */}
+          <div className="space-y-6">
+            <SectionTitle gradient="from-blue-500 to-purple-500">
+              <Message id="ability.pokemon" /> <span className="text-white/50 font-normal">({pokemon.length})</span>
+            </SectionTitle>
+            <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+              {pokemon.map((entry) => (
+                <li key={entry.name}>
+                  <AbilityPokemonCard pokemon={entry} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SectionTitle({ gradient, children }: { gradient: string; children: ReactNode }) {
+  return (
+    <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+      <div className={`w-8 h-8 bg-gradient-to-r ${gradient} rounded-full flex items-center justify-center`}>
+        <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+        </svg>
+      </div>
+      {children}
+    </h2>
+  );
+}
+
+function AbilityPokemonCard({ pokemon }: { pokemon: AbilityPokemon }) {
+  return (
+    <Link
+      href={`/pokemon/${pokemon.id}`}
+      className="group flex flex-col items-center h-full p-3 bg-white/5 rounded-2xl border border-white/10 hover:bg-white/10 hover:border-white/20 hover:scale-105 transition-all duration-300"
+    >
+      {pokemon.sprite ? (
+        <img src={pokemon.sprite} alt="" className="w-20 h-20 object-contain drop-shadow-lg [image-rendering:pixelated]" />
+      ) : (
+        <span className="w-20 h-20" />
+      )}
+      <span className="text-xs text-white/50 font-mono">#{(pokemon.speciesId ?? pokemon.id).toString().padStart(3, '0')}</span>
+      <span className="text-sm font-semibold text-white text-center">
+        <LocalizedName names={pokemon.names} slug={pokemon.name} />
+      </span>
+      {pokemon.types && pokemon.types.length > 0 && (
+        <span className="mt-1 flex gap-1">
+          {pokemon.types.map((type) => (
+            <span key={type} className="px-2 py-0.5 text-[10px] capitalize text-white/80 bg-white/10 rounded-full">
+              <LocalizedType type={type} />
+            </span>
+          ))}
+        </span>
+      )}
+      {pokemon.isHidden && (
+        <span className="mt-2 px-2 py-0.5 text-[10px] font-semibold uppercase text-green-200 bg-green-500/30 rounded-full">
+          <Message id="ability.hidden" />
+        </span>
+      )}
+    </Link>
+  );
+}
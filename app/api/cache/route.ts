@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { getCacheStats } from '../../../lib/pokemonApi';
+import { CACHE_CONTROL } from '../../../lib/server/http';
+
+export async function GET() {
+  return NextResponse.json(getCacheStats(), { headers: { 'Cache-Control': CACHE_CONTROL.none } });
+}
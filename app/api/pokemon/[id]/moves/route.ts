@@ -0,0 +1,29 @@
+import type { NextRequest } from 'next/server';
+import { fetchMoves, fetchPokemonDetails } from '../../../../../lib/pokemonApi';
+import { CACHE_CONTROL, cachedJson, errorJson } from '../../../../../lib/server/http';
+import { formatMoveData, getLearnset, getVersionGroups, type LearnedMove } from '../../../../../types/move';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const pokemon = await fetchPokemonDetails(id.toLowerCase(), request.signal);
+    const versionGroups = getVersionGroups(pokemon);
+    const requested = request.nextUrl.searchParams.get('version');
+    const versionGroup = requested && versionGroups.includes(requested) ? requested : versionGroups[0] ?? null;
+
+    const learnset = versionGroup ? getLearnset(pokemon, versionGroup) : [];
+    const details = await fetchMoves(
+      learnset.map(entry => entry.name),
+      request.signal
+    );
+    const moves: LearnedMove[] = learnset.map(entry => {
+      const move = details.get(entry.name);
+      return { ...entry, details: move ? formatMoveData(move) : null };
+    });
+
+    return cachedJson(request, { versionGroup, versionGroups, moves }, CACHE_CONTROL.detail);
+  } catch (err) {
+    return errorJson(err, 'Failed to load Pokémon moves');
+  }
+}
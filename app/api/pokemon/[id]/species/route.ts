@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server';
+import { fetchPokemonDetails } from '../../../../../lib/pokemonApi';
+import { CACHE_CONTROL, cachedJson, errorJson } from '../../../../../lib/server/http';
+import { fetchSpeciesResponse } from '../../../../../lib/server/pokemonDetail';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const pokemon = await fetchPokemonDetails(id.toLowerCase(), request.signal);
+    return cachedJson(request, await fetchSpeciesResponse(pokemon, request.signal), CACHE_CONTROL.detail);
+  } catch (err) {
+    return errorJson(err, 'Failed to load Pokémon species');
+  }
+}
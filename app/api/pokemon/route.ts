@@ -0,0 +1,33 @@
+import type { NextRequest } from 'next/server';
+import { localeFromSearchParams } from '../../../lib/i18n';
+import { queryPokemon } from '../../../lib/pokemonApi';
+import { filtersFromSearchParams } from '../../../lib/pokemonFilters';
+import { sortFromSearchParams } from '../../../lib/pokemonSort';
+import { CACHE_CONTROL, cachedJson, errorJson, intParam } from '../../../lib/server/http';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const offset = intParam(searchParams.get('offset'), 0, 0, Number.MAX_SAFE_INTEGER);
+  const limit = intParam(searchParams.get('limit'), 20, 1, 100);
+  const query = searchParams.get('q') ?? '';
+  const filters = filtersFromSearchParams(searchParams);
+  const sort = sortFromSearchParams(searchParams);
+  const locale = localeFromSearchParams(searchParams);
+  const forms = searchParams.get('forms') === '1';
+
+  try {
+    const { count, results } = await queryPokemon({
+      query,
+      filters,
+      sort,
+      locale,
+      forms,
+      offset,
+      limit,
+      signal: request.signal,
+    });
+    return cachedJson(request, { count, offset, limit, results }, CACHE_CONTROL.list);
+  } catch (err) {
+    return errorJson(err, 'Failed to load Pokémon list');
+  }
+}
@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server';
+import { localeFromSearchParams } from '../../../lib/i18n';
+import { fetchPokemonList, findPokemonSummaries } from '../../../lib/pokemonApi';
+import { CACHE_CONTROL, cachedJson, errorJson, intParam } from '../../../lib/server/http';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const query = searchParams.get('q') ?? '';
+  const limit = intParam(searchParams.get('limit'), 20, 1, 100);
+  const locale = localeFromSearchParams(searchParams);
+
+  try {
+    const allPokemon = await fetchPokemonList(undefined, request.signal);
+    const results = await findPokemonSummaries(query, allPokemon, limit, request.signal, locale);
+
+    return cachedJson(request, { query, results }, CACHE_CONTROL.search);
+  } catch (err) {
+    return errorJson(err, 'Search failed');
+  }
+}
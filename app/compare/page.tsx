@@ -0,0 +1,67 @@
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import CompareTable from '../../components/CompareTable';
+import { fetchPokemonDetails } from '../../lib/pokemonApi';
+import { NotFoundError } from '../../lib/errors';
+import { MIN_COMPARE, parseCompareIds } from '../../lib/compareSelection';
+import { formatPokemonData, FormattedPokemon, RawPokemon } from '../../types/pokemon';
+
+export const metadata: Metadata = {
+  title: 'Compare Pokémon | Pokemon Explorer',
+};
+
+interface ComparePageProps {
+  searchParams: Promise<{ ids?: string | string[] }>;
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { ids: rawIds } = await searchParams;
+  const ids = parseCompareIds(Array.isArray(rawIds) ? rawIds.join(',') : rawIds);
+
+  const results = await Promise.allSettled(ids.map((id) => fetchPokemonDetails(id)));
+  const pokemon = results
+    .filter((result): result is PromiseFulfilledResult<RawPokemon> => result.status === 'fulfilled')
+    .map((result): FormattedPokemon => formatPokemonData(result.value));
+  const failedIds = (predicate: (reason: unknown) => boolean) =>
+    ids.filter((_, index) => {
+      const result = results[index];
+      return result.status === 'rejected' && predicate(result.reason);
+    });
+  const unknown = failedIds((reason) => reason instanceof NotFoundError);
+  const failed = failedIds((reason) => !(reason instanceof NotFoundError));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold text-white">Compare Pokémon</h1>
+        <Link
+          href="/"
+          className="px-4 py-2 text-sm text-white bg-white/10 backdrop-blur-md rounded-xl border border-white/20 hover:bg-white/20 transition-all duration-300"
+        >
+          ← Back to Pokédex
+        </Link>
+      </div>
+
+      {unknown.length > 0 && (
+        <p className="text-sm text-red-300">No Pokémon with number {unknown.map((id) => `#${id}`).join(', ')}.</p>
+      )}
+      {failed.length > 0 && (
+        <p className="text-sm text-red-300">
+          Could not load {failed.map((id) => `#${id}`).join(', ')} right now. Try reloading the page.
+        </p>
+      )}
+
+      {pokemon.length >= MIN_COMPARE ? (
+        <CompareTable pokemon={pokemon} />
+      ) : (
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4">⚖️</div>
+          <p className="text-white/80 mb-2">Pick at least {MIN_COMPARE} Pokémon to compare.</p>
+          <p className="text-white/50 text-sm">
+            Use the Compare toggle on any card, or open a link like <code>/compare?ids=3,6,9</code>.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,14 @@
 import './globals.css';
 import type { Metadata } from 'next';
+import Link from 'next/link';
 import type { ReactNode } from 'react';
+import CompareBar from '../components/CompareBar';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import { Message } from '../components/LocalizedText';
 
 export const metadata: Metadata = {
+  // Absolute base for Open Graph image URLs; Netlify provides URL at build time.
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || process.env.URL || 'http://localhost:3000'),
   title: 'Pokemon Explorer',
   description: 'Explore the world of Pokemon',
 };
@@ -27,13 +33,22 @@ export default function RootLayout({ children }: RootLayoutProps) {
           <header className="relative">
             <div className="absolute inset-0 bg-white/10 backdrop-blur-md border-b border-white/20"></div>
             <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 ">
-              <div className="flex justify-center items-center h-20">
-                <div className="group cursor-pointer">
-                  <h1 className="text-3xl font-bold bg-gradient-to-r from-yellow-400 via-red-500 to-purple-600 bg-clip-text text-transparent transition-all duration-300 group-hover:scale-105">
+              <div className="relative flex justify-center items-center h-20">
+                <Link href="/" className="group cursor-pointer">
+                  <h1 className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-yellow-400 via-red-500 to-purple-600 bg-clip-text text-transparent transition-all duration-300 group-hover:scale-105">
                     ⚡ Pokemon Explorer
                   </h1>
                   <div className="h-0.5 w-0 bg-gradient-to-r from-yellow-400 to-purple-600 transition-all duration-300 group-hover:w-full"></div>
-                </div>
+                </Link>
+                <nav className="absolute right-0 flex items-center gap-2">
+                  <LocaleSwitcher />
+                  <Link
+                    href="/team"
+                    className="px-3 py-2 text-sm font-medium text-white/80 hover:text-white bg-white/10 rounded-xl border border-white/20 hover:bg-white/20 transition-all duration-300"
+                  >
+                    <Message id="nav.team" />
+                  </Link>
+                </nav>
               </div>
             </div>
           </header>
@@ -45,6 +60,8 @@ export default function RootLayout({ children }: RootLayoutProps) {
             </div>
           </main>
 
+          <CompareBar />
+
           {/* Modern footer with floating effect */}
           {/* <footer className="relative mt-16 pb-8">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -1,170 +1,174 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, ReactNode, Suspense } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import SearchBar from '../components/SearchBar';
+import FilterPanel from '../components/FilterPanel';
 import PokemonList from '../components/PokemonList';
-import { 
-  preloadEssentialData, 
-  searchPokemon, 
-  batchFetchPokemon,
-  PokemonListItem,
-  PokemonSummary,
-  getCacheStats 
-} from '../lib/pokemonApi';
-import { formatPokemonData, FormattedPokemon, DisplayPokemon } from '../types/pokemon';
+import SortControl from '../components/SortControl';
+import FavoritesToolbar from '../components/FavoritesToolbar';
+import { useFavorites } from '../hooks/useFavorites';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useLocale } from '../hooks/useLocale';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { usePokemonSearch } from '../hooks/usePokemonSearch';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
+import type { PokemonSummary } from '../lib/pokemonApi';
+import { getServerCacheStats, CacheStats } from '../lib/explorerApi';
+import { EMPTY_FILTERS, isFilterActive, PokemonFilters } from '../lib/pokemonFilters';
+import { PokemonSort } from '../lib/pokemonSort';
+import {
+  homeListKey,
+  homeStateFromSearchParams,
+  homeStateToSearchParams,
+  HomeUrlState,
+} from '../lib/homeUrlState';
+import type { FavoriteEntry } from '../lib/favorites';
+import { describeError } from '../lib/errors';
+import { DisplayPokemon } from '../types/pokemon';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const toDisplayPokemon = (pokemon: PokemonSummary): DisplayPokemon => ({
+  id: pokemon.id,
+  speciesId: pokemon.speciesId,
+  name: pokemon.name,
+  image: pokemon.image || pokemon.sprite || null,
+  types: pokemon.types || [],
+  height: 0,
+  weight: 0,
+  abilities: [],
+  stats: [],
+  moves: [],
+  names: pokemon.names,
+  matchedName: pokemon.matchedName,
+  highlights: pokemon.highlights,
+});
+
+const favoriteToDisplayPokemon = (favorite: FavoriteEntry): DisplayPokemon => ({
+  id: favorite.id,
+  name: favorite.name,
+  image: favorite.image ?? null,
+  types: favorite.types ?? [],
+  height: 0,
+  weight: 0,
+  abilities: [],
+  stats: [],
+  moves: [],
+});
 
 export default function HomePage() {
-  const [allPokemonList, setAllPokemonList] = useState<PokemonListItem[]>([]);
-  const [pokemonList, setPokemonList] = useState<DisplayPokemon[]>([]);
-  const [searchResults, setSearchResults] = useState<PokemonSummary[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [searching, setSearching] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
-
-  const ITEMS_PER_PAGE = 20;
-  const SEARCH_LIMIT = 20;
-
-  const displayedPokemon = useMemo(() => {
-    if (searchTerm) {
-      return searchResults.map(pokemon => ({
-        id: pokemon.id,
-        name: pokemon.name,
-        url: pokemon.url,
-        image: pokemon.sprite || null,
-        types: pokemon.types || [],
-        height: 0,
-        weight: 0,
-        abilities: [],
-        stats: [],
-        moves: [],
-      }));
-    }
-    return pokemonList;
-  }, [searchTerm, searchResults, pokemonList]);
+  // useSearchParams needs a Suspense boundary so the page can still be prerendered.
+  return (
+    <Suspense fallback={null}>
+      <HomeContent />
+    </Suspense>
+  );
+}
+
+function HomeContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const urlState = useMemo(() => homeStateFromSearchParams(searchParams), [searchParams]);
+  const { query: searchTerm, filters, sort, forms: showForms, page: currentPage, view } = urlState;
+  const listKey = homeListKey(urlState);
+
+  const [totalCount, setTotalCount] = useState(0);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [searchInput, setSearchInput] = useState(searchTerm);
+  const debouncedInput = useDebouncedValue(searchInput, SEARCH_DEBOUNCE_MS);
+  const urlStateRef = useRef(urlState);
+  urlStateRef.current = urlState;
+  const { favorites } = useFavorites();
+  const { locale, t } = useLocale();
+
+  const {
+    results,
+    count: resultCount,
+    ready,
+    loadedPages,
+    loading,
+    searching,
+    loadingMore,
+    loadMoreFailed,
+    error,
+    retry,
+    retryLoadMore,
+  } = usePokemonSearch({ query: searchTerm, filters, sort, locale, forms: showForms, pages: currentPage });
+  const pokemonList = useMemo(() => results.map(toDisplayPokemon), [results]);
+
+  const filtersActive = isFilterActive(filters);
+  const isNarrowed = Boolean(searchTerm) || filtersActive;
+  const hasMore = pokemonList.length < resultCount;
+
+  useScrollRestoration(`${view}:${listKey}`, view === 'favorites' || ready);
+
+  // Keep the input in step with the URL when Back/Forward changes the query.
+  useEffect(() => {
+    setSearchInput(searchTerm);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    if (ready && !isNarrowed) setTotalCount(resultCount);
+  }, [ready, isNarrowed, resultCount]);
 
   useEffect(() => {
-    loadInitialData();
-  }, []);
-
-  const loadInitialData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const allPokemon = await preloadEssentialData();
-      setAllPokemonList(allPokemon);
-
-      const firstBatch = allPokemon.slice(0, ITEMS_PER_PAGE);
-      const detailedPokemon = await batchFetchPokemon(firstBatch, 8);
-
-      const formattedPokemon: DisplayPokemon[] = detailedPokemon.map(pokemon => {
-        const listItem = firstBatch.find(p => p.name === pokemon.name);
-        const formatted: FormattedPokemon = formatPokemonData(pokemon);
-        return {
-          ...listItem!,
-          ...formatted,
-          id: pokemon.id,
-        };
-      });
-
-      setPokemonList(formattedPokemon);
-    } catch (err) {
-      console.error('Failed to load initial data:', err);
-      setError('Failed to load Pokemon. Please try again.');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const loadMore = useCallback(async () => {
-    if (loadingMore || !hasMore || searchTerm) return;
-
-    try {
-      setLoadingMore(true);
-      const nextPage = currentPage + 1;
-      const startIndex = (nextPage - 1) * ITEMS_PER_PAGE;
-      const endIndex = startIndex + ITEMS_PER_PAGE;
-
-      const nextBatch = allPokemonList.slice(startIndex, endIndex);
-
-      if (nextBatch.length === 0) {
-        setHasMore(false);
-        return;
-      }
-
-      const detailedPokemon = await batchFetchPokemon(nextBatch, 8);
-
-      const formattedPokemon: DisplayPokemon[] = detailedPokemon.map(pokemon => {
-        const listItem = nextBatch.find(p => p.name === pokemon.name);
-        const formatted: FormattedPokemon = formatPokemonData(pokemon);
-        return {
-          ...listItem!,
-          ...formatted,
-          id: pokemon.id,
-        };
-      });
-
-      setPokemonList(prev => [...prev, ...formattedPokemon]);
-      setCurrentPage(nextPage);
-
-      if (endIndex >= allPokemonList.length) {
-        setHasMore(false);
-      }
-    } catch (err) {
-      console.error('Failed to load more Pokemon:', err);
-    } finally {
-      setLoadingMore(false);
-    }
-  }, [loadingMore, hasMore, searchTerm, currentPage, allPokemonList]);
-
-  const handleSearch = useCallback(async (query: string) => {
-    setSearchTerm(query);
-
-    if (!query.trim()) {
-      setSearchResults([]);
-      return;
-    }
-
-    try {
-      setSearching(true);
-      const results = await searchPokemon(query, allPokemonList, SEARCH_LIMIT);
-      setSearchResults(results);
-    } catch (err) {
-      console.error('Search failed:', err);
-      setSearchResults([]);
-    } finally {
-      setSearching(false);
-    }
-  }, [allPokemonList]);
+    getServerCacheStats().then(setCacheStats).catch(() => null);
+  }, [pokemonList.length]);
+
+  // Search, filter, sort and view changes add a history entry; loading more
+  // pages only replaces the current one, so Back returns to the previous search.
+  const updateUrl = useCallback((changes: Partial<HomeUrlState>, mode: 'push' | 'replace' = 'push') => {
+    const next = { ...urlStateRef.current, ...changes };
+    const queryString = homeStateToSearchParams(next).toString();
+    const href = queryString ? `${pathname}?${queryString}` : pathname;
+    if (mode === 'push') router.push(href, { scroll: false });
+    else router.replace(href, { scroll: false });
+  }, [pathname, router]);
+
+  const loadMore = useCallback(() => {
+    const { page } = urlStateRef.current;
+    // The URL can run ahead of the loaded pages; wait for them to arrive.
+    if (loadingMore || !hasMore || loadedPages < page) return;
+    updateUrl({ page: page + 1 }, 'replace');
+  }, [loadingMore, hasMore, loadedPages, updateUrl]);
+
+  const lastElementRef = useInfiniteScroll(loadMore, hasMore && !loadingMore && !searching && !loadMoreFailed);
+
+  const handleSearch = useCallback((query: string) => {
+    const trimmed = query.trim();
+    if (trimmed === urlStateRef.current.query) return;
+    updateUrl({ query: trimmed, page: 1 });
+  }, [updateUrl]);
+
+  // Typing searches once the input settles; Enter in the search bar searches
+  // straight away.
+  useEffect(() => {
+    handleSearch(debouncedInput);
+  }, [debouncedInput, handleSearch]);
+
+  const handleFiltersChange = useCallback((next: PokemonFilters) => {
+    updateUrl({ filters: next, page: 1 });
+  }, [updateUrl]);
+
+  const handleSortChange = useCallback((next: PokemonSort) => {
+    updateUrl({ sort: next, page: 1 });
+  }, [updateUrl]);
+
+  const handleFormsChange = useCallback((forms: boolean) => {
+    updateUrl({ forms, page: 1 });
+  }, [updateUrl]);
 
   const clearSearch = useCallback(() => {
-    setSearchTerm('');
-    setSearchResults([]);
-  }, []);
-
-  const cacheStats = useMemo(() => getCacheStats(), [pokemonList.length, searchResults.length]);
-
-  if (error) {
-    return (
-      <div className="min-h-[60vh] flex items-center justify-center px-4">
-        <div className="text-center p-6 sm:p-8 bg-red-500/10 backdrop-blur-md rounded-3xl border border-red-500/20 w-full max-w-md">
-          <div className="text-6xl mb-6 animate-bounce">💥</div>
-          <h3 className="text-2xl font-bold text-red-400 mb-4">Oops! Something went wrong</h3>
-          <p className="text-red-300 text-lg mb-6">{error}</p>
-          <button
-            onClick={loadInitialData}
-            className="px-6 py-3 bg-gradient-to-r from-red-500 to-pink-500 text-white rounded-xl font-semibold w-full sm:w-auto"
-          >
-            🔄 Try Again
-          </button>
-        </div>
-      </div>
-    );
-  }
+    setSearchInput('');
+    updateUrl({ query: '', page: 1 });
+  }, [updateUrl]);
+
+  const showAll = useCallback(() => {
+    setSearchInput('');
+    updateUrl({ query: '', filters: EMPTY_FILTERS, page: 1 });
+  }, [updateUrl]);
 
   return (
     <div className="px-0 sm:px-6 lg:px-24 py-8 space-y-12">
@@ -178,23 +182,19 @@ export default function HomePage() {
 
         <div className="relative">
           <h1 className="text-4xl sm:text-5xl md:text-6xl font-bold mb-4 bg-gradient-to-r from-yellow-400 via-red-500 to-purple-600 bg-clip-text text-transparent animate-pulse">
-            Discover Pokemon
+            {t('home.title')}
           </h1>
           <div className="h-1 w-24 sm:w-32 bg-gradient-to-r from-yellow-400 to-purple-600 rounded-full mx-auto mb-6"></div>
 
           <div className="bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 p-4 sm:p-6 md:p-8 max-w-[95%] sm:max-w-xl md:max-w-3xl mx-auto mb-8 text-white/90 text-base sm:text-lg leading-relaxed">
-            Embark on an epic journey through the world of Pokemon!
-            <span className="font-semibold bg-gradient-to-r from-yellow-400 to-orange-500 bg-clip-text text-transparent"> Search</span> for your favorites and discover their unique
-            <span className="font-semibold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent"> abilities</span>,
-            <span className="font-semibold bg-gradient-to-r from-green-400 to-emerald-500 bg-clip-text text-transparent"> types</span>, and
-            <span className="font-semibold bg-gradient-to-r from-pink-400 to-red-500 bg-clip-text text-transparent"> stats</span>.
+            <IntroText text={t('home.intro')} />
           </div>
 
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4 max-w-[95%] sm:max-w-4xl mx-auto mb-8">
-            <StatCard icon="📊" title="Total Pokemon" value={allPokemonList.length} />
-            <StatCard icon="⚡" title="Pokemon Loaded" value={pokemonList.length} />
-            <StatCard icon="🔍" title="Results Found" value={displayedPokemon.length} />
-            <StatCard icon="⚡" title="Cached Pokemon" value={cacheStats.pokemon} />
+            <StatCard icon="📊" title={t('home.statTotal')} value={totalCount} />
+            <StatCard icon="⚡" title={t('home.statLoaded')} value={pokemonList.length} />
+            <StatCard icon="🔍" title={t('home.statResults')} value={resultCount} />
+            <StatCard icon="⚡" title={t('home.statCached')} value={cacheStats?.pokemon ?? 0} />
           </div>
         </div>
       </div>
@@ -204,26 +204,30 @@ export default function HomePage() {
         <div className="text-center mb-6">
           <h2 className="text-xl sm:text-2xl font-bold text-white flex items-center justify-center gap-3">
             <span className="text-2xl sm:text-3xl">🔍</span>
-            Find Your Pokemon
+            {t('home.findTitle')}
           </h2>
-          <p className="text-white/70 text-sm sm:text-base">Lightning-fast search through all {allPokemonList.length} Pokemon</p>
+          <p className="text-white/70 text-sm sm:text-base">{t('home.findSubtitle', { count: totalCount })}</p>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)] gap-4 items-start">
+          <SearchBar value={searchInput} onChange={setSearchInput} onSearch={handleSearch} />
+          <FilterPanel filters={filters} onChange={handleFiltersChange} />
         </div>
-        <SearchBar onSearch={handleSearch} />
 
         {searchTerm && (
           <div className="mt-4 text-center text-sm sm:text-base">
             <div className="inline-flex flex-wrap items-center gap-2 bg-white/10 backdrop-blur-sm rounded-full px-4 py-2 border border-white/20">
-              <span className="text-white/80">Searching for:</span>
+              <span className="text-white/80">{t('home.searchingFor')}</span>
               <span className="font-semibold text-white bg-gradient-to-r from-yellow-400 to-orange-500 bg-clip-text text-transparent">
                 "{searchTerm}"
               </span>
               <span className="text-white/60">•</span>
-              <span className="text-white/80">{displayedPokemon.length} results</span>
+              <span className="text-white/80">{t('home.resultCount', { count: resultCount })}</span>
               {searching && <LoadingSpinner />}
               <button
                 onClick={clearSearch}
                 className="ml-2 text-white/60 hover:text-white"
-                title="Clear search"
+                title={t('search.clear')}
+                aria-label={t('search.clear')}
               >
                 ✕
               </button>
@@ -232,60 +236,131 @@ export default function HomePage() {
         )}
       </div>
 
-      {/* Pokemon List */}
-      <div className="relative">
-        {loading ? (
-          <div className="text-center py-16">
-            <LoadingSpinner />
-            <p className="text-white/80 mt-6 text-lg">Loading amazing Pokemon...</p>
-          </div>
-        ) : (
-          <div className="bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10 p-4 sm:p-6">
-            <div className="flex flex-wrap items-center justify-between mb-6 gap-2">
-              <h2 className="text-xl sm:text-2xl font-bold text-white flex items-center gap-3">
-                <span className="text-2xl">🎮</span>
-                {searchTerm ? 'Search Results' : 'Pokemon Collection'}
-              </h2>
-              <div className="flex items-center gap-2 text-white/60 text-sm">
-                {searchTerm && <span className="bg-white/10 px-3 py-1 rounded-full">Fast Search Active</span>}
-                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                <span>Optimized</span>
-              </div>
-            </div>
+      {/* View Switcher */}
+      <div className="flex justify-center gap-2" role="tablist" aria-label={t('home.viewLabel')}>
+        <ViewTab active={view === 'all'} onClick={() => updateUrl({ view: 'all' })}>
+          🎮 {t('home.viewAll')}
+        </ViewTab>
+        <ViewTab active={view === 'favorites'} onClick={() => updateUrl({ view: 'favorites' })}>
+          ★ {t('home.viewFavorites', { count: favorites.length })}
+        </ViewTab>
+      </div>
 
-            <PokemonList pokemonList={displayedPokemon} loading={loading} />
+      {/* Favorites */}
+      {view === 'favorites' && (
+        <div className="bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10 p-4 sm:p-6 space-y-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <h2 className="text-xl sm:text-2xl font-bold text-white flex items-center gap-3">
+              <span className="text-2xl">★</span>
+              {t('home.favoritesTitle')}
+            </h2>
+            <FavoritesToolbar count={favorites.length} />
+          </div>
+          {favorites.length > 0 ? (
+            <PokemonList pokemonList={favorites.map(favoriteToDisplayPokemon)} loading={false} />
+          ) : (
+            <p className="text-center text-white/60 py-12">{t('home.favoritesEmpty')}</p>
+          )}
+        </div>
+      )}
 
-            {!searchTerm && hasMore && (
-              <div className="text-center mt-8 pt-6 border-t border-white/10">
+      {/* Pokemon List */}
+      {view === 'all' && (
+        <div className="relative">
+          {loading ? (
+            <div className="text-center py-16">
+              <LoadingSpinner />
+              <p className="text-white/80 mt-6 text-lg">{t('home.loading')}</p>
+            </div>
+          ) : error ? (
+            // The search and filters stay usable, so a failed query can be changed as well as retried.
+            <div className="flex justify-center py-8 px-4">
+              <div role="alert" className="text-center p-6 sm:p-8 bg-red-500/10 backdrop-blur-md rounded-3xl border border-red-500/20 w-full max-w-md">
+                <div className="text-6xl mb-6 animate-bounce">💥</div>
+                <h3 className="text-2xl font-bold text-red-400 mb-4">{t('home.errorTitle')}</h3>
+                <p className="text-red-300 text-lg mb-6">{describeError(error, t('home.loadFailed'))}</p>
                 <button
-                  onClick={loadMore}
-                  disabled={loadingMore}
-                  className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={retry}
+                  className="px-6 py-3 bg-gradient-to-r from-red-500 to-pink-500 text-white rounded-xl font-semibold w-full sm:w-auto"
                 >
-                  {loadingMore ? 'Loading More...' : '⬇️ Load More Pokemon'}
+                  🔄 {t('common.tryAgain')}
                 </button>
-                <p className="text-white/60 text-sm mt-2">
-                  Showing {pokemonList.length} of {allPokemonList.length} Pokemon
-                </p>
               </div>
-            )}
-          </div>
-        )}
-      </div>
+            </div>
+          ) : (
+            <div className="bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10 p-4 sm:p-6">
+              <div className="flex flex-wrap items-center justify-between mb-6 gap-2">
+                <h2 className="text-xl sm:text-2xl font-bold text-white flex items-center gap-3">
+                  <span className="text-2xl">🎮</span>
+                  {isNarrowed ? t('home.resultsTitle') : t('home.collectionTitle')}
+                </h2>
+                <div className="flex flex-wrap items-center gap-2 text-white/60 text-sm">
+                  <SortControl sort={sort} onChange={handleSortChange} />
+                  <label className="flex items-center gap-2 px-3 py-1.5 bg-white/10 border border-white/20 rounded-lg cursor-pointer hover:bg-white/20 transition-colors">
+                    <input
+                      type="checkbox"
+                      checked={showForms}
+                      onChange={(e) => handleFormsChange(e.target.checked)}
+                      className="accent-blue-500"
+                    />
+                    <span className="text-white">{t('home.showForms')}</span>
+                  </label>
+                  {searchTerm && <span className="bg-white/10 px-3 py-1 rounded-full">{t('home.searchActive')}</span>}
+                  {filtersActive && <span className="bg-white/10 px-3 py-1 rounded-full">{t('home.filtersActive')}</span>}
+                  {searching && !searchTerm && <LoadingSpinner />}
+                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                  <span>{t('home.optimized')}</span>
+                </div>
+              </div>
+
+              <PokemonList pokemonList={pokemonList} loading={loading} lastElementRef={lastElementRef} />
+
+              {hasMore && (
+                <div className="text-center mt-8 pt-6 border-t border-white/10">
+                  {loadMoreFailed ? (
+                    <div className="space-y-3">
+                      <p className="text-red-300">{t('home.loadMoreFailed')}</p>
+                      <button
+                        onClick={retryLoadMore}
+                        className="px-6 py-3 bg-gradient-to-r from-red-500 to-pink-500 text-white rounded-xl font-semibold"
+                      >
+                        🔄 {t('common.tryAgain')}
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={loadMore}
+                      disabled={loadingMore}
+                      className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {loadingMore ? t('home.loadingMore') : `⬇️ ${t('home.loadMore')}`}
+                    </button>
+                  )}
+                  <p className="text-white/60 text-sm mt-2">
+                    {t('home.showing', { shown: pokemonList.length, total: resultCount })}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
 
-      {!loading && displayedPokemon.length === 0 && (
+      {view === 'all' && !loading && !searching && !error && pokemonList.length === 0 && (
         <div className="text-center py-16 px-4">
           <div className="bg-white/10 backdrop-blur-md rounded-2xl border border-white/20 p-6 sm:p-8 max-w-md mx-auto">
             <div className="text-6xl mb-6 animate-bounce">🤔</div>
-            <h3 className="text-2xl font-bold text-white mb-4">No Pokemon Found</h3>
+            <h3 className="text-2xl font-bold text-white mb-4">{t('home.noResultsTitle')}</h3>
             <p className="text-white/70 text-lg mb-6">
-              We couldn't find any Pokemon matching "{searchTerm}". Try a different search term!
+              {searchTerm
+                ? t(filtersActive ? 'home.noResultsQueryFiltered' : 'home.noResultsQuery', { query: searchTerm })
+                : t('home.noResultsFilters')}
             </p>
             <button
-              onClick={clearSearch}
+              onClick={showAll}
               className="w-full sm:w-auto px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-xl font-semibold"
             >
-              🔄 Show All Pokemon
+              🔄 {t('home.showAll')}
             </button>
           </div>
         </div>
@@ -294,6 +369,35 @@ export default function HomePage() {
   );
 }
 
+// Extra: Intro Text
+// The intro message marks its highlighted words with tags, e.g.
+// "<search>Search</search>", so each language can place them where it needs.
+const INTRO_HIGHLIGHTS: Record<string, string> = {
+  search: 'from-yellow-400 to-orange-500',
+  abilities: 'from-blue-400 to-purple-500',
+  types: 'from-green-400 to-emerald-500',
+  stats: 'from-pink-400 to-red-500',
+};
+
+function IntroText({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<\w+>.*?<\/\w+>)/).map((part, i) => {
+        const tagged = part.match(/^<(\w+)>(.*)<\/\1>$/);
+        if (!tagged) return part;
+        return (
+          <span
+            key={i}
+            className={`font-semibold bg-gradient-to-r ${INTRO_HIGHLIGHTS[tagged[1]] ?? ''} bg-clip-text text-transparent`}
+          >
+            {tagged[2]}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
 // Extra: Reusable StatCard Component
 function StatCard({ icon, title, value }: { icon: string, title: string, value: number }) {
   return (
@@ -305,6 +409,24 @@ function StatCard({ icon, title, value }: { icon: string, title: string, value:
   );
 }
 
+// Extra: View Tab
+function ViewTab({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      role="tab"
+      aria-selected={active}
+      onClick={onClick}
+      className={`px-5 py-2 rounded-xl text-sm sm:text-base font-semibold border transition-all duration-300 ${
+        active
+          ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white border-transparent shadow-lg'
+          : 'bg-white/10 text-white/70 border-white/20 hover:bg-white/20'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
 // Extra: Loading Spinner
 function LoadingSpinner() {
   return (
@@ -0,0 +1,159 @@
+import { ImageResponse } from 'next/og';
+import { getPokemonDetail } from '../../../lib/server/pokemonDetail';
+import { STAT_LABELS, StatName } from '../../../types/pokemon';
+
+export const alt = 'Pokémon artwork with its types and base stats';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+export const revalidate = 86400;
+
+// Tailwind classes don't reach the image renderer, so the type palette is
+// repeated here as plain colors.
+const TYPE_COLORS: Record<string, string> = {
+  normal: '#9ca3af',
+  fire: '#f97316',
+  water: '#3b82f6',
+  electric: '#facc15',
+  grass: '#22c55e',
+  ice: '#22d3ee',
+  fighting: '#b91c1c',
+  poison: '#a855f7',
+  ground: '#ca8a04',
+  flying: '#818cf8',
+  psychic: '#ec4899',
+  bug: '#65a30d',
+  rock: '#a16207',
+  ghost: '#7e22ce',
+  dragon: '#4f46e5',
+  dark: '#1f2937',
+  steel: '#64748b',
+  fairy: '#f472b6',
+};
+
+const MAX_STAT = 255;
+
+// The renderer fetches remote images itself and fails the whole image when one
+// is unreachable, so the artwork is inlined and simply left out on failure.
+const loadArtwork = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+    return `data:${response.headers.get('content-type') ?? 'image/png'};base64,${data}`;
+  } catch {
+    return null;
+  }
+};
+
+export default async function OpenGraphImage({ params }: { params: { id: string } }) {
+  const detail = await getPokemonDetail(params.id);
+  const background = 'linear-gradient(135deg, #581c87 0%, #1e3a8a 60%, #312e81 100%)';
+
+  if (!detail) {
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: '100%',
+            height: '100%',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background,
+            color: 'white',
+            fontSize: 64,
+            fontWeight: 700,
+          }}
+        >
+          Pokemon Explorer
+        </div>
+      ),
+      size
+    );
+  }
+
+  const { pokemon } = detail;
+  const artwork = pokemon.image ? await loadArtwork(pokemon.image) : null;
+
+  return new ImageResponse(
+    (
+      <div style={{ width: '100%', height: '100%', display: 'flex', background, color: 'white', padding: 56 }}>
+        <div style={{ width: 460, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <div
+            style={{
+              width: 420,
+              height: 420,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              borderRadius: 210,
+              background: 'rgba(255, 255, 255, 0.12)',
+              border: '2px solid rgba(255, 255, 255, 0.25)',
+            }}
+          >
+            {artwork && <img src={artwork} width={360} height={360} alt="" />}
+          </div>
+        </div>
+
+        <div style={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'center', paddingLeft: 48 }}>
+          <div style={{ display: 'flex', alignItems: 'baseline', gap: 20 }}>
+            <div style={{ fontSize: 68, fontWeight: 700, textTransform: 'capitalize' }}>
+              {pokemon.name.replace(/-/g, ' ')}
+            </div>
+            <div style={{ fontSize: 36, color: 'rgba(255, 255, 255, 0.6)' }}>
+              {`#${pokemon.id.toString().padStart(3, '0')}`}
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', gap: 12, marginTop: 16, marginBottom: 32 }}>
+            {pokemon.types.map((type) => (
+              <div
+                key={type}
+                style={{
+                  padding: '8px 22px',
+                  borderRadius: 16,
+                  fontSize: 26,
+                  fontWeight: 600,
+                  textTransform: 'capitalize',
+                  background: TYPE_COLORS[type] ?? TYPE_COLORS.normal,
+                }}
+              >
+                {type}
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+            {pokemon.stats.map((stat) => (
+              <div key={stat.name} style={{ display: 'flex', alignItems: 'center', fontSize: 24 }}>
+                <div style={{ width: 130, color: 'rgba(255, 255, 255, 0.75)' }}>
+                  {STAT_LABELS[stat.name as StatName] ?? stat.name}
+                </div>
+                <div style={{ width: 60, fontWeight: 700 }}>{String(stat.value)}</div>
+                <div
+                  style={{
+                    flex: 1,
+                    height: 14,
+                    display: 'flex',
+                    borderRadius: 7,
+                    background: 'rgba(255, 255, 255, 0.15)',
+                  }}
+                >
+                  <div
+                    style={{
+                      width: `${Math.min((stat.value / MAX_STAT) * 100, 100)}%`,
+                      height: '100%',
+                      borderRadius: 7,
+                      background: TYPE_COLORS[pokemon.types[0]] ?? TYPE_COLORS.normal,
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -1,261 +1,300 @@
-'use client';
-
-import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { fetchPokemonDetails } from '../../../lib/pokemonApi';
-import { formatPokemonData, FormattedPokemon, PokemonTypes } from '../../../types/pokemon';
-import { NextPage } from 'next';
+import type { Metadata } from 'next';
+import type { ReactNode } from 'react';
+import { notFound } from 'next/navigation';
+import EvolutionTree from '../../../components/EvolutionTree';
+import {
+  FormAbilities,
+  FormActions,
+  FormArtwork,
+  FormMeasurements,
+  FormMoves,
+  FormSprites,
+  FormStats,
+  FormTypeEffectiveness,
+  FormTypes,
+} from '../../../components/FormSections';
+import { LocalizedName, Message } from '../../../components/LocalizedText';
+import FormSwitcher, { FormName, PokemonFormProvider } from '../../../components/PokemonForms';
+import PokemonNavigation from '../../../components/PokemonNavigation';
+import { formatSlug } from '../../../lib/i18n';
+import { fetchPokemonList, getPokemonIdFromUrl } from '../../../lib/pokemonApi';
+import { getPokemonDetail } from '../../../lib/server/pokemonDetail';
+import { setupServerData } from '../../../lib/server/setup';
+import { FormattedPokemon, STAT_LABELS, StatName } from '../../../types/pokemon';
 
 interface PokemonDetailPageProps {
-  params: {
+  params: Promise<{
     id: string;
-  };
+  }>;
 }
 
-const PokemonDetailPage: NextPage<PokemonDetailPageProps> = ({ params }) => {
-  const [pokemon, setPokemon] = useState<FormattedPokemon | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// Pages are pre-rendered for the original 151 at build time; any other id is
+// rendered on first request and cached like the rest.
+const STATIC_PAGE_COUNT = 151;
 
-  useEffect(() => {
-    loadPokemonDetails();
-  }, [params.id]);
+export const revalidate = 86400;
 
-  const loadPokemonDetails = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await fetchPokemonDetails(params.id);
-      setPokemon(formatPokemonData(data));
-    } catch (err) {
-      setError('Failed to load Pokémon details.');
-    } finally {
-      setLoading(false);
-    }
-  };
+export async function generateStaticParams() {
+  setupServerData();
 
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center h-[60vh]">
-        <div className="relative">
-          <div className="w-20 h-20 border-4 border-gradient-to-r from-purple-500 to-blue-500 border-t-transparent rounded-full animate-spin"></div>
-          <div className="absolute top-2 left-2 w-16 h-16 border-4 border-gradient-to-r from-yellow-400 to-red-500 border-b-transparent rounded-full animate-spin animate-reverse"></div>
-          <div className="absolute inset-0 bg-gradient-to-r from-purple-500/20 to-blue-500/20 rounded-full blur-xl animate-pulse"></div>
-        </div>
-      </div>
-    );
+  try {
+    const list = await fetchPokemonList(STATIC_PAGE_COUNT);
+    return list
+      .map((item) => getPokemonIdFromUrl(item.url))
+      .filter((id): id is string => id !== null)
+      .map((id) => ({ id }));
+  } catch {
+    // Without the data source at build time every page is rendered on demand.
+    return [];
   }
+}
 
-  if (error || !pokemon) {
-    return (
-      <div className="text-center py-12">
-        <div className="bg-red-500/10 backdrop-blur-md rounded-2xl border border-red-500/20 p-8 max-w-md mx-auto">
-          <div className="text-6xl mb-4">😵</div>
-          <p className="text-red-400 text-lg mb-6">{error || 'Pokemon not found'}</p>
-          <Link
-            href="/"
-            className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl shadow-lg hover:shadow-xl hover:scale-105 transition-all duration-300 group"
-          >
-            <span className="mr-2 transition-transform group-hover:-translate-x-1">←</span>
-            Back to Home
-          </Link>
-        </div>
-      </div>
-    );
-  }
+const describePokemon = (pokemon: FormattedPokemon) => {
+  const types = pokemon.types.map(formatSlug).join('/');
+  const stats = pokemon.stats
+    .map((stat) => `${STAT_LABELS[stat.name as StatName] ?? stat.name} ${stat.value}`)
+    .join(', ');
+  return `${formatSlug(pokemon.name)} is a ${types} type Pokémon. Base stats: ${stats}.`;
+};
 
-  const getTypeGradient = (type: string) => {
-    const gradients = {
-      fire: 'from-red-500 to-orange-500',
-      water: 'from-blue-500 to-cyan-500',
-      grass: 'from-green-500 to-emerald-500',
-      electric: 'from-yellow-400 to-yellow-600',
-      psychic: 'from-pink-500 to-purple-500',
-      ice: 'from-cyan-400 to-blue-400',
-      dragon: 'from-purple-600 to-indigo-600',
-      dark: 'from-gray-800 to-black',
-      fairy: 'from-pink-400 to-rose-400',
-      fighting: 'from-red-600 to-red-800',
-      poison: 'from-purple-500 to-violet-600',
-      ground: 'from-yellow-600 to-orange-600',
-      flying: 'from-blue-400 to-purple-400',
-      bug: 'from-green-400 to-lime-500',
-      rock: 'from-yellow-800 to-orange-800',
-      ghost: 'from-purple-600 to-gray-600',
-      steel: 'from-gray-500 to-gray-600',
-      normal: 'from-gray-400 to-gray-500',
-    };
-    return gradients[type as keyof typeof gradients] || 'from-gray-400 to-gray-500';
-  };
+export async function generateMetadata({ params }: PokemonDetailPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const detail = await getPokemonDetail(id);
+  if (!detail) return { title: 'Pokémon not found | Pokemon Explorer' };
+
+  const { pokemon, species } = detail;
+  const title = `${formatSlug(pokemon.name)} #${pokemon.id.toString().padStart(3, '0')} | Pokemon Explorer`;
+  const description = species?.species.flavorText ?? describePokemon(pokemon);
 
-  const getStatColor = (statName: string) => {
-    const colors = {
-      hp: 'bg-gradient-to-r from-red-500 to-red-600',
-      attack: 'bg-gradient-to-r from-orange-500 to-orange-600',
-      defense: 'bg-gradient-to-r from-blue-500 to-blue-600',
-      'special-attack': 'bg-gradient-to-r from-purple-500 to-purple-600',
-      'special-defense': 'bg-gradient-to-r from-green-500 to-green-600',
-      speed: 'bg-gradient-to-r from-yellow-500 to-yellow-600',
-    };
-    return colors[statName as keyof typeof colors] || 'bg-gradient-to-r from-gray-500 to-gray-600';
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: 'website' },
+    twitter: { card: 'summary_large_image', title, description },
   };
+}
+
+export default async function PokemonDetailPage({ params }: PokemonDetailPageProps) {
+  const { id } = await params;
+  const detail = await getPokemonDetail(id);
+  if (!detail) notFound();
+
+  const { pokemon, forms, species: speciesData, abilityNames, neighbours } = detail;
+  const speciesName = speciesData?.species.name ?? pokemon.name;
+  const speciesNames = speciesData?.species.names;
 
   return (
-    <div className="px-4 py-8 max-w-7xl mx-auto">
-      {/* Back Button */}
-      <Link 
-        href="/" 
-        className="group inline-flex items-center text-white/80 hover:text-white mb-8 transition-all duration-300"
-      >
-        <div className="mr-2 p-2 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 group-hover:bg-white/20 transition-all duration-300">
-          <svg className="w-4 h-4 transition-transform group-hover:-translate-x-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
-          </svg>
+    <PokemonFormProvider forms={forms} initialId={pokemon.id}>
+      <div className="px-4 py-8 max-w-7xl mx-auto">
+        {/* Navigation */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          {/* Back Button */}
+          <Link 
+            href="/" 
+            aria-keyshortcuts="Escape"
+            className="group inline-flex items-center text-white/80 hover:text-white transition-all duration-300"
+          >
+            <div className="mr-2 p-2 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 group-hover:bg-white/20 transition-all duration-300">
+              <svg className="w-4 h-4 transition-transform group-hover:-translate-x-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </div>
+            <span className="font-medium">
+              <Message id="detail.back" />
+            </span>
+          </Link>
+
+          <PokemonNavigation neighbours={neighbours} names={speciesNames} />
         </div>
-        <span className="font-medium">Back to Pokemon List</span>
-      </Link>
 
-      {/* Main Content */}
-      <div className="bg-white/10 backdrop-blur-xl border border-white/20 rounded-3xl shadow-2xl overflow-hidden">
-        {/* Header with Pokemon Image */}
-        <div className="relative bg-gradient-to-br from-white/20 to-white/5 p-8 md:p-12">
-          <div className="absolute inset-0 bg-gradient-to-r from-purple-500/10 to-blue-500/10"></div>
-          <div className="relative flex flex-col md:flex-row items-center gap-8">
-            {/* Pokemon Image */}
-            <div className="relative group">
-              <div className="absolute inset-0 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full blur-xl opacity-50 group-hover:opacity-70 transition-opacity duration-300"></div>
-              <div className="relative bg-white/20 backdrop-blur-sm rounded-full p-6 border border-white/30 group-hover:scale-105 transition-transform duration-300">
-                <img 
-                  src={pokemon.image} 
-                  alt={pokemon.name} 
-                  className="w-48 h-48 object-contain drop-shadow-2xl"
-                />
+        {/* Main Content */}
+        <div className="bg-white/10 backdrop-blur-xl border border-white/20 rounded-3xl shadow-2xl overflow-hidden">
+          {/* Header with Pokemon Image */}
+          <div className="relative bg-gradient-to-br from-white/20 to-white/5 p-8 md:p-12">
+            <div className="absolute inset-0 bg-gradient-to-r from-purple-500/10 to-blue-500/10"></div>
+            <div className="relative flex flex-col md:flex-row items-center gap-8">
+              {/* Pokemon Image */}
+              <div className="relative group">
+                <div className="absolute inset-0 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full blur-xl opacity-50 group-hover:opacity-70 transition-opacity duration-300"></div>
+                <div className="relative bg-white/20 backdrop-blur-sm rounded-full p-6 border border-white/30 group-hover:scale-105 transition-transform duration-300">
+                  <FormArtwork />
+                </div>
               </div>
-            </div>
 
-            {/* Pokemon Info */}
-            <div className="text-center md:text-left">
-              <div className="flex items-center justify-center md:justify-start gap-4 mb-4">
-                <h1 className="text-4xl md:text-5xl font-bold text-white capitalize">
-                  {pokemon.name}
-                </h1>
-                <span className="text-2xl text-white/60 font-mono">
-                  #{pokemon.id.toString().padStart(3, '0')}
-                </span>
+              {/* Pokemon Info */}
+              <div className="text-center md:text-left">
+                <div className="flex flex-wrap items-center justify-center md:justify-start gap-4 mb-4">
+                  <h1 className="text-4xl md:text-5xl font-bold text-white">
+                    <LocalizedName names={speciesNames} slug={speciesName} />
+                  </h1>
+                  <span className="text-2xl text-white/60 font-mono">
+                    #{(speciesData?.species.id ?? pokemon.id).toString().padStart(3, '0')}
+                  </span>
+                  <FormName speciesName={speciesName} />
+                </div>
+
+                {/* Forms */}
+                <FormSwitcher speciesName={speciesName} />
+
+                {/* Types */}
+                <FormTypes />
+
+                {/* Basic Stats */}
+                <FormMeasurements />
+
+                {/* Actions */}
+                <FormActions />
               </div>
-              
-              {/* Types */}
-              <div className="flex gap-3 justify-center md:justify-start mb-6">
-                {pokemon.types.map((type) => (
-                  <div
-                    key={type}
-                    className={`px-4 py-2 rounded-xl text-white font-semibold text-sm bg-gradient-to-r ${getTypeGradient(type)} shadow-lg hover:shadow-xl hover:scale-105 transition-all duration-300`}
-                  >
-                    {type}
+            </div>
+          </div>
+
+          {/* Content Sections */}
+          <div className="p-8 md:p-12 space-y-10">
+            {/* Species */}
+            {speciesData && (
+              <div className="space-y-4">
+                <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                  <div className="w-8 h-8 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-full flex items-center justify-center">
+                    <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                    </svg>
                   </div>
-                ))}
+                  <Message id="detail.about" />
+                </h2>
+                {speciesData.species.genus && (
+                  <p className="text-white/80 font-medium">{speciesData.species.genus}</p>
+                )}
+                {speciesData.species.flavorText && (
+                  <p className="text-white/70 italic leading-relaxed">{speciesData.species.flavorText}</p>
+                )}
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                  <SpeciesFact label={<Message id="detail.generation" />} value={speciesData.species.generation} />
+                  <SpeciesFact
+                    label={<Message id="detail.habitat" />}
+                    value={speciesData.species.habitat ?? <Message id="detail.unknown" />}
+                  />
+                  <SpeciesFact label={<Message id="detail.captureRate" />} value={speciesData.species.captureRate} />
+                  <SpeciesFact label={<Message id="detail.growthRate" />} value={speciesData.species.growthRate} />
+                  <SpeciesFact label={<Message id="detail.eggGroups" />} value={speciesData.species.eggGroups.join(', ')} />
+                  <SpeciesFact
+                    label={<Message id="detail.gender" />}
+                    value={
+                      speciesData.species.genderRate < 0
+                        ? <Message id="detail.genderless" />
+                        : `${(speciesData.species.genderRate / 8) * 100}% ♀`
+                    }
+                  />
+                </div>
+                {(speciesData.species.isLegendary || speciesData.species.isMythical || speciesData.species.isBaby) && (
+                  <div className="flex gap-2">
+                    {speciesData.species.isLegendary && <SpeciesBadge label={<Message id="detail.legendary" />} />}
+                    {speciesData.species.isMythical && <SpeciesBadge label={<Message id="detail.mythical" />} />}
+                    {speciesData.species.isBaby && <SpeciesBadge label={<Message id="detail.baby" />} />}
+                  </div>
+                )}
               </div>
+            )}
 
-              {/* Basic Stats */}
-              <div className="grid grid-cols-2 gap-6 max-w-xs mx-auto md:mx-0">
-                <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
-                  <div className="text-white/70 text-sm">Height</div>
-                  <div className="text-2xl font-bold text-white">{pokemon.height / 10}m</div>
+            {/* Sprites */}
+            <div className="space-y-4">
+              <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-cyan-500 to-blue-500 rounded-full flex items-center justify-center">
+                  <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
                 </div>
-                <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
-                  <div className="text-white/70 text-sm">Weight</div>
-                  <div className="text-2xl font-bold text-white">{pokemon.weight / 10}kg</div>
+                <Message id="gallery.title" />
+              </h2>
+              <FormSprites names={speciesNames} />
+            </div>
+
+            {/* Abilities */}
+            <div className="space-y-4">
+              <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-green-500 to-emerald-500 rounded-full flex items-center justify-center">
+                  <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                  </svg>
                 </div>
-              </div>
+                <Message id="detail.abilities" />
+              </h2>
+              <FormAbilities abilityNames={abilityNames} />
             </div>
-          </div>
-        </div>
 
-        {/* Content Sections */}
-        <div className="p-8 md:p-12 space-y-10">
-          {/* Abilities */}
-          <div className="space-y-4">
-            <h2 className="text-2xl font-bold text-white flex items-center gap-3">
-              <div className="w-8 h-8 bg-gradient-to-r from-green-500 to-emerald-500 rounded-full flex items-center justify-center">
-                <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                </svg>
-              </div>
-              Abilities
-            </h2>
-            <div className="flex flex-wrap gap-3">
-              {pokemon.abilities.map((ability) => (
-                <div
-                  key={ability}
-                  className="px-4 py-2 bg-green-500/20 backdrop-blur-sm text-green-400 rounded-xl border border-green-500/30 capitalize hover:bg-green-500/30 transition-colors duration-300"
-                >
-                  {ability.replace('-', ' ')}
+            {/* Type Effectiveness */}
+            <div className="space-y-4">
+              <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-red-500 to-orange-500 rounded-full flex items-center justify-center">
+                  <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                  </svg>
                 </div>
-              ))}
+                <Message id="detail.typeEffectiveness" />
+              </h2>
+              <FormTypeEffectiveness />
             </div>
-          </div>
 
-          {/* Base Stats */}
-          <div className="space-y-6">
-            <h2 className="text-2xl font-bold text-white flex items-center gap-3">
-              <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full flex items-center justify-center">
-                <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-                </svg>
-              </div>
-              Base Stats
-            </h2>
-            <div className="grid gap-4">
-              {pokemon.stats.map((stat) => (
-                <div key={stat.name} className="space-y-2">
-                  <div className="flex justify-between items-center">
-                    <span className="text-white/80 capitalize font-medium">
-                      {stat.name.replace('-', ' ')}
-                    </span>
-                    <span className="text-white font-bold text-lg">{stat.value}</span>
-                  </div>
-                  <div className="relative h-3 bg-white/10 rounded-full overflow-hidden">
-                    <div
-                      className={`h-full ${getStatColor(stat.name)} transition-all duration-1000 ease-out shadow-lg`}
-                      style={{ width: `${Math.min((stat.value / 150) * 100, 100)}%` }}
-                    >
-                      <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/30 to-transparent animate-pulse"></div>
-                    </div>
-                  </div>
+            {/* Base Stats */}
+            <div className="space-y-6">
+              <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full flex items-center justify-center">
+                  <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                  </svg>
                 </div>
-              ))}
+                <Message id="detail.baseStats" />
+              </h2>
+              <FormStats />
             </div>
-          </div>
 
-          {/* Moves */}
-          <div className="space-y-6">
-            <h2 className="text-2xl font-bold text-white flex items-center gap-3">
-              <div className="w-8 h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full flex items-center justify-center">
-                <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                </svg>
-              </div>
-              Sample Moves
-            </h2>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
-              {pokemon.moves.map((move, index) => (
-                <div
-                  key={move}
-                  className="group px-4 py-3 bg-white/10 backdrop-blur-sm text-white/90 rounded-xl border border-white/20 capitalize hover:bg-white/20 hover:scale-105 transition-all duration-300 cursor-pointer"
-                  style={{ animationDelay: `${index * 50}ms` }}
-                >
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">{move.replace('-', ' ')}</span>
-                    <div className="w-2 h-2 bg-purple-500 rounded-full group-hover:bg-pink-500 transition-colors duration-300"></div>
+            {/* Evolution */}
+            {speciesData?.evolution && (
+              <div className="space-y-6">
+                <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                  <div className="w-8 h-8 bg-gradient-to-r from-pink-500 to-rose-500 rounded-full flex items-center justify-center">
+                    <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                    </svg>
                   </div>
+                  <Message id="detail.evolution" />
+                </h2>
+                <EvolutionTree chain={speciesData.evolution} currentId={speciesData.species.id} />
+              </div>
+            )}
+
+            {/* Moves */}
+            <div className="space-y-6">
+              <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                <div className="w-8 h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full flex items-center justify-center">
+                  <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                  </svg>
                 </div>
-              ))}
+                <Message id="detail.moves" />
+              </h2>
+              <FormMoves />
             </div>
           </div>
         </div>
       </div>
+    </PokemonFormProvider>
+  );
+}
+
+function SpeciesFact({ label, value }: { label: ReactNode; value: ReactNode }) {
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-xl p-3 border border-white/20">
+      <div className="text-white/60 text-xs">{label}</div>
+      <div className="text-white font-semibold capitalize">{value}</div>
     </div>
   );
 }
 
-export default PokemonDetailPage;
\ No newline at end of file
+function SpeciesBadge({ label }: { label: ReactNode }) {
+  return (
+    <span className="px-3 py-1 text-xs font-semibold text-yellow-200 bg-yellow-500/20 border border-yellow-500/30 rounded-full">
+      {label}
+    </span>
+  );
+}
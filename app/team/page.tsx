@@ -0,0 +1,172 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import TeamSlot from '../../components/TeamSlot';
+import TeamAnalysisPanel from '../../components/TeamAnalysisPanel';
+import { useTeams } from '../../hooks/useTeams';
+import { getPokemon, getPokemonMoves } from '../../lib/explorerApi';
+import { describeError, NotFoundError } from '../../lib/errors';
+import { analyzeTeam, AnalyzedMember } from '../../lib/teamAnalysis';
+import {
+  createTeam,
+  deleteTeam,
+  MAX_TEAM_SIZE,
+  removeFromTeam,
+  renameTeam,
+  setActiveTeam,
+  setMemberMoves,
+} from '../../lib/teamStorage';
+import { FormattedPokemon } from '../../types/pokemon';
+import { LearnedMove } from '../../types/move';
+
+interface MemberData {
+  pokemon: FormattedPokemon;
+  learnset: LearnedMove[];
+}
+
+export default function TeamPage() {
+  const { teams, activeTeam } = useTeams();
+  const [memberData, setMemberData] = useState<Record<number, MemberData>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const memberIds = useMemo(
+    () => [...new Set(activeTeam?.members.map((member) => member.pokemonId) ?? [])],
+    [activeTeam]
+  );
+
+  useEffect(() => {
+    const missing = memberIds.filter((id) => !memberData[id]);
+    if (missing.length === 0) return;
+
+    const controller = new AbortController();
+    Promise.all(
+      missing.map(async (id) => {
+        const [pokemon, moves] = await Promise.all([
+          getPokemon(id, controller.signal),
+          getPokemonMoves(id, undefined, controller.signal),
+        ]);
+        return [id, { pokemon, learnset: moves.moves }] as const;
+      })
+    )
+      .then((entries) => {
+        if (!controller.signal.aborted) setMemberData((current) => ({ ...current, ...Object.fromEntries(entries) }));
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading team members:', err);
+        setError(
+          err instanceof NotFoundError
+            ? 'A Pokémon on this team no longer exists. Remove it to see the full analysis.'
+            : describeError(err, 'Failed to load some team members.')
+        );
+      });
+
+    return () => controller.abort();
+  }, [memberIds, memberData]);
+
+  const analysis = useMemo(() => {
+    const members: AnalyzedMember[] = (activeTeam?.members ?? []).flatMap((member) => {
+      const data = memberData[member.pokemonId];
+      if (!data) return [];
+
+      const attackTypes = member.moves
+        .map((name) => data.learnset.find((move) => move.name === name)?.details)
+        .filter((details) => details && details.damageClass !== 'status')
+        .map((details) => details!.type);
+      return [{ pokemon: data.pokemon, attackTypes }];
+    });
+    return { members, result: analyzeTeam(members) };
+  }, [activeTeam, memberData]);
+
+  const handleRename = () => {
+    if (!activeTeam) return;
+    const name = window.prompt('Team name', activeTeam.name);
+    if (name !== null) renameTeam(activeTeam.id, name);
+  };
+
+  const handleDelete = () => {
+    if (activeTeam && window.confirm(`Delete "${activeTeam.name}"?`)) deleteTeam(activeTeam.id);
+  };
+
+  return (
+    <div className="space-y-10">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold text-white">Team Builder</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {teams.length > 0 && (
+            <select
+              value={activeTeam?.id ?? ''}
+              onChange={(e) => setActiveTeam(e.target.value)}
+              aria-label="Team"
+              className="px-4 py-2 text-sm text-white bg-white/10 border border-white/20 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              {teams.map((team) => (
+                <option key={team.id} value={team.id} className="bg-slate-800">
+                  {team.name} ({team.members.length}/{MAX_TEAM_SIZE})
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => createTeam('')}
+            className="px-4 py-2 text-sm text-white bg-white/10 border border-white/20 rounded-xl hover:bg-white/20 transition-all duration-300"
+          >
+            New team
+          </button>
+          {activeTeam && (
+            <>
+              <button
+                onClick={handleRename}
+                className="px-4 py-2 text-sm text-white bg-white/10 border border-white/20 rounded-xl hover:bg-white/20 transition-all duration-300"
+              >
+                Rename
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 text-sm text-red-300 bg-red-500/10 border border-red-500/30 rounded-xl hover:bg-red-500/20 transition-all duration-300"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {/* Slots */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {activeTeam?.members.map((member, index) => (
+          <TeamSlot
+            key={`${member.pokemonId}-${index}`}
+            member={member}
+            pokemon={memberData[member.pokemonId]?.pokemon ?? null}
+            learnset={memberData[member.pokemonId]?.learnset ?? null}
+            onRemove={() => removeFromTeam(activeTeam.id, index)}
+            onMovesChange={(moves) => setMemberMoves(activeTeam.id, index, moves)}
+          />
+        ))}
+        {Array.from({ length: MAX_TEAM_SIZE - (activeTeam?.members.length ?? 0) }, (_, index) => (
+          <Link
+            key={`empty-${index}`}
+            href="/"
+            className="flex flex-col items-center justify-center min-h-[10rem] rounded-2xl border-2 border-dashed border-white/20 text-white/40 hover:text-white/70 hover:border-white/40 transition-colors"
+          >
+            <span className="text-3xl">+</span>
+            <span className="text-sm">Add from the Pokédex</span>
+          </Link>
+        ))}
+      </div>
+
+      {/* Analysis */}
+      {analysis.members.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-2xl font-bold text-white">Team Analysis</h2>
+          <TeamAnalysisPanel analysis={analysis.result} size={analysis.members.length} />
+        </div>
+      )}
+    </div>
+  );
+}
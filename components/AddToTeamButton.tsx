@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { useTeams } from '../hooks/useTeams';
+import { addToTeam, MAX_TEAM_SIZE } from '../lib/teamStorage';
+
+interface AddToTeamButtonProps {
+  id: number;
+  name: string;
+  compact?: boolean;
+}
+
+export default function AddToTeamButton({ id, name, compact = false }: AddToTeamButtonProps) {
+  const { activeTeam } = useTeams();
+  const { t } = useLocale();
+  const [justAdded, setJustAdded] = useState(false);
+  const full = (activeTeam?.members.length ?? 0) >= MAX_TEAM_SIZE;
+
+  const handleClick = () => {
+    if (addToTeam(id)) {
+      setJustAdded(true);
+      setTimeout(() => setJustAdded(false), 1500);
+    }
+  };
+
+  const addLabel = activeTeam ? t('team.addTo', { team: activeTeam.name }) : t('team.addTitle');
+  const label = compact ? (justAdded ? '✓' : '👥') : justAdded ? `✓ ${t('team.added')}` : `+ ${addLabel}`;
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={full}
+      aria-label={activeTeam ? t('team.addLabel', { name, team: activeTeam.name }) : t('team.addLabelNew', { name })}
+      title={full ? t('team.full', { team: activeTeam?.name ?? '', count: MAX_TEAM_SIZE }) : t('team.addTitle')}
+      className={
+        compact
+          ? `px-2 py-1 rounded-md text-xs font-medium backdrop-blur-sm transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+              justAdded ? 'bg-green-500/70 text-white' : 'bg-black/20 text-white/60 hover:text-white hover:bg-black/40'
+            }`
+          : `px-4 py-2 text-sm font-semibold text-white rounded-xl border transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed ${
+              justAdded ? 'bg-green-500/30 border-green-500/50' : 'bg-white/10 border-white/20 hover:bg-white/20'
+            }`
+      }
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useCompareSelection } from '../hooks/useCompareSelection';
+import { compareHref, MAX_COMPARE, MIN_COMPARE } from '../lib/compareSelection';
+
+const SPRITE_URL = 'https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/pokemon';
+
+export default function CompareBar() {
+  const { ids, toggle, clear } = useCompareSelection();
+  const pathname = usePathname();
+
+  if (ids.length === 0 || pathname === '/compare') return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-xl">
+      <div className="flex items-center gap-3 px-4 py-3 bg-slate-900/80 backdrop-blur-md border border-white/20 rounded-2xl shadow-2xl">
+        <div className="flex gap-2">
+          {ids.map((id) => (
+            <button
+              key={id}
+              onClick={() => toggle(id)}
+              aria-label={`Remove #${id} from comparison`}
+              className="relative w-10 h-10 bg-white/10 rounded-full border border-white/20 hover:border-red-400/60 transition-colors"
+            >
+              <img src={`${SPRITE_URL}/${id}.png`} alt={`#${id}`} className="w-10 h-10 object-contain" />
+            </button>
+          ))}
+        </div>
+        <span className="text-sm text-white/60 whitespace-nowrap">
+          {ids.length}/{MAX_COMPARE}
+        </span>
+        <div className="ml-auto flex items-center gap-3">
+          <button onClick={clear} className="text-sm text-white/60 hover:text-white transition-colors">
+            Clear
+          </button>
+          {ids.length >= MIN_COMPARE ? (
+            <Link
+              href={compareHref(ids)}
+              className="px-4 py-2 text-sm font-semibold text-white bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl hover:scale-105 transition-all duration-300"
+            >
+              Compare
+            </Link>
+          ) : (
+            <span className="text-xs text-white/50">Pick one more</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import Link from 'next/link';
+import { FormattedPokemon, PokemonTypes, STAT_LABELS, STAT_NAMES } from '../types/pokemon';
+import { compareHref } from '../lib/compareSelection';
+
+interface CompareTableProps {
+  pokemon: FormattedPokemon[];
+}
+
+// One colour per column, used for the column header and the overlaid stat bars.
+const COLUMN_COLORS = ['bg-red-500', 'bg-blue-500', 'bg-green-500', 'bg-yellow-500'];
+const MAX_STAT = 255;
+
+const statValue = (pokemon: FormattedPokemon, name: string): number =>
+  pokemon.stats.find((stat) => stat.name === name)?.value ?? 0;
+
+const statTotal = (pokemon: FormattedPokemon): number =>
+  pokemon.stats.reduce((total, stat) => total + stat.value, 0);
+
+function ValueRow({ label, values }: { label: string; values: number[] }) {
+  const best = Math.max(...values);
+  const highlight = values.filter((value) => value === best).length < values.length;
+
+  return (
+    <tr className="border-b border-white/10">
+      <th scope="row" className="px-4 py-3 text-left text-sm font-medium text-white/70 whitespace-nowrap">
+        {label}
+      </th>
+      {values.map((value, index) => {
+        const isBest = highlight && value === best;
+        return (
+          <td
+            key={index}
+            className={`px-4 py-3 text-center font-mono ${isBest ? 'text-green-300 font-bold' : 'text-white/90'}`}
+          >
+            {value}
+            {isBest && <span className="sr-only"> (best)</span>}
+          </td>
+        );
+      })}
+    </tr>
+  );
+}
+
+export default function CompareTable({ pokemon }: CompareTableProps) {
+  const ids = pokemon.map((entry) => entry.id);
+
+  return (
+    <div className="space-y-10">
+      <div className="overflow-x-auto bg-white/5 rounded-2xl border border-white/10">
+        <table className="w-full text-white">
+          <thead>
+            <tr className="border-b border-white/10">
+              <td />
+              {pokemon.map((entry, index) => (
+                <th key={entry.id} scope="col" className="px-4 py-4 align-top">
+                  <div className="flex flex-col items-center gap-2">
+                    <div className={`h-1 w-12 rounded-full ${COLUMN_COLORS[index]}`} />
+                    <Link href={`/pokemon/${entry.id}`} className="group flex flex-col items-center">
+                      <img
+                        src={entry.image ?? undefined}
+                        alt={entry.name}
+                        className="w-24 h-24 object-contain drop-shadow-lg transition-transform duration-300 group-hover:scale-110"
+                      />
+                      <span className="font-semibold capitalize">{entry.name.replace(/-/g, ' ')}</span>
+                      <span className="text-xs text-white/50 font-mono">#{entry.id.toString().padStart(3, '0')}</span>
+                    </Link>
+                    {ids.length > 1 && (
+                      <Link
+                        href={compareHref(ids.filter((id) => id !== entry.id))}
+                        className="text-xs text-white/40 hover:text-red-300 transition-colors"
+                      >
+                        Remove
+                      </Link>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-white/10">
+              <th scope="row" className="px-4 py-3 text-left text-sm font-medium text-white/70">Types</th>
+              {pokemon.map((entry) => (
+                <td key={entry.id} className="px-4 py-3">
+                  <div className="flex flex-wrap justify-center gap-1.5">
+                    {entry.types.map((type) => (
+                      <span
+                        key={type}
+                        className={`px-3 py-1 rounded-lg text-xs font-medium capitalize bg-gradient-to-r ${PokemonTypes[type] || 'from-gray-400 to-gray-600'}`}
+                      >
+                        {type}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+              ))}
+            </tr>
+            <tr className="border-b border-white/10">
+              <th scope="row" className="px-4 py-3 text-left text-sm font-medium text-white/70">Abilities</th>
+              {pokemon.map((entry) => (
+                <td key={entry.id} className="px-4 py-3 text-center text-sm capitalize text-white/90">
+                  {entry.abilities.map((ability) => ability.name.replace(/-/g, ' ')).join(', ')}
+                </td>
+              ))}
+            </tr>
+            <tr className="border-b border-white/10">
+              <th scope="row" className="px-4 py-3 text-left text-sm font-medium text-white/70">Height</th>
+              {pokemon.map((entry) => (
+                <td key={entry.id} className="px-4 py-3 text-center font-mono text-white/90">
+                  {entry.height / 10} m
+                </td>
+              ))}
+            </tr>
+            <tr className="border-b border-white/10">
+              <th scope="row" className="px-4 py-3 text-left text-sm font-medium text-white/70">Weight</th>
+              {pokemon.map((entry) => (
+                <td key={entry.id} className="px-4 py-3 text-center font-mono text-white/90">
+                  {entry.weight / 10} kg
+                </td>
+              ))}
+            </tr>
+            {STAT_NAMES.map((name) => (
+              <ValueRow key={name} label={STAT_LABELS[name]} values={pokemon.map((entry) => statValue(entry, name))} />
+            ))}
+            <ValueRow label="Total" values={pokemon.map(statTotal)} />
+          </tbody>
+        </table>
+      </div>
+
+      {/* Overlaid stat bars */}
+      <div className="space-y-4">
+        <h2 className="text-2xl font-bold text-white">Base Stats</h2>
+        <div className="flex flex-wrap gap-4">
+          {pokemon.map((entry, index) => (
+            <span key={entry.id} className="flex items-center gap-2 text-sm text-white/80 capitalize">
+              <span className={`w-3 h-3 rounded-full ${COLUMN_COLORS[index]}`} />
+              {entry.name.replace(/-/g, ' ')}
+            </span>
+          ))}
+        </div>
+        {STAT_NAMES.map((name) => (
+          <div key={name} className="grid grid-cols-[5rem_minmax(0,1fr)] items-center gap-4">
+            <span className="text-sm text-white/70">{STAT_LABELS[name]}</span>
+            <div className="relative h-4 bg-white/10 rounded-full overflow-hidden">
+              {pokemon
+                .map((entry, index) => ({ index, value: statValue(entry, name) }))
+                // Draw the largest bar first so smaller ones stay visible on top.
+                .sort((a, b) => b.value - a.value)
+                .map(({ index, value }) => (
+                  <div
+                    key={index}
+                    title={`${pokemon[index].name}: ${value}`}
+                    className={`absolute inset-y-0 left-0 rounded-full opacity-70 ${COLUMN_COLORS[index]}`}
+                    style={{ width: `${Math.min((value / MAX_STAT) * 100, 100)}%` }}
+                  />
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
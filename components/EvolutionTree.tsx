@@ -0,0 +1,99 @@
+'use client';
+
+import Link from 'next/link';
+import { useLocale } from '../hooks/useLocale';
+import { EvolutionNode, EvolutionTrigger, EvolutionTriggerKind } from '../types/species';
+
+interface EvolutionTreeProps {
+  chain: EvolutionNode;
+  currentId: number;
+}
+
+const triggerIcons: Record<EvolutionTriggerKind, string> = {
+  level: '⬆️',
+  item: '💎',
+  trade: '🔄',
+  friendship: '💖',
+  other: '✨',
+};
+
+function EvolutionStage({ node, isCurrent }: { node: EvolutionNode; isCurrent: boolean }) {
+  const { t } = useLocale();
+
+  return (
+    <Link
+      href={`/pokemon/${node.id}`}
+      aria-current={isCurrent ? 'page' : undefined}
+      className={`group flex flex-col items-center w-28 p-3 rounded-2xl border transition-all duration-300 hover:scale-105 ${
+        isCurrent
+          ? 'bg-white/20 border-white/40 shadow-lg'
+          : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+      }`}
+    >
+      <img
+        src={node.image}
+        alt={node.name}
+        className="w-20 h-20 object-contain drop-shadow-lg transition-transform duration-300 group-hover:scale-105"
+      />
+      <span className="mt-2 text-sm font-semibold text-white capitalize text-center">{node.name.replace(/-/g, ' ')}</span>
+      <span className="text-xs text-white/50 font-mono">#{node.id.toString().padStart(3, '0')}</span>
+      {node.isBaby && (
+        <span className="mt-1 text-[10px] uppercase tracking-wide text-pink-300">{t('detail.baby')}</span>
+      )}
+    </Link>
+  );
+}
+
+function EvolutionArrow({ triggers }: { triggers: EvolutionTrigger[] }) {
+  const { t, typeName } = useLocale();
+
+  const describe = (trigger: EvolutionTrigger) =>
+    trigger.parts
+      .map((part) => t(part.key, part.type ? { ...part.params, type: typeName(part.type) } : part.params))
+      .join(' ');
+
+  return (
+    <div className="flex flex-col items-center gap-1 max-w-[10rem] text-center">
+      {triggers.map((trigger, index) => (
+        <span key={index} className="px-2 py-1 text-xs text-white/80 bg-white/10 rounded-lg border border-white/10">
+          {triggerIcons[trigger.kind]} {describe(trigger)}
+        </span>
+      ))}
+      <span className="text-white/50 text-xl rotate-90 md:rotate-0">→</span>
+    </div>
+  );
+}
+
+function EvolutionBranch({ node, currentId }: { node: EvolutionNode; currentId: number }) {
+  return (
+    <div className="flex flex-col md:flex-row items-center gap-4">
+      <EvolutionStage node={node} isCurrent={node.id === currentId} />
+      {node.evolvesTo.length > 0 && (
+        <div className="flex flex-col gap-4">
+          {node.evolvesTo.map((child) => (
+            <div key={child.id} className="flex flex-col md:flex-row items-center gap-4">
+              <EvolutionArrow triggers={child.triggers} />
+              <EvolutionBranch node={child} currentId={currentId} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function EvolutionTree({ chain, currentId }: EvolutionTreeProps) {
+  const { t } = useLocale();
+
+  if (chain.evolvesTo.length === 0) {
+    return <p className="text-white/60">{t('evolution.none')}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="flex justify-center min-w-max">
+        <EvolutionBranch node={chain} currentId={currentId} />
+      </div>
+    </div>
+  );
+}
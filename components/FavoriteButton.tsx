@@ -0,0 +1,44 @@
+'use client';
+
+import { useFavorites } from '../hooks/useFavorites';
+import { useLocale } from '../hooks/useLocale';
+
+interface FavoriteButtonProps {
+  pokemon: {
+    id: number;
+    name: string;
+    image?: string | null;
+    types?: string[];
+  };
+  compact?: boolean;
+}
+
+export default function FavoriteButton({ pokemon, compact = false }: FavoriteButtonProps) {
+  const { isFavorite, toggle } = useFavorites();
+  const { t } = useLocale();
+  const active = isFavorite(pokemon.id);
+
+  return (
+    <button
+      type="button"
+      onClick={() => toggle({ id: pokemon.id, name: pokemon.name, image: pokemon.image, types: pokemon.types })}
+      aria-pressed={active}
+      aria-label={t(active ? 'favorites.removeLabel' : 'favorites.addLabel', { name: pokemon.name })}
+      title={t(active ? 'favorites.remove' : 'favorites.add')}
+      className={
+        compact
+          ? `px-2 py-1 rounded-md text-xs backdrop-blur-sm transition-all duration-200 ${
+              active ? 'bg-yellow-500/70 text-white' : 'bg-black/20 text-white/60 hover:text-white hover:bg-black/40'
+            }`
+          : `px-4 py-2 text-sm font-semibold rounded-xl border transition-all duration-300 ${
+              active
+                ? 'text-yellow-200 bg-yellow-500/20 border-yellow-500/40 hover:bg-yellow-500/30'
+                : 'text-white bg-white/10 border-white/20 hover:bg-white/20'
+            }`
+      }
+    >
+      {active ? '★' : '☆'}
+      {!compact && ` ${t(active ? 'favorites.favorited' : 'favorites.favorite')}`}
+    </button>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { ChangeEvent, useRef, useState } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import {
+  exportFavorites,
+  FavoriteEntry,
+  FavoritesImportError,
+  ImportMode,
+  importFavorites,
+  parseFavoritesFile,
+} from '../lib/favorites';
+
+interface FavoritesToolbarProps {
+  count: number;
+}
+
+export default function FavoritesToolbar({ count }: FavoritesToolbarProps) {
+  const { t } = useLocale();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<FavoriteEntry[] | null>(null);
+  const [message, setMessage] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([exportFavorites()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pokemon-favorites-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const entries = parseFavoritesFile(await file.text());
+      setMessage(null);
+      // With nothing to merge into, there is no choice to make.
+      if (count === 0) {
+        applyImport(entries, 'replace');
+      } else {
+        setPending(entries);
+      }
+    } catch (err) {
+      if (!(err instanceof FavoritesImportError)) console.error('Error importing favorites:', err);
+      setMessage({
+        kind: 'error',
+        text: err instanceof FavoritesImportError ? t(err.key, err.params) : t('favorites.readFailed'),
+      });
+    }
+  };
+
+  const applyImport = (entries: FavoriteEntry[], mode: ImportMode) => {
+    const result = importFavorites(entries, mode);
+    setPending(null);
+    setMessage({
+      kind: 'success',
+      text:
+        mode === 'merge'
+          ? t('favorites.added', { count: result.added, total: result.total })
+          : t('favorites.imported', { count: result.total }),
+    });
+  };
+
+  const buttonClass =
+    'px-3 py-1.5 text-sm text-white bg-white/10 border border-white/20 rounded-lg hover:bg-white/20 transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={handleExport} disabled={count === 0} className={buttonClass}>
+          ⬇️ {t('favorites.export')}
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          ⬆️ {t('favorites.import')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFile}
+          className="hidden"
+          aria-label={t('favorites.importFile')}
+        />
+      </div>
+
+      {pending && (
+        <div className="flex flex-wrap items-center gap-2 p-3 bg-white/10 rounded-xl border border-white/20 text-sm text-white/80">
+          <span>{t('favorites.importCount', { count: pending.length })}</span>
+          <button onClick={() => applyImport(pending, 'merge')} className={buttonClass}>
+            {t('favorites.merge')}
+          </button>
+          <button onClick={() => applyImport(pending, 'replace')} className={buttonClass}>
+            {t('favorites.replace')}
+          </button>
+          <button onClick={() => setPending(null)} className="text-white/60 hover:text-white">
+            {t('favorites.cancel')}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.kind === 'error' ? 'text-red-300' : 'text-green-300'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useState, KeyboardEvent, FocusEvent } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { PokemonTypes } from '../types/pokemon';
+import {
+  EMPTY_FILTERS,
+  GENERATIONS,
+  RANGE_DEFINITIONS,
+  countActiveFilters,
+  NumericRange,
+  PokemonFilters,
+  RangeDefinition,
+} from '../lib/pokemonFilters';
+
+interface FilterPanelProps {
+  filters: PokemonFilters;
+  onChange: (filters: PokemonFilters) => void;
+}
+
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+export default function FilterPanel({ filters, onChange }: FilterPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { t, typeName } = useLocale();
+  const activeCount = countActiveFilters(filters);
+
+  const commitRange = (definition: RangeDefinition, bound: keyof NumericRange, raw: string) => {
+    const value = raw.trim() === '' ? undefined : Math.round(Number(raw) * definition.scale);
+    if (value !== undefined && !Number.isFinite(value)) return;
+
+    const current = filters.ranges[definition.key] ?? {};
+    if (current[bound] === value) return;
+
+    onChange({
+      ...filters,
+      ranges: { ...filters.ranges, [definition.key]: { ...current, [bound]: value } },
+    });
+  };
+
+  const rangeInput = (definition: RangeDefinition, bound: keyof NumericRange) => {
+    const stored = filters.ranges[definition.key]?.[bound];
+    const shown = stored === undefined ? '' : String(stored / definition.scale);
+
+    return (
+      <input
+        // Remount when the committed value changes so external resets show up.
+        key={`${definition.key}-${bound}-${shown}`}
+        type="number"
+        min={0}
+        step={definition.scale > 1 ? 0.1 : 1}
+        defaultValue={shown}
+        placeholder={t(bound === 'min' ? 'filters.min' : 'filters.max')}
+        aria-label={t(bound === 'min' ? 'filters.minLabel' : 'filters.maxLabel', { label: t(definition.label) })}
+        onBlur={(e: FocusEvent<HTMLInputElement>) => commitRange(definition, bound, e.target.value)}
+        onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
+          if (e.key === 'Enter') commitRange(definition, bound, e.currentTarget.value);
+        }}
+        className="w-full min-w-0 px-2 py-1 text-sm text-white bg-white/10 border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder-white/40"
+      />
+    );
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 md:px-0">
+      <div className="flex items-center justify-between gap-3">
+        <button
+          onClick={() => setIsOpen((open) => !open)}
+          aria-expanded={isOpen}
+          className="flex items-center gap-2 px-4 py-3 sm:py-4 text-sm sm:text-base text-white bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl hover:bg-white/20 transition-all duration-300"
+        >
+          <span>🎛️ {t('filters.title')}</span>
+          {activeCount > 0 && (
+            <span className="px-2 py-0.5 text-xs font-semibold bg-blue-500/60 rounded-full">{activeCount}</span>
+          )}
+          <span className={`transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`}>▾</span>
+        </button>
+        {activeCount > 0 && (
+          <button
+            onClick={() => onChange(EMPTY_FILTERS)}
+            className="text-sm text-white/60 hover:text-white transition-colors"
+          >
+            {t('filters.reset')}
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5 bg-white/5 backdrop-blur-md rounded-2xl border border-white/10 p-4">
+          {/* Types */}
+          <div>
+            <h3 className="text-sm font-semibold text-white/80 mb-2">{t('filters.types')}</h3>
+            <div className="flex flex-wrap gap-2">
+              {Object.keys(PokemonTypes).map((type) => {
+                const selected = filters.types.includes(type);
+                return (
+                  <button
+                    key={type}
+                    onClick={() => onChange({ ...filters, types: toggleValue(filters.types, type) })}
+                    aria-pressed={selected}
+                    className={`px-3 py-1 rounded-lg text-xs font-medium capitalize transition-all duration-200 ${
+                      selected
+                        ? `bg-gradient-to-r ${PokemonTypes[type]} text-white shadow-md`
+                        : 'bg-white/10 text-white/70 hover:bg-white/20'
+                    }`}
+                  >
+                    {typeName(type)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Generations */}
+          <div>
+            <h3 className="text-sm font-semibold text-white/80 mb-2">{t('detail.generation')}</h3>
+            <div className="flex flex-wrap gap-2">
+              {GENERATIONS.map((generation) => {
+                const selected = filters.generations.includes(generation);
+                return (
+                  <button
+                    key={generation}
+                    onClick={() =>
+                      onChange({ ...filters, generations: toggleValue(filters.generations, generation) })
+                    }
+                    aria-pressed={selected}
+                    className={`w-9 h-8 rounded-lg text-xs font-medium transition-all duration-200 ${
+                      selected
+                        ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow-md'
+                        : 'bg-white/10 text-white/70 hover:bg-white/20'
+                    }`}
+                  >
+                    {generation}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Ranges */}
+          <div>
+            <h3 className="text-sm font-semibold text-white/80 mb-2">{t('filters.ranges')}</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+              {RANGE_DEFINITIONS.map((definition) => (
+                <div key={definition.key} className="flex items-center gap-2">
+                  <span className="w-32 shrink-0 text-xs text-white/70">
+                    {t(definition.label)}
+                    {definition.unit && ` (${definition.unit})`}
+                  </span>
+                  {rangeInput(definition, 'min')}
+                  <span className="text-white/40">–</span>
+                  {rangeInput(definition, 'max')}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import Link from 'next/link';
+import AddToTeamButton from './AddToTeamButton';
+import FavoriteButton from './FavoriteButton';
+import MoveTable from './MoveTable';
+import SpriteGallery from './SpriteGallery';
+import TypeEffectiveness from './TypeEffectiveness';
+import { useCurrentForm } from './PokemonForms';
+import { useLocale } from '../hooks/useLocale';
+import type { LocalizedNames } from '../lib/i18n';
+import { STAT_NAMES, StatName } from '../types/pokemon';
+
+// Detail page sections that differ between the forms of a species; each one
+// shows the form picked in the `FormSwitcher`.
+
+const getTypeGradient = (type: string) => {
+  const gradients = {
+    fire: 'from-red-500 to-orange-500',
+    water: 'from-blue-500 to-cyan-500',
+    grass: 'from-green-500 to-emerald-500',
+    electric: 'from-yellow-400 to-yellow-600',
+    psychic: 'from-pink-500 to-purple-500',
+    ice: 'from-cyan-400 to-blue-400',
+    dragon: 'from-purple-600 to-indigo-600',
+    dark: 'from-gray-800 to-black',
+    fairy: 'from-pink-400 to-rose-400',
+    fighting: 'from-red-600 to-red-800',
+    poison: 'from-purple-500 to-violet-600',
+    ground: 'from-yellow-600 to-orange-600',
+    flying: 'from-blue-400 to-purple-400',
+    bug: 'from-green-400 to-lime-500',
+    rock: 'from-yellow-800 to-orange-800',
+    ghost: 'from-purple-600 to-gray-600',
+    steel: 'from-gray-500 to-gray-600',
+    normal: 'from-gray-400 to-gray-500',
+  };
+  return gradients[type as keyof typeof gradients] || 'from-gray-400 to-gray-500';
+};
+
+const getStatColor = (statName: string) => {
+  const colors = {
+    hp: 'bg-gradient-to-r from-red-500 to-red-600',
+    attack: 'bg-gradient-to-r from-orange-500 to-orange-600',
+    defense: 'bg-gradient-to-r from-blue-500 to-blue-600',
+    'special-attack': 'bg-gradient-to-r from-purple-500 to-purple-600',
+    'special-defense': 'bg-gradient-to-r from-green-500 to-green-600',
+    speed: 'bg-gradient-to-r from-yellow-500 to-yellow-600',
+  };
+  return colors[statName as keyof typeof colors] || 'bg-gradient-to-r from-gray-500 to-gray-600';
+};
+
+export function FormArtwork() {
+  const { pokemon } = useCurrentForm().current;
+
+  return pokemon.image ? (
+    <img
+      src={pokemon.image}
+      alt={pokemon.name}
+      className="w-48 h-48 object-contain drop-shadow-2xl"
+    />
+  ) : (
+    <div className="w-48 h-48 flex items-center justify-center text-white/40 text-6xl">⚪</div>
+  );
+}
+
+export function FormTypes() {
+  const { pokemon } = useCurrentForm().current;
+  const { typeName } = useLocale();
+
+  return (
+    <div className="flex gap-3 justify-center md:justify-start mb-6">
+      {pokemon.types.map((type) => (
+        <div
+          key={type}
+          className={`px-4 py-2 rounded-xl text-white font-semibold text-sm bg-gradient-to-r ${getTypeGradient(type)} shadow-lg hover:shadow-xl hover:scale-105 transition-all duration-300`}
+        >
+          {typeName(type)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function FormMeasurements() {
+  const { pokemon } = useCurrentForm().current;
+  const { t } = useLocale();
+
+  return (
+    <div className="grid grid-cols-2 gap-6 max-w-xs mx-auto md:mx-0">
+      <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+        <div className="text-white/70 text-sm">{t('detail.height')}</div>
+        <div className="text-2xl font-bold text-white">{pokemon.height / 10}m</div>
+      </div>
+      <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+        <div className="text-white/70 text-sm">{t('detail.weight')}</div>
+        <div className="text-2xl font-bold text-white">{pokemon.weight / 10}kg</div>
+      </div>
+    </div>
+  );
+}
+
+export function FormActions() {
+  const { pokemon } = useCurrentForm().current;
+
+  return (
+    <div className="flex gap-3 justify-center md:justify-start mt-6">
+      <FavoriteButton pokemon={pokemon} />
+      <AddToTeamButton id={pokemon.id} name={pokemon.name} />
+    </div>
+  );
+}
+
+export function FormAbilities({ abilityNames }: { abilityNames: Record<string, LocalizedNames> }) {
+  const { pokemon } = useCurrentForm().current;
+  const { t, name } = useLocale();
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      {pokemon.abilities.map((ability) => (
+        <Link
+          key={ability.name}
+          href={`/ability/${ability.name}`}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-green-500/20 backdrop-blur-sm text-green-400 rounded-xl border border-green-500/30 hover:bg-green-500/30 transition-colors duration-300"
+        >
+          {name(abilityNames[ability.name], ability.name)}
+          {ability.isHidden && (
+            <span className="px-2 py-0.5 text-[10px] font-semibold uppercase text-green-200 bg-green-500/30 rounded-full">
+              {t('ability.hidden')}
+            </span>
+          )}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+export function FormTypeEffectiveness() {
+  const { pokemon } = useCurrentForm().current;
+  return <TypeEffectiveness types={pokemon.types} />;
+}
+
+export function FormStats() {
+  const { pokemon } = useCurrentForm().current;
+  const { t } = useLocale();
+  const statLabel = (stat: string) =>
+    (STAT_NAMES as readonly string[]).includes(stat) ? t(`stat.${stat as StatName}`) : stat.replace('-', ' ');
+
+  return (
+    <div className="grid gap-4">
+      {pokemon.stats.map((stat) => (
+        <div key={stat.name} className="space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-white/80 capitalize font-medium">{statLabel(stat.name)}</span>
+            <span className="text-white font-bold text-lg">{stat.value}</span>
+          </div>
+          <div className="relative h-3 bg-white/10 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${getStatColor(stat.name)} transition-all duration-1000 ease-out shadow-lg`}
+              style={{ width: `${Math.min((stat.value / 150) * 100, 100)}%` }}
+            >
+              <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/30 to-transparent animate-pulse"></div>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function FormSprites({ names }: { names?: LocalizedNames }) {
+  const { current } = useCurrentForm();
+  // Species names only fit the default form; other forms keep their own name.
+  return (
+    <SpriteGallery
+      name={current.pokemon.name}
+      names={current.isDefault ? names : undefined}
+      sprites={current.pokemon.sprites}
+    />
+  );
+}
+
+export function FormMoves() {
+  const { pokemon } = useCurrentForm().current;
+  return <MoveTable pokemonId={pokemon.id} />;
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { ChangeEvent, useEffect } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { LOCALES, LOCALE_LABELS, Locale } from '../lib/i18n';
+
+export default function LocaleSwitcher() {
+  const { locale, setLocale, t } = useLocale();
+
+  // The root layout is rendered in English; keep <html lang> in step so
+  // screen readers and hyphenation follow the chosen language.
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const handleChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocale(e.target.value as Locale);
+  };
+
+  return (
+    <select
+      value={locale}
+      onChange={handleChange}
+      aria-label={t('nav.language')}
+      className="px-3 py-2 text-sm font-medium text-white/80 bg-white/10 rounded-xl border border-white/20 hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all duration-300"
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option} lang={option} className="bg-indigo-900">
+          {LOCALE_LABELS[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useLocale } from '../hooks/useLocale';
+import type { LocalizedNames, MessageParams } from '../lib/i18n';
+import type { MessageKey } from '../lib/messages';
+
+// Lets server-rendered pages show text in the visitor's language: the server
+// renders English and the client switches once the stored locale is known.
+
+export function Message({ id, params }: { id: MessageKey; params?: MessageParams }) {
+  const { t } = useLocale();
+  return <>{t(id, params)}</>;
+}
+
+export function LocalizedName({ names, slug }: { names?: LocalizedNames; slug: string }) {
+  const { name } = useLocale();
+  return <>{name(names, slug)}</>;
+}
+
+export function LocalizedType({ type }: { type: string }) {
+  const { typeName } = useLocale();
+  return <>{typeName(type)}</>;
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { getPokemonMoves, MovesResponse } from '../lib/explorerApi';
+import { describeError } from '../lib/errors';
+import type { MessageKey } from '../lib/messages';
+import { PokemonTypes } from '../types/pokemon';
+import { LEARN_METHODS, LearnedMove } from '../types/move';
+
+interface MoveTableProps {
+  pokemonId: number;
+}
+
+type MoveSortKey = 'level' | 'name' | 'type' | 'damageClass' | 'power' | 'accuracy' | 'pp';
+
+const COLUMNS: Array<{ key: MoveSortKey; label: MessageKey; numeric?: boolean }> = [
+  { key: 'level', label: 'moves.level', numeric: true },
+  { key: 'name', label: 'moves.move' },
+  { key: 'type', label: 'moves.type' },
+  { key: 'damageClass', label: 'moves.category' },
+  { key: 'power', label: 'moves.power', numeric: true },
+  { key: 'accuracy', label: 'moves.accuracy', numeric: true },
+  { key: 'pp', label: 'moves.pp', numeric: true },
+];
+
+const damageClassStyles: Record<string, string> = {
+  physical: 'bg-orange-500/20 text-orange-300 border-orange-500/30',
+  special: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  status: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+};
+
+const damageClassLabels: Record<string, MessageKey> = {
+  physical: 'moves.physical',
+  special: 'moves.special',
+  status: 'moves.status',
+};
+
+const sortValue = (move: LearnedMove, key: MoveSortKey): number | string | null => {
+  if (key === 'level') return move.level;
+  if (key === 'name') return move.name;
+  return move.details?.[key] ?? null;
+};
+
+// Missing values (status moves have no power, some moves never miss) sort
+// last; ties fall back to the move name.
+const compareMoves = (key: MoveSortKey, order: 'asc' | 'desc') => (a: LearnedMove, b: LearnedMove): number => {
+  const aValue = sortValue(a, key);
+  const bValue = sortValue(b, key);
+
+  if (aValue === null || bValue === null) {
+    if (aValue === bValue) return a.name.localeCompare(b.name);
+    return aValue === null ? 1 : -1;
+  }
+
+  const direction = order === 'asc' ? 1 : -1;
+  const result = typeof aValue === 'string'
+    ? aValue.localeCompare(bValue as string)
+    : aValue - (bValue as number);
+
+  return result * direction || a.name.localeCompare(b.name);
+};
+
+const formatName = (name: string) => name.replace(/-/g, ' ');
+
+export default function MoveTable({ pokemonId }: MoveTableProps) {
+  const [data, setData] = useState<MovesResponse | null>(null);
+  const [versionGroup, setVersionGroup] = useState<string | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<MoveSortKey>('level');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const { t, typeName, name: localizedName } = useLocale();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    getPokemonMoves(pokemonId, versionGroup, controller.signal)
+      .then((response) => {
+        if (!controller.signal.aborted) setData(response);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading moves:', err);
+        setError(err);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [pokemonId, versionGroup]);
+
+  const groups = useMemo(() => {
+    const term = query.trim().toLowerCase().replace(/\s+/g, '-');
+    const moves = (data?.moves ?? []).filter(
+      (move) =>
+        !term ||
+        move.name.includes(term) ||
+        move.details?.type.includes(term) ||
+        (move.details && typeName(move.details.type).toLowerCase().includes(query.trim().toLowerCase())) ||
+        localizedName(move.details?.names, move.name).toLowerCase().includes(query.trim().toLowerCase())
+    );
+
+    return LEARN_METHODS.map(({ method, label }) => ({
+      method,
+      label,
+      moves: moves.filter((move) => move.method === method).sort(compareMoves(sortKey, sortOrder)),
+    })).filter((group) => group.moves.length > 0);
+  }, [data, query, sortKey, sortOrder, localizedName, typeName]);
+
+  const toggleSort = (key: MoveSortKey) => {
+    if (key === sortKey) {
+      setSortOrder((order) => (order === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      setSortOrder('asc');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('moves.search')}
+          aria-label={t('moves.searchLabel')}
+          className="flex-1 px-4 py-2 text-sm text-white bg-white/10 border border-white/20 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder-white/40"
+        />
+        {data && data.versionGroups.length > 0 && (
+          <select
+            value={data.versionGroup ?? ''}
+            onChange={(e) => setVersionGroup(e.target.value)}
+            aria-label={t('moves.version')}
+            className="px-4 py-2 text-sm text-white bg-white/10 border border-white/20 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/50 capitalize"
+          >
+            {data.versionGroups.map((group) => (
+              <option key={group} value={group} className="bg-slate-800 capitalize">
+                {formatName(group)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error != null && <p className="text-red-300 text-sm">{describeError(error, t('moves.loadFailed'))}</p>}
+      {loading && !data && <p className="text-white/60 text-sm">{t('moves.loading')}</p>}
+      {data && !loading && groups.length === 0 && (
+        <p className="text-white/60 text-sm">{query ? t('moves.noMatch', { query }) : t('moves.noneInGame')}</p>
+      )}
+
+      <div className={`space-y-6 transition-opacity duration-300 ${loading ? 'opacity-50' : ''}`}>
+        {groups.map((group) => (
+          <div key={group.method} className="space-y-2">
+            <h3 className="text-sm font-semibold text-white/80">
+              {t(group.label)} <span className="text-white/40">({group.moves.length})</span>
+            </h3>
+            <div className="overflow-x-auto bg-white/5 rounded-2xl border border-white/10">
+              <table className="w-full text-sm text-white/90">
+                <thead>
+                  <tr className="border-b border-white/10 text-white/60">
+                    {COLUMNS.filter((column) => column.key !== 'level' || group.method === 'level-up').map(
+                      (column) => (
+                        <th
+                          key={column.key}
+                          scope="col"
+                          aria-sort={
+                            sortKey === column.key ? (sortOrder === 'asc' ? 'ascending' : 'descending') : undefined
+                          }
+                          className={`px-3 py-2 font-medium ${column.numeric ? 'text-right' : 'text-left'}`}
+                        >
+                          <button onClick={() => toggleSort(column.key)} className="hover:text-white transition-colors">
+                            {t(column.label)}
+                            {sortKey === column.key && (sortOrder === 'asc' ? ' ▲' : ' ▼')}
+                          </button>
+                        </th>
+                      )
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.moves.map((move) => (
+                    <tr
+                      key={`${move.name}-${move.level}`}
+                      title={move.details?.effect ?? undefined}
+                      className="border-b border-white/5 last:border-0 hover:bg-white/10 transition-colors"
+                    >
+                      {group.method === 'level-up' && (
+                        <td className="px-3 py-2 text-right font-mono">{move.level || t('moves.evolution')}</td>
+                      )}
+                      <td className="px-3 py-2 font-medium">{localizedName(move.details?.names, move.name)}</td>
+                      <td className="px-3 py-2">
+                        {move.details ? (
+                          <span
+                            className={`px-2 py-0.5 rounded-md text-xs capitalize text-white bg-gradient-to-r ${
+                              PokemonTypes[move.details.type] || 'from-gray-400 to-gray-600'
+                            }`}
+                          >
+                            {typeName(move.details.type)}
+                          </span>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        {move.details?.damageClass ? (
+                          <span
+                            className={`px-2 py-0.5 rounded-md text-xs capitalize border ${
+                              damageClassStyles[move.details.damageClass]
+                            }`}
+                          >
+                            {damageClassLabels[move.details.damageClass]
+                              ? t(damageClassLabels[move.details.damageClass])
+                              : move.details.damageClass}
+                          </span>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono">{move.details?.power ?? '—'}</td>
+                      <td className="px-3 py-2 text-right font-mono">
+                        {move.details?.accuracy != null ? `${move.details.accuracy}%` : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono">{move.details?.pp ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import PokemonCard from './PokemonCard';
+
+const pikachu = {
+  id: 25,
+  name: 'pikachu',
+  image: 'https://example.com/25.png',
+  types: ['electric'],
+};
+
+describe('PokemonCard', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('links to the detail page with a padded Pokédex number', () => {
+    render(<PokemonCard pokemon={pikachu} />);
+
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/pokemon/25');
+    expect(screen.getByText('#025')).toBeInTheDocument();
+    expect(screen.getByText('Electric')).toBeInTheDocument();
+    expect(screen.getByAltText('Pikachu')).toHaveAttribute('src', pikachu.image);
+  });
+
+  it('takes the id from the resource URL when there is one', () => {
+    render(<PokemonCard pokemon={{ name: 'bulbasaur', url: 'https://pokeapi.co/api/v2/pokemon/1/' }} />);
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/pokemon/1');
+  });
+
+  it('shows a placeholder without an image', () => {
+    render(<PokemonCard pokemon={{ ...pikachu, image: null }} />);
+
+    expect(screen.queryByAltText('Pikachu')).not.toBeInTheDocument();
+    expect(screen.getByText('⚪')).toBeInTheDocument();
+  });
+
+  it('highlights the matched part of the name', () => {
+    render(<PokemonCard pokemon={{ ...pikachu, highlights: [[0, 4]] }} />);
+    expect(screen.getByText('Pika').tagName).toBe('MARK');
+  });
+
+  it('shows the name in the chosen language', () => {
+    window.localStorage.setItem('pokemon-explorer.locale', 'ja');
+    render(
+      <PokemonCard
+        pokemon={{ ...pikachu, names: { en: 'Pikachu', 'ja-Hrkt': 'ピカチュウ' }, matchedName: 'Pikachu', highlights: [[0, 4]] }}
+      />
+    );
+
+    expect(screen.getByRole('heading')).toHaveTextContent('ピカチュウ');
+    // The match was on the English name, which is not shown.
+    expect(screen.queryByRole('mark')).not.toBeInTheDocument();
+  });
+
+  it('toggles the favorite from the card', async () => {
+    render(<PokemonCard pokemon={pikachu} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Add pikachu to favorites' }));
+
+    expect(screen.getByRole('button', { name: 'Remove pikachu from favorites' })).toHaveAttribute('aria-pressed', 'true');
+  });
+});
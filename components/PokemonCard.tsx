@@ -3,19 +3,78 @@
 import Link from 'next/link';
 import { useState } from 'react';
 import { PokemonTypes } from '../types/pokemon';
+import { useCompareSelection } from '../hooks/useCompareSelection';
+import { useLocale } from '../hooks/useLocale';
+import { formatSlug, type LocalizedNames } from '../lib/i18n';
+import { MAX_COMPARE } from '../lib/compareSelection';
+import AddToTeamButton from './AddToTeamButton';
+import FavoriteButton from './FavoriteButton';
 
 interface PokemonCardProps {
   pokemon: {
     id?: number;
+    /** Pokédex number of the species, for alternate forms. */
+    speciesId?: number;
     name: string;
     image?: string | null;
     types?: string[];
     url?: string;
+    names?: LocalizedNames;
+    /** Name the highlights belong to; the formatted slug when not set. */
+    matchedName?: string;
+    highlights?: Array<[number, number]>;
   };
 }
 
+function HighlightedName({ name, highlights }: { name: string; highlights?: Array<[number, number]> }) {
+  if (!highlights?.length) return <>{name}</>;
+
+  const parts = [];
+  let cursor = 0;
+  for (const [start, end] of highlights) {
+    if (start > cursor) parts.push(<span key={cursor}>{name.slice(cursor, start)}</span>);
+    parts.push(
+      <mark key={start} className="bg-yellow-400/30 text-yellow-200 rounded-sm">
+        {name.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < name.length) parts.push(<span key={cursor}>{name.slice(cursor)}</span>);
+
+  return <>{parts}</>;
+}
+
+function CompareToggle({ id, name }: { id: number; name: string }) {
+  const { ids, toggle } = useCompareSelection();
+  const selected = ids.includes(id);
+  const full = !selected && ids.length >= MAX_COMPARE;
+
+  return (
+    <button
+      type="button"
+      onClick={() => toggle(id)}
+      disabled={full}
+      aria-pressed={selected}
+      aria-label={selected ? `Remove ${name} from comparison` : `Add ${name} to comparison`}
+      title={full ? `You can compare up to ${MAX_COMPARE} Pokémon` : 'Compare'}
+      className={`px-2 py-1 rounded-md text-xs font-medium backdrop-blur-sm transition-all duration-200 ${
+        selected
+          ? 'bg-blue-500/70 text-white'
+          : 'bg-black/20 text-white/60 hover:text-white hover:bg-black/40 disabled:opacity-40 disabled:cursor-not-allowed'
+      }`}
+    >
+      {selected ? '✓ ⚖️' : '⚖️'}
+    </button>
+  );
+}
+
 export default function PokemonCard({ pokemon }: PokemonCardProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const { name, typeName } = useLocale();
+  const displayName = name(pokemon.names, pokemon.name);
+  // A match on another language's name has nothing to highlight here.
+  const highlights = (pokemon.matchedName ?? formatSlug(pokemon.name)) === displayName ? pokemon.highlights : undefined;
 
   const pokemonId =
     pokemon.url?.split('/')[6] || pokemon.id?.toString() || '000';
@@ -50,73 +109,85 @@ export default function PokemonCard({ pokemon }: PokemonCardProps) {
   };
 
   return (
-    <Link href={`/pokemon/${pokemonId}`} onClick={handleClick}>
-      <div className="group relative w-full max-w-xs mx-auto bg-white/5 backdrop-blur-md rounded-xl border border-white/10 hover:border-white/20 transition-all duration-300 transform hover:scale-[1.02] cursor-pointer overflow-hidden shadow-md hover:shadow-lg">
-        {/* Accent Line */}
-        <div className={`absolute top-0 left-0 right-0 h-0.5 ${accentColor} opacity-60`} />
-
-        <div className="relative px-4 py-6 sm:px-5 sm:py-6">
-          <div className="flex flex-col items-center">
-            {/* ID Badge */}
-            <div className="absolute top-3 right-3 bg-black/20 backdrop-blur-sm rounded-md px-2 py-1">
-              <span className="text-xs font-medium text-white/70">
-                #{pokemonId.toString().padStart(3, '0')}
-              </span>
-            </div>
+    <div className="relative w-full max-w-xs mx-auto">
+      <Link href={`/pokemon/${pokemonId}`} onClick={handleClick}>
+        <div className="group relative w-full max-w-xs mx-auto bg-white/5 backdrop-blur-md rounded-xl border border-white/10 hover:border-white/20 transition-all duration-300 transform hover:scale-[1.02] cursor-pointer overflow-hidden shadow-md hover:shadow-lg">
+          {/* Accent Line */}
+          <div className={`absolute top-0 left-0 right-0 h-0.5 ${accentColor} opacity-60`} />
 
-            {/* Image Container */}
-            <div className="relative mb-4">
-              <div className="w-24 sm:w-28 h-24 sm:h-28 bg-white/5 backdrop-blur-sm rounded-full border border-white/10 flex items-center justify-center transition-all duration-300 group-hover:bg-white/10">
-                {pokemon.image ? (
-                  <img
-                    src={pokemon.image}
-                    alt={pokemon.name}
-                    className="w-20 sm:w-24 h-20 sm:h-24 object-contain drop-shadow-sm transition-all duration-300 group-hover:scale-105"
-                  />
-                ) : (
-                  <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center">
-                    <div className="text-white/40 text-2xl">⚪</div>
-                  </div>
-                )}
-                {isLoading && (
-                  <div className="absolute inset-0 bg-black/50 backdrop-blur-sm rounded-full flex items-center justify-center">
-                    <div className="w-6 h-6 sm:w-8 sm:h-8 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                  </div>
-                )}
+          <div className="relative px-4 py-6 sm:px-5 sm:py-6">
+            <div className="flex flex-col items-center">
+              {/* ID Badge */}
+              <div className="absolute top-3 right-3 bg-black/20 backdrop-blur-sm rounded-md px-2 py-1">
+                <span className="text-xs font-medium text-white/70">
+                  #{(pokemon.speciesId ?? pokemonId).toString().padStart(3, '0')}
+                </span>
               </div>
-            </div>
 
-            {/* Pokemon Name */}
-            <h3 className="text-sm sm:text-base font-semibold text-white capitalize mb-2 text-center">
-              {pokemon.name}
-            </h3>
-
-            {/* Type Badges */}
-            {pokemon.types && (
-              <div className="flex gap-1.5 flex-wrap justify-center">
-                {pokemon.types.map((type) => (
-                  <div
-                    key={type}
-                    className={`px-2 py-1 rounded-md text-xs font-medium text-white ${
-                      typeColors[type] || typeColors.normal
-                    } shadow-sm opacity-80 hover:opacity-100 transition-opacity duration-200`}
-                  >
-                    {type.charAt(0).toUpperCase() + type.slice(1)}
-                  </div>
-                ))}
+              {/* Image Container */}
+              <div className="relative mb-4">
+                <div className="w-24 sm:w-28 h-24 sm:h-28 bg-white/5 backdrop-blur-sm rounded-full border border-white/10 flex items-center justify-center transition-all duration-300 group-hover:bg-white/10">
+                  {pokemon.image ? (
+                    <img
+                      src={pokemon.image}
+                      alt={displayName}
+                      className="w-20 sm:w-24 h-20 sm:h-24 object-contain drop-shadow-sm transition-all duration-300 group-hover:scale-105"
+                    />
+                  ) : (
+                    <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center">
+                      <div className="text-white/40 text-2xl">⚪</div>
+                    </div>
+                  )}
+                  {isLoading && (
+                    <div className="absolute inset-0 bg-black/50 backdrop-blur-sm rounded-full flex items-center justify-center">
+                      <div className="w-6 h-6 sm:w-8 sm:h-8 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                    </div>
+                  )}
+                </div>
               </div>
-            )}
 
-            {/* Hover overlay */}
-            <div className="absolute inset-0 bg-gradient-to-t from-black/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-lg" />
+              {/* Pokemon Name */}
+              <h3 className="text-sm sm:text-base font-semibold text-white mb-2 text-center">
+                <HighlightedName name={displayName} highlights={highlights} />
+              </h3>
+
+              {/* Type Badges */}
+              {pokemon.types && (
+                <div className="flex gap-1.5 flex-wrap justify-center">
+                  {pokemon.types.map((type) => (
+                    <div
+                      key={type}
+                      className={`px-2 py-1 rounded-md text-xs font-medium text-white ${
+                        typeColors[type] || typeColors.normal
+                      } shadow-sm opacity-80 hover:opacity-100 transition-opacity duration-200`}
+                    >
+                      {typeName(type)}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Hover overlay */}
+              <div className="absolute inset-0 bg-gradient-to-t from-black/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-lg" />
+            </div>
           </div>
-        </div>
 
-        {/* Shimmer on Hover */}
-        <div className="absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-500">
-          <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent transform -translate-x-full group-hover:translate-x-full transition-transform duration-700" />
+          {/* Shimmer on Hover */}
+          <div className="absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-500">
+            <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent transform -translate-x-full group-hover:translate-x-full transition-transform duration-700" />
+          </div>
+        </div>
+      </Link>
+      {Number(pokemonId) > 0 && (
+        <div className="absolute top-3 left-3 z-10 flex gap-1">
+          <CompareToggle id={Number(pokemonId)} name={pokemon.name} />
+          <AddToTeamButton id={Number(pokemonId)} name={pokemon.name} compact />
+          <FavoriteButton
+            pokemon={{ id: Number(pokemonId), name: pokemon.name, image: pokemon.image, types: pokemon.types }}
+            compact
+          />
         </div>
-      </div>
-    </Link>
+      )}
+    </div>
   );
 }
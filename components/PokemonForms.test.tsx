@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import FormSwitcher, { FormName, PokemonFormProvider } from './PokemonForms';
+import { FormAbilities, FormTypes } from './FormSections';
+import { formatPokemonData, PokemonForm, RawPokemon } from '../types/pokemon';
+import { loadFixture } from '../test/pokeApiMock';
+
+const form = (id: number, isDefault: boolean): PokemonForm => ({
+  pokemon: formatPokemonData(loadFixture<RawPokemon>(`pokemon/${id}.json`)),
+  isDefault,
+});
+
+const forms = [form(6, true), form(10034, false), form(10196, false)];
+
+const renderForms = (initialId = 6) =>
+  render(
+    <PokemonFormProvider forms={forms} initialId={initialId}>
+      <FormName speciesName="charizard" />
+      <FormSwitcher speciesName="charizard" />
+      <FormTypes />
+      <FormAbilities abilityNames={{}} />
+    </PokemonFormProvider>
+  );
+
+describe('FormSwitcher', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/pokemon/6');
+  });
+
+  it('labels each form by what sets it apart', () => {
+    renderForms();
+
+    expect(screen.getByRole('button', { name: 'Standard' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Mega X' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Gigantamax' })).toBeInTheDocument();
+  });
+
+  it('swaps the form in place and keeps the URL in step', async () => {
+    renderForms();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Mega X' }));
+
+    expect(screen.getByText('Dragon')).toBeInTheDocument();
+    expect(screen.getByText('Tough Claws')).toBeInTheDocument();
+    expect(screen.queryByText('Blaze')).not.toBeInTheDocument();
+    expect(window.location.pathname).toBe('/pokemon/10034');
+  });
+
+  it('starts on the form the page was opened for', () => {
+    renderForms(10196);
+
+    expect(screen.getByRole('button', { name: 'Gigantamax' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getAllByText('Gigantamax')).toHaveLength(2);
+  });
+
+  it('links each ability to its page and marks hidden ones', () => {
+    renderForms();
+
+    expect(screen.getByRole('link', { name: 'Blaze' })).toHaveAttribute('href', '/ability/blaze');
+    expect(screen.getByRole('link', { name: 'Solar Power Hidden' })).toHaveAttribute('href', '/ability/solar-power');
+  });
+
+  it('renders nothing for a species with one form', () => {
+    render(
+      <PokemonFormProvider forms={[forms[0]]} initialId={6}>
+        <FormSwitcher speciesName="charizard" />
+      </PokemonFormProvider>
+    );
+    expect(screen.queryByRole('group')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,114 @@
+'use client';
+
+import { createContext, ReactNode, useCallback, useContext, useMemo, useState } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { formatSlug } from '../lib/i18n';
+import type { MessageKey } from '../lib/messages';
+import { formSuffix, PokemonForm } from '../types/pokemon';
+
+// The forms of one species share a detail page: the switcher swaps the form
+// in place and the sections that differ between forms read it from context.
+
+interface PokemonFormContextValue {
+  forms: PokemonForm[];
+  current: PokemonForm;
+  select: (id: number) => void;
+}
+
+const PokemonFormContext = createContext<PokemonFormContextValue | null>(null);
+
+const FORM_LABELS: Record<string, MessageKey> = {
+  gmax: 'forms.gmax',
+  alola: 'forms.alola',
+  galar: 'forms.galar',
+  hisui: 'forms.hisui',
+  paldea: 'forms.paldea',
+};
+
+interface PokemonFormProviderProps {
+  forms: PokemonForm[];
+  initialId: number;
+  children: ReactNode;
+}
+
+export function PokemonFormProvider({ forms, initialId, children }: PokemonFormProviderProps) {
+  const [currentId, setCurrentId] = useState(initialId);
+  const current = forms.find((form) => form.pokemon.id === currentId) ?? forms[0];
+
+  // Each form also has its own page; the URL follows the switcher so a
+  // shared link opens the same form, without a round trip to the server.
+  const select = useCallback((id: number) => {
+    setCurrentId(id);
+    window.history.replaceState(null, '', `/pokemon/${id}`);
+  }, []);
+
+  const value = useMemo(() => ({ forms, current, select }), [forms, current, select]);
+
+  return <PokemonFormContext.Provider value={value}>{children}</PokemonFormContext.Provider>;
+}
+
+export const useCurrentForm = (): PokemonFormContextValue => {
+  const value = useContext(PokemonFormContext);
+  if (!value) throw new Error('useCurrentForm must be used inside a PokemonFormProvider');
+  return value;
+};
+
+const useFormLabel = (speciesName: string) => {
+  const { t } = useLocale();
+  return useCallback(
+    (form: PokemonForm) => {
+      if (form.isDefault) return t('forms.default');
+      const suffix = formSuffix(form.pokemon.name, speciesName);
+      return FORM_LABELS[suffix] ? t(FORM_LABELS[suffix]) : formatSlug(suffix);
+    },
+    [t, speciesName]
+  );
+};
+
+/** Label of the selected form under the page title; nothing for the default form. */
+export function FormName({ speciesName }: { speciesName: string }) {
+  const { current } = useCurrentForm();
+  const label = useFormLabel(speciesName);
+  if (current.isDefault) return null;
+
+  return (
+    <span className="px-3 py-1 text-sm font-semibold text-purple-200 bg-purple-500/20 border border-purple-500/30 rounded-full">
+      {label(current)}
+    </span>
+  );
+}
+
+export default function FormSwitcher({ speciesName }: { speciesName: string }) {
+  const { forms, current, select } = useCurrentForm();
+  const { t } = useLocale();
+  const label = useFormLabel(speciesName);
+  if (forms.length < 2) return null;
+
+  return (
+    <div role="group" aria-label={t('forms.label')} className="flex flex-wrap gap-2 justify-center md:justify-start mb-6">
+      {forms.map((form) => {
+        const active = form === current;
+        return (
+          <button
+            key={form.pokemon.id}
+            type="button"
+            aria-pressed={active}
+            onClick={() => select(form.pokemon.id)}
+            className={`flex items-center gap-2 pl-1 pr-3 py-1 rounded-xl text-sm font-medium border transition-all duration-300 ${
+              active
+                ? 'bg-white/30 text-white border-white/40 shadow-lg'
+                : 'bg-white/10 text-white/70 border-white/20 hover:bg-white/20 hover:text-white'
+            }`}
+          >
+            {form.pokemon.sprites.game.front ? (
+              <img src={form.pokemon.sprites.game.front} alt="" className="w-8 h-8 object-contain [image-rendering:pixelated]" />
+            ) : (
+              <span className="w-8 h-8" />
+            )}
+            {label(form)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
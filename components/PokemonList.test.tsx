@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import PokemonList from './PokemonList';
+import { DisplayPokemon } from '../types/pokemon';
+
+const pokemon = (id: number, name: string): DisplayPokemon => ({
+  id,
+  name,
+  image: null,
+  types: ['normal'],
+  height: 0,
+  weight: 0,
+  abilities: [],
+  stats: [],
+  moves: [],
+});
+
+const list = [pokemon(1, 'bulbasaur'), pokemon(4, 'charmander'), pokemon(7, 'squirtle')];
+
+describe('PokemonList', () => {
+  it('renders a card for each Pokémon', () => {
+    render(<PokemonList pokemonList={list} loading={false} />);
+
+    expect(screen.getAllByRole('link').map(link => link.getAttribute('href'))).toEqual([
+      '/pokemon/1',
+      '/pokemon/4',
+      '/pokemon/7',
+    ]);
+  });
+
+  it('shows a spinner instead of cards while loading', () => {
+    render(<PokemonList pokemonList={list} loading />);
+    expect(screen.queryAllByRole('link')).toHaveLength(0);
+  });
+
+  it('shows an empty state without results', () => {
+    render(<PokemonList pokemonList={[]} loading={false} />);
+    expect(screen.getByText('No Pokémon found')).toBeInTheDocument();
+  });
+
+  it('attaches lastElementRef to the last card only', () => {
+    const lastElementRef = vi.fn();
+    render(<PokemonList pokemonList={list} loading={false} lastElementRef={lastElementRef} />);
+
+    const attached = lastElementRef.mock.calls.map(([node]) => node).filter(Boolean);
+    expect(attached).toHaveLength(1);
+    expect(attached[0]).toHaveTextContent('Squirtle');
+  });
+});
@@ -1,12 +1,18 @@
 'use client';
 
+import { useRef } from 'react';
 import PokemonCard from './PokemonCard';
+import { useLocale } from '../hooks/useLocale';
+import { useVirtualGrid } from '../hooks/useVirtualGrid';
 import { DisplayPokemon } from '../types/pokemon';
 
+// Card height plus the grid gap, used until a row has been measured.
+const ESTIMATED_ROW_HEIGHT = 330;
+
 interface PokemonListProps {
   pokemonList: DisplayPokemon[];
   loading: boolean;
-  lastElementRef?: (node: HTMLDivElement) => void;
+  lastElementRef?: (node: HTMLDivElement | null) => void;
 }
 
 export default function PokemonList({
@@ -14,6 +20,13 @@ export default function PokemonList({
   loading,
   lastElementRef,
 }: PokemonListProps) {
+  const { t } = useLocale();
+  const gridRef = useRef<HTMLDivElement>(null);
+  const { start, end, paddingTop, paddingBottom } = useVirtualGrid(gridRef, {
+    count: loading ? 0 : pokemonList?.length ?? 0,
+    estimateRowHeight: ESTIMATED_ROW_HEIGHT,
+  });
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-[50vh]">
@@ -26,8 +39,8 @@ export default function PokemonList({
     return (
       <div className="text-center py-20">
         <div className="text-6xl mb-4">🔍</div>
-        <h3 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2">No Pokémon found</h3>
-        <p className="text-gray-600 text-sm sm:text-base">Try adjusting your search terms</p>
+        <h3 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2">{t('list.empty')}</h3>
+        <p className="text-gray-600 text-sm sm:text-base">{t('list.emptyHint')}</p>
       </div>
     );
   }
@@ -36,12 +49,16 @@ export default function PokemonList({
     <div className="space-y-6 px-4 sm:px-6 md:px-8">
       {/* Header */}
     
-      {/* Responsive Grid */}
-      <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-        {pokemonList.map((pokemon, index) => (
+      {/* Responsive Grid, windowed: only rows near the viewport are mounted */}
+      <div
+        ref={gridRef}
+        className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4"
+        style={{ paddingTop, paddingBottom }}
+      >
+        {pokemonList.slice(start, end).map((pokemon, offset) => (
           <div
             key={pokemon.id}
-            ref={index === pokemonList.length - 1 ? lastElementRef : null}
+            ref={start + offset === pokemonList.length - 1 ? lastElementRef : null}
             className="transform transition-transform duration-200 hover:scale-[1.03]"
           >
             <PokemonCard pokemon={pokemon} />
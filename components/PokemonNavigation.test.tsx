@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import PokemonNavigation from './PokemonNavigation';
+import { PokemonFormProvider } from './PokemonForms';
+import { getFavorites } from '../lib/favorites';
+import type { PokemonNeighbours } from '../lib/server/pokemonDetail';
+import { formatPokemonData, RawPokemon } from '../types/pokemon';
+import { loadFixture } from '../test/pokeApiMock';
+
+const router = { push: vi.fn(), back: vi.fn() };
+
+vi.mock('next/navigation', () => ({ useRouter: () => router }));
+
+const neighbours: PokemonNeighbours = {
+  previous: { id: 151, name: 'mew', names: { en: 'Mew', 'ja-Hrkt': 'ミュウ' }, sprite: null },
+  next: { id: 2, name: 'ivysaur', names: { en: 'Ivysaur' }, sprite: 'ivysaur.png' },
+};
+
+const renderNavigation = () =>
+  render(
+    <PokemonFormProvider
+      forms={[{ pokemon: formatPokemonData(loadFixture<RawPokemon>('pokemon/1.json')), isDefault: true }]}
+      initialId={1}
+    >
+      <PokemonNavigation neighbours={neighbours} />
+      <input aria-label="Filter moves" />
+    </PokemonFormProvider>
+  );
+
+describe('PokemonNavigation', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    router.push.mockClear();
+  });
+
+  it('links both neighbours, wrapping around the ends of the Pokédex', () => {
+    renderNavigation();
+
+    expect(screen.getByRole('link', { name: 'Previous: Mew' })).toHaveAttribute('href', '/pokemon/151');
+    expect(screen.getByRole('link', { name: 'Next: Ivysaur' })).toHaveAttribute('href', '/pokemon/2');
+  });
+
+  it('moves between Pokémon with the arrow keys', async () => {
+    renderNavigation();
+
+    await userEvent.keyboard('{ArrowRight}');
+    await userEvent.keyboard('{ArrowLeft}');
+
+    expect(router.push.mock.calls).toEqual([['/pokemon/2'], ['/pokemon/151']]);
+  });
+
+  it('toggles the favorite with f and sends / to the search', async () => {
+    renderNavigation();
+
+    await userEvent.keyboard('f');
+    expect(getFavorites().map((entry) => entry.id)).toEqual([1]);
+
+    await userEvent.keyboard('/');
+    expect(router.push).toHaveBeenCalledWith('/#search');
+  });
+
+  it('leaves keys typed into a field alone', async () => {
+    renderNavigation();
+
+    await userEvent.type(screen.getByLabelText('Filter moves'), 'f{ArrowRight}');
+
+    expect(router.push).not.toHaveBeenCalled();
+    expect(getFavorites()).toEqual([]);
+  });
+});
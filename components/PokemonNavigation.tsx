@@ -0,0 +1,95 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import { useCurrentForm } from './PokemonForms';
+import { useFavorites } from '../hooks/useFavorites';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useLocale } from '../hooks/useLocale';
+import { useRecentHistory } from '../hooks/useRecentHistory';
+import type { LocalizedNames } from '../lib/i18n';
+import type { PokemonNeighbour, PokemonNeighbours } from '../lib/server/pokemonDetail';
+
+interface NeighbourLinkProps {
+  neighbour: PokemonNeighbour;
+  direction: 'previous' | 'next';
+}
+
+function NeighbourLink({ neighbour, direction }: NeighbourLinkProps) {
+  const { t, name } = useLocale();
+  const displayName = name(neighbour.names, neighbour.name);
+  const isNext = direction === 'next';
+
+  return (
+    <Link
+      href={`/pokemon/${neighbour.id}`}
+      aria-label={t(isNext ? 'detail.next' : 'detail.previous', { name: displayName })}
+      aria-keyshortcuts={isNext ? 'ArrowRight' : 'ArrowLeft'}
+      className={`group flex items-center gap-2 px-2 py-1 bg-white/10 backdrop-blur-sm rounded-xl border border-white/20 hover:bg-white/20 transition-all duration-300 ${
+        isNext ? 'flex-row-reverse pl-3' : 'pr-3'
+      }`}
+    >
+      <span className="text-white/70 group-hover:text-white transition-colors">{isNext ? '→' : '←'}</span>
+      {neighbour.sprite ? (
+        <img src={neighbour.sprite} alt="" className="w-10 h-10 object-contain [image-rendering:pixelated]" />
+      ) : (
+        <span className="w-10 h-10" />
+      )}
+      <span className={`hidden sm:flex flex-col ${isNext ? 'items-end' : 'items-start'}`}>
+        <span className="text-xs text-white/50 font-mono">#{neighbour.id.toString().padStart(3, '0')}</span>
+        <span className="text-sm font-medium text-white/80 group-hover:text-white">{displayName}</span>
+      </span>
+    </Link>
+  );
+}
+
+interface PokemonNavigationProps {
+  neighbours: PokemonNeighbours | null;
+  /** Species names, kept with the default form in the recently viewed list. */
+  names?: LocalizedNames;
+}
+
+// Previous/next links by Pokédex number plus the detail page shortcuts. The
+// links are prefetched by Next, and the server has started loading both
+// neighbours, so arrow keys move between pages without waiting.
+export default function PokemonNavigation({ neighbours, names }: PokemonNavigationProps) {
+  const router = useRouter();
+  const { forms, current } = useCurrentForm();
+  const { toggle } = useFavorites();
+  const { addView } = useRecentHistory();
+  const { t } = useLocale();
+
+  // Every form shown counts as viewed, for the search dropdown's recent list.
+  useEffect(() => {
+    const { id, name, sprites, types } = current.pokemon;
+    const speciesId = current.isDefault ? undefined : forms.find((form) => form.isDefault)?.pokemon.id;
+    addView({ id, speciesId, name, names: current.isDefault ? names : undefined, sprite: sprites.game.front, types });
+  }, [forms, current, names, addView]);
+
+  useKeyboardShortcuts({
+    ...(neighbours && {
+      ArrowLeft: () => router.push(`/pokemon/${neighbours.previous.id}`),
+      ArrowRight: () => router.push(`/pokemon/${neighbours.next.id}`),
+    }),
+    // The search lives on the home page, which focuses it for `#search`.
+    '/': () => router.push('/#search'),
+    Escape: () => (window.history.length > 1 ? router.back() : router.push('/')),
+    f: () => {
+      const { id, name, image, types } = current.pokemon;
+      toggle({ id, name, image, types });
+    },
+  });
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      {neighbours && (
+        <nav aria-label={t('detail.navigation')} className="flex gap-3">
+          <NeighbourLink neighbour={neighbours.previous} direction="previous" />
+          <NeighbourLink neighbour={neighbours.next} direction="next" />
+        </nav>
+      )}
+      <p className="hidden md:block text-xs text-white/50">{t('detail.shortcuts')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { useState } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import SearchBar from './SearchBar';
+import { getSearchResults } from '../lib/explorerApi';
+import { addRecentView, getRecentHistory } from '../lib/recentHistory';
+
+const router = { push: vi.fn() };
+
+vi.mock('next/navigation', () => ({ useRouter: () => router }));
+
+vi.mock('../lib/explorerApi', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/explorerApi')>()),
+  getSearchResults: vi.fn(),
+}));
+
+const searchResults = vi.mocked(getSearchResults);
+
+// SearchBar is controlled; the page owns the value.
+function ControlledSearchBar({ onSearch, initialValue = '' }: { onSearch: (query: string) => void; initialValue?: string }) {
+  const [value, setValue] = useState(initialValue);
+  return <SearchBar value={value} onChange={setValue} onSearch={onSearch} />;
+}
+
+describe('SearchBar', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    router.push.mockClear();
+    searchResults.mockReset();
+    searchResults.mockResolvedValue([]);
+  });
+
+  it('reports typing through onChange without searching', async () => {
+    const onChange = vi.fn();
+    const onSearch = vi.fn();
+    render(<SearchBar value="" onChange={onChange} onSearch={onSearch} />);
+
+    await userEvent.type(screen.getByPlaceholderText('Search Pokemon...'), 'p');
+
+    expect(onChange).toHaveBeenCalledWith('p');
+    expect(onSearch).not.toHaveBeenCalled();
+  });
+
+  it('searches immediately on Enter', async () => {
+    const onSearch = vi.fn();
+    render(<ControlledSearchBar onSearch={onSearch} />);
+
+    await userEvent.type(screen.getByPlaceholderText('Search Pokemon...'), 'pika{Enter}');
+
+    expect(onSearch).toHaveBeenCalledTimes(1);
+    expect(onSearch).toHaveBeenCalledWith('pika');
+  });
+
+  it('clears the input and the search', async () => {
+    const onSearch = vi.fn();
+    render(<ControlledSearchBar onSearch={onSearch} initialValue="pika" />);
+
+    await userEvent.click(screen.getByRole('button'));
+
+    expect(screen.getByPlaceholderText('Search Pokemon...')).toHaveValue('');
+    expect(onSearch).toHaveBeenCalledWith('');
+  });
+
+  it('focuses the input on /', async () => {
+    render(<ControlledSearchBar onSearch={vi.fn()} />);
+
+    await userEvent.keyboard('/');
+
+    expect(screen.getByPlaceholderText('Search Pokemon...')).toHaveFocus();
+    expect(screen.getByPlaceholderText('Search Pokemon...')).toHaveValue('');
+  });
+
+  it('shows the result count for the current value', () => {
+    render(<SearchBar value="char" onChange={vi.fn()} onSearch={vi.fn()} totalResults={3} />);
+    expect(screen.getByText(/Found 3 results for/)).toHaveTextContent('Found 3 results for "char"');
+  });
+
+  it('suggests the top matches and opens the one picked with the keyboard', async () => {
+    searchResults.mockResolvedValue([
+      { id: 4, name: 'charmander', url: '', sprite: 'charmander.png', types: ['fire'] },
+      { id: 6, name: 'charizard', url: '', sprite: 'charizard.png', types: ['fire', 'flying'] },
+    ]);
+    render(<ControlledSearchBar onSearch={vi.fn()} />);
+    const input = screen.getByRole('combobox', { name: 'Search Pokémon' });
+
+    await userEvent.type(input, 'char');
+    const options = await screen.findAllByRole('option');
+
+    expect(options.map((option) => option.textContent)).toEqual(['#004CharmanderFire', '#006CharizardFireFlying']);
+    expect(input).toHaveAttribute('aria-expanded', 'true');
+
+    await userEvent.keyboard('{ArrowDown}{ArrowDown}');
+    expect(input).toHaveAttribute('aria-activedescendant', options[1].id);
+    expect(options[1]).toHaveAttribute('aria-selected', 'true');
+
+    await userEvent.keyboard('{Enter}');
+    expect(router.push).toHaveBeenCalledWith('/pokemon/6');
+    expect(getRecentHistory().searches).toEqual(['char']);
+  });
+
+  it('shows recent searches and recently viewed Pokémon when focused empty', async () => {
+    const onSearch = vi.fn();
+    addRecentView({ id: 25, name: 'pikachu', sprite: null, types: ['electric'] });
+    render(<ControlledSearchBar onSearch={onSearch} />);
+    const input = screen.getByRole('combobox');
+
+    await userEvent.type(input, 'eevee{Enter}');
+    await userEvent.clear(input);
+
+    expect(screen.getByRole('group', { name: 'Recent searches' })).toHaveTextContent('eevee');
+    expect(screen.getByRole('group', { name: 'Recently viewed' })).toHaveTextContent('Pikachu');
+
+    await userEvent.click(screen.getByRole('option', { name: /eevee/ }));
+    expect(input).toHaveValue('eevee');
+    expect(onSearch).toHaveBeenLastCalledWith('eevee');
+  });
+
+  it('closes the dropdown on Escape', async () => {
+    addRecentView({ id: 25, name: 'pikachu' });
+    render(<ControlledSearchBar onSearch={vi.fn()} />);
+
+    await userEvent.click(screen.getByRole('combobox'));
+    expect(screen.getByRole('listbox')).toBeInTheDocument();
+
+    await userEvent.keyboard('{Escape}');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+});
@@ -1,56 +1,183 @@
 'use client';
 
-import { useState, ChangeEvent, useEffect } from 'react';
+import { ChangeEvent, KeyboardEvent, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useLocale } from '../hooks/useLocale';
+import { useRecentHistory } from '../hooks/useRecentHistory';
+import { useSearchSuggestions } from '../hooks/useSearchSuggestions';
+import type { LocalizedNames } from '../lib/i18n';
+import type { MessageKey } from '../lib/messages';
 
 interface SearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
   onSearch: (query: string) => void;
   isSearching?: boolean;
   totalResults?: number;
 }
 
+// Entries of the dropdown: a Pokémon opens its detail page, a recent search
+// runs again.
+type SearchOption =
+  | {
+      kind: 'pokemon';
+      key: string;
+      id: number;
+      number: number;
+      name: string;
+      names?: LocalizedNames;
+      sprite?: string | null;
+      types?: string[];
+    }
+  | { kind: 'search'; key: string; query: string };
+
+interface OptionGroup {
+  label: MessageKey;
+  options: SearchOption[];
+}
+
 export default function SearchBar({
+  value,
+  onChange,
   onSearch,
   isSearching = false,
   totalResults = 0,
 }: SearchBarProps) {
-  const [searchTerm, setSearchTerm] = useState<string>('');
-  const [debouncedTerm, setDebouncedTerm] = useState<string>('');
+  const router = useRouter();
+  const { t, name, typeName, locale } = useLocale();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const recent = useRecentHistory();
+  const { suggestions, query: suggestionQuery } = useSearchSuggestions(value, locale);
+  const hasQuery = value.trim() !== '';
+
+  // While typing the dropdown shows the top matches; an empty input shows
+  // what was searched for and looked at lately.
+  const groups = useMemo<OptionGroup[]>(() => {
+    if (hasQuery) {
+      const matches = suggestionQuery ? suggestions : [];
+      return [
+        {
+          label: 'search.suggestions',
+          options: matches.map((pokemon) => ({
+            kind: 'pokemon',
+            key: `match-${pokemon.id}`,
+            id: pokemon.id,
+            number: pokemon.speciesId ?? pokemon.id,
+            name: pokemon.name,
+            names: pokemon.names,
+            sprite: pokemon.sprite,
+            types: pokemon.types,
+          })),
+        },
+      ];
+    }
+    return [
+      {
+        label: 'search.recentSearches',
+        options: recent.searches.map((query) => ({ kind: 'search', key: `search-${query}`, query })),
+      },
+      {
+        label: 'search.recentlyViewed',
+        options: recent.viewed.map((pokemon) => ({
+          kind: 'pokemon',
+          key: `viewed-${pokemon.id}`,
+          number: pokemon.speciesId ?? pokemon.id,
+          ...pokemon,
+        })),
+      },
+    ];
+  }, [hasQuery, suggestions, suggestionQuery, recent.searches, recent.viewed]);
+
+  const visibleGroups = groups.filter((group) => group.options.length > 0);
+  const options = visibleGroups.flatMap((group) => group.options);
+  const expanded = open && options.length > 0;
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
 
   useEffect(() => {
-    const timer = setTimeout(() => {
-      setDebouncedTerm(searchTerm);
-    }, 300);
+    setActiveIndex(-1);
+  }, [value, suggestions]);
 
-    return () => clearTimeout(timer);
-  }, [searchTerm]);
+  useKeyboardShortcuts({ '/': () => inputRef.current?.focus() });
 
+  // Detail pages send `/` here as `/#search`.
   useEffect(() => {
-    onSearch(debouncedTerm);
-  }, [debouncedTerm, onSearch]);
+    if (window.location.hash === '#search') inputRef.current?.focus();
+  }, []);
 
   const handleSearch = (e: ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(e.target.value);
+    setOpen(true);
+    onChange(e.target.value);
+  };
+
+  const choose = (option: SearchOption) => {
+    setOpen(false);
+    if (option.kind === 'search') {
+      recent.addSearch(option.query);
+      onChange(option.query);
+      onSearch(option.query);
+    } else {
+      recent.addSearch(value);
+      router.push(`/pokemon/${option.id}`);
+    }
+  };
+
+  const move = (offset: number) => {
+    setOpen(true);
+    if (options.length === 0) return;
+    setActiveIndex((index) => (index === -1 && offset < 0 ? options.length - 1 : (index + offset + options.length) % options.length));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') move(1);
+    else if (e.key === 'ArrowUp') move(-1);
+    else if (e.key === 'Enter') {
+      if (expanded && options[activeIndex]) {
+        choose(options[activeIndex]);
+      } else {
+        recent.addSearch(value);
+        onSearch(value);
+      }
+    } else if (e.key === 'Escape' && expanded) setOpen(false);
+    else return;
+    e.preventDefault();
   };
 
   const clearSearch = () => {
-    setSearchTerm('');
-    setDebouncedTerm('');
+    onChange('');
+    onSearch('');
   };
 
   return (
     <div className="w-full px-4 sm:px-6 md:px-0 max-w-xl mx-auto">
       <div className="relative group">
         <input
+          ref={inputRef}
+          id="search"
           type="text"
-          placeholder="Search Pokemon..."
-          value={searchTerm}
+          placeholder={t('search.placeholder')}
+          value={value}
           onChange={handleSearch}
+          onKeyDown={handleKeyDown}
+          aria-keyshortcuts="/"
+          aria-label={t('search.label')}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={expanded}
+          aria-controls={listboxId}
+          aria-activedescendant={expanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          autoComplete="off"
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
           className="w-full px-4 py-3 sm:py-4 pl-12 pr-12 text-sm sm:text-base text-white bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all duration-300 placeholder-white/50 group-hover:bg-white/20"
         />
 
         {/* Search Icon */}
         <div className="absolute inset-y-0 left-0 flex items-center pl-4">
-          {isSearching && searchTerm ? (
+          {isSearching && value ? (
             <div className="w-4 h-4 sm:w-5 sm:h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
           ) : (
             <svg
@@ -70,9 +197,10 @@ export default function SearchBar({
         </div>
 
         {/* Clear Button */}
-        {searchTerm && (
+        {value && (
           <button
             onClick={clearSearch}
+            aria-label={t('search.clear')}
             className="absolute inset-y-0 right-0 flex items-center pr-4 text-white/60 hover:text-white/80 transition-colors"
           >
             <svg
@@ -90,24 +218,85 @@ export default function SearchBar({
             </svg>
           </button>
         )}
+
+        {/* Suggestions */}
+        {expanded && (
+          <div
+            id={listboxId}
+            role="listbox"
+            aria-label={t('search.label')}
+            className="absolute z-30 left-0 right-0 mt-2 py-2 bg-indigo-950/95 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl overflow-hidden"
+          >
+            {visibleGroups.map((group) => (
+              <div key={group.label} role="group" aria-labelledby={`${listboxId}-${group.label}`}>
+                <div
+                  id={`${listboxId}-${group.label}`}
+                  className="px-4 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-white/50"
+                >
+                  {t(group.label)}
+                </div>
+                {group.options.map((option) => {
+                  const index = options.indexOf(option);
+                  const active = index === activeIndex;
+                  return (
+                    <div
+                      key={option.key}
+                      id={optionId(index)}
+                      role="option"
+                      aria-selected={active}
+                      // Keeps focus in the input so the dropdown stays open until the click lands.
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => choose(option)}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      className={`flex items-center gap-3 px-4 py-2 cursor-pointer text-sm text-white transition-colors ${
+                        active ? 'bg-white/20' : 'hover:bg-white/10'
+                      }`}
+                    >
+                      {option.kind === 'search' ? (
+                        <>
+                          <span className="w-10 text-center text-white/50" aria-hidden="true">↺</span>
+                          <span className="truncate">{option.query}</span>
+                        </>
+                      ) : (
+                        <>
+                          {option.sprite ? (
+                            <img src={option.sprite} alt="" className="w-10 h-10 object-contain [image-rendering:pixelated]" />
+                          ) : (
+                            <span className="w-10 h-10" />
+                          )}
+                          <span className="text-xs text-white/50 font-mono">#{option.number.toString().padStart(3, '0')}</span>
+                          <span className="flex-1 truncate font-medium">{name(option.names, option.name)}</span>
+                          <span className="flex gap-1">
+                            {option.types?.map((type) => (
+                              <span key={type} className="px-2 py-0.5 text-[10px] capitalize text-white/80 bg-white/10 rounded-full">
+                                {typeName(type)}
+                              </span>
+                            ))}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Search Status */}
-      {searchTerm && (
+      {value && (
         <div className="mt-3 text-center">
           <div className="inline-flex items-center gap-2 text-xs sm:text-sm text-white/70">
             {isSearching ? (
               <>
                 <div className="w-3 h-3 border border-white/30 border-t-white rounded-full animate-spin"></div>
-                <span>Searching across all Pokemon...</span>
+                <span>{t('search.searching')}</span>
               </>
             ) : (
               <>
                 <span className="w-2 h-2 bg-green-500 rounded-full"></span>
-                <span>
-                  Found {totalResults} result{totalResults !== 1 ? 's' : ''} for "
-                  {searchTerm}"
-                </span>
+                <span>{t('search.found', { count: totalResults, query: value })}</span>
               </>
             )}
           </div>
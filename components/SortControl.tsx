@@ -0,0 +1,50 @@
+'use client';
+
+import { ChangeEvent } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { PokemonSort, SortKey, SORT_OPTIONS } from '../lib/pokemonSort';
+
+interface SortControlProps {
+  sort: PokemonSort;
+  onChange: (sort: PokemonSort) => void;
+}
+
+export default function SortControl({ sort, onChange }: SortControlProps) {
+  const { t } = useLocale();
+
+  const handleKeyChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    onChange({ ...sort, key: e.target.value as SortKey });
+  };
+
+  const toggleOrder = () => {
+    onChange({ ...sort, order: sort.order === 'asc' ? 'desc' : 'asc' });
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <label htmlFor="pokemon-sort" className="text-white/60">
+        {t('sort.label')}
+      </label>
+      <select
+        id="pokemon-sort"
+        value={sort.key}
+        onChange={handleKeyChange}
+        className="px-3 py-1.5 text-white bg-white/10 border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option key={option.key} value={option.key} className="bg-indigo-900">
+            {t(option.label)}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={toggleOrder}
+        title={t(sort.order === 'asc' ? 'sort.ascending' : 'sort.descending')}
+        aria-label={t(sort.order === 'asc' ? 'sort.ascendingLabel' : 'sort.descendingLabel')}
+        className="px-3 py-1.5 text-white bg-white/10 border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
+      >
+        {sort.order === 'asc' ? '↑' : '↓'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import SpriteGallery from './SpriteGallery';
+import type { PokemonSprites } from '../types/pokemon';
+
+const sprites: PokemonSprites = {
+  artwork: { front: 'artwork.png', frontShiny: 'artwork-shiny.png' },
+  game: { front: 'game.png', frontFemale: 'game-female.png', back: 'game-back.png' },
+  home: {},
+  dreamWorld: {},
+  showdown: { front: 'showdown.gif' },
+  versions: [{ generation: 'I', game: 'red-blue', sprites: { front: 'red-blue.png' }, animated: null }],
+};
+
+describe('SpriteGallery', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('shows the sprites that match the chosen options', async () => {
+    render(<SpriteGallery name="pikachu" sprites={sprites} />);
+
+    expect(screen.getAllByRole('img').map((img) => img.getAttribute('src'))).toEqual([
+      'artwork.png',
+      'game.png',
+      'showdown.gif',
+      'red-blue.png',
+    ]);
+    expect(screen.getByText('Generation I')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: '✨ Shiny' }));
+    expect(screen.getAllByRole('img').map((img) => img.getAttribute('src'))).toEqual(['artwork-shiny.png']);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Normal' }));
+    await userEvent.click(screen.getByRole('button', { name: '♀ Female' }));
+    expect(screen.getByAltText('Pikachu – Game sprite')).toHaveAttribute('src', 'game-female.png');
+  });
+
+  it('hides the gender toggle when there are no female sprites', () => {
+    render(<SpriteGallery name="pikachu" sprites={{ ...sprites, game: { front: 'game.png' } }} />);
+    expect(screen.queryByRole('group', { name: 'Gender' })).not.toBeInTheDocument();
+  });
+
+  it('opens a lightbox that steps through the sprites', async () => {
+    render(<SpriteGallery name="pikachu" sprites={sprites} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'View Official artwork full screen' }));
+    const dialog = screen.getByRole('dialog');
+    expect(within(dialog).getByText('1 of 4')).toBeInTheDocument();
+    expect(within(dialog).getByRole('button', { name: 'Close' })).toHaveFocus();
+
+    await userEvent.keyboard('{ArrowLeft}');
+    expect(within(dialog).getByRole('img')).toHaveAttribute('src', 'red-blue.png');
+
+    await userEvent.keyboard('{Escape}');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'View Official artwork full screen' })).toHaveFocus();
+  });
+});
@@ -0,0 +1,271 @@
+'use client';
+
+import { KeyboardEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocale } from '../hooks/useLocale';
+import { formatSlug, type LocalizedNames } from '../lib/i18n';
+import type { MessageKey } from '../lib/messages';
+import {
+  hasFemaleSprites,
+  pickSprite,
+  PokemonSprites,
+  SpriteAngle,
+  SpriteOptions,
+  SpriteSet,
+} from '../types/pokemon';
+
+interface SpriteGalleryProps {
+  name: string;
+  names?: LocalizedNames;
+  sprites: PokemonSprites;
+}
+
+interface GallerySource {
+  key: string;
+  label: string;
+  group: string | null;
+  sprites: SpriteSet;
+  pixelated: boolean;
+}
+
+type GalleryImage = Omit<GallerySource, 'sprites'> & { src: string };
+
+const MAIN_SOURCES: Array<{ key: keyof Omit<PokemonSprites, 'versions'>; label: MessageKey; pixelated: boolean }> = [
+  { key: 'artwork', label: 'gallery.artwork', pixelated: false },
+  { key: 'home', label: 'gallery.home', pixelated: false },
+  { key: 'dreamWorld', label: 'gallery.dreamWorld', pixelated: false },
+  { key: 'game', label: 'gallery.game', pixelated: true },
+  { key: 'showdown', label: 'gallery.showdown', pixelated: true },
+];
+
+const toggleClass = (active: boolean) =>
+  `px-3 py-1.5 text-sm font-medium rounded-lg transition-all duration-300 ${
+    active ? 'bg-white/30 text-white shadow' : 'text-white/60 hover:text-white hover:bg-white/10'
+  }`;
+
+function ToggleGroup<T extends string | boolean>({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: T;
+  options: Array<{ value: T; label: string }>;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div role="group" aria-label={label} className="inline-flex p-1 bg-white/10 rounded-xl border border-white/20">
+      {options.map((option) => (
+        <button
+          key={String(option.value)}
+          type="button"
+          aria-pressed={option.value === value}
+          onClick={() => onChange(option.value)}
+          className={toggleClass(option.value === value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function SpriteGallery({ name, names, sprites }: SpriteGalleryProps) {
+  const { t, name: localizedName } = useLocale();
+  const [options, setOptions] = useState<SpriteOptions>({ angle: 'front', shiny: false, female: false });
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const openerRef = useRef<HTMLElement | null>(null);
+  const displayName = localizedName(names, name);
+  const showGender = hasFemaleSprites(sprites);
+
+  const sources = useMemo<GallerySource[]>(
+    () => [
+      ...MAIN_SOURCES.map((source) => ({
+        key: source.key,
+        label: t(source.label),
+        group: null,
+        sprites: sprites[source.key],
+        pixelated: source.pixelated,
+      })),
+      ...sprites.versions.flatMap((version) => {
+        const group = t('gallery.generation', { generation: version.generation });
+        const game = formatSlug(version.game);
+        return [
+          { key: version.game, label: game, group, sprites: version.sprites, pixelated: true },
+          ...(version.animated
+            ? [{ key: `${version.game}-animated`, label: t('gallery.animated', { game }), group, sprites: version.animated, pixelated: true }]
+            : []),
+        ];
+      }),
+    ],
+    [sprites, t]
+  );
+
+  // Sources without a sprite for the chosen options are hidden rather than
+  // shown as blanks; older games have no shiny or back sprites at all.
+  const images = useMemo(
+    () =>
+      sources.flatMap((source): GalleryImage[] => {
+        const { sprites: set, ...rest } = source;
+        const src = pickSprite(set, { ...options, female: showGender && options.female });
+        return src ? [{ ...rest, src }] : [];
+      }),
+    [sources, options, showGender]
+  );
+
+  const openImage = openIndex === null ? null : images[openIndex] ?? null;
+
+  useEffect(() => {
+    if (openImage) closeButtonRef.current?.focus();
+  }, [openImage]);
+
+  const update = (changes: Partial<SpriteOptions>) => {
+    setOptions((current) => ({ ...current, ...changes }));
+  };
+
+  const open = (index: number, opener: HTMLElement) => {
+    openerRef.current = opener;
+    setOpenIndex(index);
+  };
+
+  const close = () => {
+    setOpenIndex(null);
+    openerRef.current?.focus();
+  };
+
+  const step = (offset: number) => {
+    setOpenIndex((index) => (index === null ? null : (index + offset + images.length) % images.length));
+  };
+
+  const handleLightboxKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') close();
+    else if (e.key === 'ArrowLeft') step(-1);
+    else if (e.key === 'ArrowRight') step(1);
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Toggles */}
+      <div className="flex flex-wrap gap-3">
+        <ToggleGroup<boolean>
+          label={t('gallery.shiny')}
+          value={options.shiny}
+          options={[
+            { value: false, label: t('gallery.normal') },
+            { value: true, label: `✨ ${t('gallery.shiny')}` },
+          ]}
+          onChange={(shiny) => update({ shiny })}
+        />
+        {showGender && (
+          <ToggleGroup<boolean>
+            label={t('detail.gender')}
+            value={options.female}
+            options={[
+              { value: false, label: `♂ ${t('gallery.male')}` },
+              { value: true, label: `♀ ${t('gallery.female')}` },
+            ]}
+            onChange={(female) => update({ female })}
+          />
+        )}
+        <ToggleGroup<SpriteAngle>
+          label={t('gallery.angle')}
+          value={options.angle}
+          options={[
+            { value: 'front', label: t('gallery.front') },
+            { value: 'back', label: t('gallery.back') },
+          ]}
+          onChange={(angle) => update({ angle })}
+        />
+      </div>
+
+      {/* Grid */}
+      {images.length === 0 ? (
+        <p className="text-white/60">{t('gallery.empty')}</p>
+      ) : (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+          {images.map((image, index) => (
+            <li key={image.key}>
+              <button
+                type="button"
+                onClick={(e) => open(index, e.currentTarget)}
+                aria-label={t('gallery.open', { label: image.label })}
+                className="group w-full flex flex-col items-center p-3 bg-white/5 rounded-2xl border border-white/10 hover:bg-white/10 hover:border-white/20 hover:scale-105 transition-all duration-300"
+              >
+                <img
+                  src={image.src}
+                  alt={`${displayName} – ${image.label}`}
+                  loading="lazy"
+                  className={`w-24 h-24 object-contain drop-shadow-lg ${image.pixelated ? '[image-rendering:pixelated]' : ''}`}
+                />
+                <span className="mt-2 text-xs font-medium text-white/80 text-center">{image.label}</span>
+                {image.group && <span className="text-[10px] text-white/50">{image.group}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Lightbox */}
+      {openImage && openIndex !== null && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-label={`${displayName} – ${openImage.label}`}
+          onKeyDown={handleLightboxKeyDown}
+          onClick={close}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm"
+        >
+          <div
+            onClick={(e) => e.stopPropagation()}
+            className="relative flex flex-col items-center gap-4 w-full max-w-3xl"
+          >
+            <button
+              ref={closeButtonRef}
+              type="button"
+              onClick={close}
+              aria-label={t('gallery.close')}
+              className="absolute top-0 right-0 p-2 text-white/80 hover:text-white bg-white/10 rounded-full border border-white/20 hover:bg-white/20 transition-all duration-300"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+            <img
+              src={openImage.src}
+              alt={`${displayName} – ${openImage.label}`}
+              className={`w-full max-h-[70vh] object-contain drop-shadow-2xl ${openImage.pixelated ? '[image-rendering:pixelated]' : ''}`}
+            />
+            <div className="flex items-center gap-4 text-white">
+              <button
+                type="button"
+                onClick={() => step(-1)}
+                aria-label={t('gallery.previous')}
+                className="p-2 bg-white/10 rounded-full border border-white/20 hover:bg-white/20 transition-all duration-300"
+              >
+                ←
+              </button>
+              <div className="text-center">
+                <div className="font-semibold">{openImage.label}</div>
+                <div className="text-sm text-white/60">
+                  {openImage.group && `${openImage.group} · `}
+                  {t('gallery.position', { index: openIndex + 1, total: images.length })}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => step(1)}
+                aria-label={t('gallery.next')}
+                className="p-2 bg-white/10 rounded-full border border-white/20 hover:bg-white/20 transition-all duration-300"
+              >
+                →
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
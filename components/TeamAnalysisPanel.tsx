@@ -0,0 +1,109 @@
+'use client';
+
+import { PokemonTypes, STAT_LABELS, STAT_NAMES } from '../types/pokemon';
+import { TeamAnalysis } from '../lib/teamAnalysis';
+import { formatMultiplier } from '../lib/typeChart';
+
+interface TeamAnalysisPanelProps {
+  analysis: TeamAnalysis;
+  size: number;
+}
+
+function TypeTag({ type, dim = false }: { type: string; dim?: boolean }) {
+  return (
+    <span
+      className={`px-2 py-1 rounded-md text-xs font-medium text-white capitalize bg-gradient-to-r ${PokemonTypes[type]} ${
+        dim ? 'opacity-40' : 'shadow-md'
+      }`}
+    >
+      {type}
+    </span>
+  );
+}
+
+export default function TeamAnalysisPanel({ analysis, size }: TeamAnalysisPanelProps) {
+  return (
+    <div className="space-y-8">
+      {/* Defense */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-white">Defensive Weaknesses</h3>
+        {analysis.sharedWeaknesses.length > 0 ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-red-300">Shared weaknesses nobody resists:</span>
+            {analysis.sharedWeaknesses.map((type) => (
+              <TypeTag key={type} type={type} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-green-300">No shared weaknesses.</p>
+        )}
+        <div className="overflow-x-auto bg-white/5 rounded-2xl border border-white/10">
+          <table className="w-full text-sm text-white/90">
+            <thead>
+              <tr className="border-b border-white/10 text-white/60">
+                <th scope="col" className="px-3 py-2 text-left font-medium">Attacking type</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Weak</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Resist</th>
+                <th scope="col" className="px-3 py-2 text-right font-medium">Immune</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.defense.map((entry) => (
+                <tr key={entry.type} className="border-b border-white/5 last:border-0">
+                  <td className="px-3 py-1.5">
+                    <TypeTag type={entry.type} />
+                  </td>
+                  <td className={`px-3 py-1.5 text-right font-mono ${entry.weak >= Math.max(2, size / 2) ? 'text-red-300 font-bold' : ''}`}>
+                    {entry.weak || '—'}
+                  </td>
+                  <td className="px-3 py-1.5 text-right font-mono">{entry.resistant || '—'}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{entry.immune || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Offense */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-white">Offensive Coverage</h3>
+        {analysis.coverageHoles.length > 0 ? (
+          <p className="text-sm text-yellow-200">
+            Nothing on the team hits {analysis.coverageHoles.length} type
+            {analysis.coverageHoles.length === 1 ? '' : 's'} super effectively.
+          </p>
+        ) : (
+          <p className="text-sm text-green-300">Every type is covered super effectively.</p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {analysis.offense.map((entry) => (
+            <span key={entry.type} className="flex items-center gap-1" title={`${entry.coveredBy} member(s) hit super effectively`}>
+              <TypeTag type={entry.type} dim={entry.coveredBy === 0} />
+              <span className="text-xs font-mono text-white/60">{formatMultiplier(entry.best)}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-white">
+          Average Base Stats <span className="text-white/50 text-sm font-normal">(total {analysis.averageTotal})</span>
+        </h3>
+        {STAT_NAMES.map((name) => (
+          <div key={name} className="grid grid-cols-[5rem_3rem_minmax(0,1fr)] items-center gap-3">
+            <span className="text-sm text-white/70">{STAT_LABELS[name]}</span>
+            <span className="text-sm text-right font-mono text-white">{analysis.averageStats[name]}</span>
+            <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-blue-500 to-purple-500 rounded-full transition-all duration-500"
+                style={{ width: `${Math.min((analysis.averageStats[name] / 150) * 100, 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
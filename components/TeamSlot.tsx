@@ -0,0 +1,102 @@
+'use client';
+
+import Link from 'next/link';
+import { PokemonTypes, FormattedPokemon } from '../types/pokemon';
+import { MAX_MEMBER_MOVES, TeamMember } from '../lib/teamStorage';
+import { LearnedMove } from '../types/move';
+
+interface TeamSlotProps {
+  member: TeamMember;
+  pokemon: FormattedPokemon | null;
+  learnset: LearnedMove[] | null;
+  onRemove: () => void;
+  onMovesChange: (moves: string[]) => void;
+}
+
+// One option per move even when it is learnable several ways.
+const uniqueMoves = (learnset: LearnedMove[]): LearnedMove[] => {
+  const seen = new Map<string, LearnedMove>();
+  learnset.forEach((move) => {
+    if (!seen.has(move.name)) seen.set(move.name, move);
+  });
+  return [...seen.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export default function TeamSlot({ member, pokemon, learnset, onRemove, onMovesChange }: TeamSlotProps) {
+  const options = learnset ? uniqueMoves(learnset) : [];
+
+  const changeMove = (index: number, name: string) => {
+    const moves = [...member.moves];
+    if (name) {
+      moves[index] = name;
+    } else {
+      moves.splice(index, 1);
+    }
+    onMovesChange(moves.filter(Boolean));
+  };
+
+  return (
+    <div className="relative bg-white/10 backdrop-blur-sm rounded-2xl p-4 border border-white/20 space-y-3">
+      <button
+        onClick={onRemove}
+        aria-label={`Remove ${pokemon?.name ?? `#${member.pokemonId}`} from team`}
+        className="absolute top-3 right-3 w-7 h-7 rounded-full bg-black/20 text-white/60 hover:text-white hover:bg-red-500/60 transition-colors"
+      >
+        ×
+      </button>
+
+      {pokemon ? (
+        <Link href={`/pokemon/${pokemon.id}`} className="group flex items-center gap-3">
+          <img
+            src={pokemon.image ?? undefined}
+            alt={pokemon.name}
+            className="w-16 h-16 object-contain drop-shadow-lg transition-transform duration-300 group-hover:scale-110"
+          />
+          <div>
+            <div className="font-semibold text-white capitalize">{pokemon.name.replace(/-/g, ' ')}</div>
+            <div className="flex gap-1 mt-1">
+              {pokemon.types.map((type) => (
+                <span
+                  key={type}
+                  className={`px-2 py-0.5 rounded-md text-[10px] font-medium text-white capitalize bg-gradient-to-r ${PokemonTypes[type]}`}
+                >
+                  {type}
+                </span>
+              ))}
+            </div>
+          </div>
+        </Link>
+      ) : (
+        <div className="flex items-center gap-3 h-16">
+          <div className="w-12 h-12 bg-white/10 rounded-full animate-pulse" />
+          <span className="text-white/50 text-sm">Loading #{member.pokemonId}...</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        {Array.from({ length: MAX_MEMBER_MOVES }, (_, index) => (
+          <select
+            key={index}
+            value={member.moves[index] ?? ''}
+            onChange={(e) => changeMove(index, e.target.value)}
+            disabled={!learnset || index > member.moves.length}
+            aria-label={`Move ${index + 1}`}
+            className="w-full min-w-0 px-2 py-1.5 text-xs text-white bg-white/10 border border-white/20 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 capitalize disabled:opacity-40"
+          >
+            <option value="" className="bg-slate-800">
+              —
+            </option>
+            {options
+              .filter((move) => move.name === member.moves[index] || !member.moves.includes(move.name))
+              .map((move) => (
+                <option key={move.name} value={move.name} className="bg-slate-800 capitalize">
+                  {move.name.replace(/-/g, ' ')}
+                  {move.details ? ` (${move.details.type})` : ''}
+                </option>
+              ))}
+          </select>
+        ))}
+      </div>
+    </div>
+  );
+}
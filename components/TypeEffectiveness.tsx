@@ -0,0 +1,66 @@
+'use client';
+
+import { useLocale } from '../hooks/useLocale';
+import { PokemonTypes } from '../types/pokemon';
+import { formatMultiplier, getDefensiveMatchups, MatchupGroup, TypeName } from '../lib/typeChart';
+
+interface TypeEffectivenessProps {
+  types: string[];
+}
+
+function TypeChip({ type, multiplier }: { type: TypeName; multiplier: number }) {
+  const { typeName } = useLocale();
+
+  return (
+    <span
+      className={`flex items-center gap-2 pl-3 pr-1 py-1 rounded-lg text-xs font-medium text-white capitalize bg-gradient-to-r ${PokemonTypes[type]} shadow-md`}
+    >
+      {typeName(type)}
+      <span className="px-1.5 py-0.5 rounded-md bg-black/30 font-mono">{formatMultiplier(multiplier)}</span>
+    </span>
+  );
+}
+
+function MatchupRow({ title, groups, emptyText }: { title: string; groups: MatchupGroup[]; emptyText: string }) {
+  const hasTypes = groups.some((group) => group.types.length > 0);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-4 border border-white/20">
+      <h3 className="text-sm font-semibold text-white/80 mb-3">{title}</h3>
+      {hasTypes ? (
+        <div className="flex flex-wrap gap-2">
+          {groups.flatMap((group) =>
+            group.types.map((type) => <TypeChip key={type} type={type} multiplier={group.multiplier} />)
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-white/50">{emptyText}</p>
+      )}
+    </div>
+  );
+}
+
+export default function TypeEffectiveness({ types }: TypeEffectivenessProps) {
+  const { t } = useLocale();
+  const matchups = getDefensiveMatchups(types);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <MatchupRow
+        title={t('matchups.weaknesses')}
+        groups={matchups.weaknesses}
+        emptyText={t('matchups.noWeaknesses')}
+      />
+      <MatchupRow
+        title={t('matchups.resistances')}
+        groups={matchups.resistances}
+        emptyText={t('matchups.noResistances')}
+      />
+      <MatchupRow
+        title={t('matchups.immunities')}
+        groups={[{ multiplier: 0, types: matchups.immunities }]}
+        emptyText={t('matchups.noImmunities')}
+      />
+    </div>
+  );
+}
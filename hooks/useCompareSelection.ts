@@ -0,0 +1,15 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  clearCompare,
+  getCompareSelection,
+  getServerCompareSelection,
+  subscribeCompare,
+  toggleCompare,
+} from '../lib/compareSelection';
+
+export const useCompareSelection = () => {
+  const ids = useSyncExternalStore(subscribeCompare, getCompareSelection, getServerCompareSelection);
+  return { ids, toggle: toggleCompare, clear: clearCompare };
+};
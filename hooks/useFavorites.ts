@@ -0,0 +1,13 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getFavorites, getServerFavorites, subscribeFavorites, toggleFavorite } from '../lib/favorites';
+
+export const useFavorites = () => {
+  const favorites = useSyncExternalStore(subscribeFavorites, getFavorites, getServerFavorites);
+  return {
+    favorites,
+    isFavorite: (id: number) => favorites.some((entry) => entry.id === id),
+    toggle: toggleFavorite,
+  };
+};
@@ -0,0 +1,33 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+
+// Start loading while the last item is still this far below the viewport.
+const ROOT_MARGIN = '0px 0px 600px 0px';
+
+// Returns a ref callback for the last list item. When that item scrolls near
+// the viewport, `onLoadMore` runs; the observer is re-attached whenever the
+// last item or `enabled` changes, so a list that still fits on screen after a
+// load keeps loading.
+export const useInfiniteScroll = (onLoadMore: () => void, enabled: boolean) => {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  return useCallback(
+    (node: HTMLDivElement | null) => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+      if (!node || !enabled) return;
+
+      observerRef.current = new IntersectionObserver(
+        entries => {
+          if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+        },
+        { rootMargin: ROOT_MARGIN }
+      );
+      observerRef.current.observe(node);
+    },
+    [onLoadMore, enabled]
+  );
+};
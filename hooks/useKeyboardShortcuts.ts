@@ -0,0 +1,29 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Page-wide single-key shortcuts keyed by `KeyboardEvent.key`, letters in
+// lower case. Keys typed into form fields, pressed with a modifier or already
+// handled by a component (the sprite lightbox, for one) are left alone.
+export const useKeyboardShortcuts = (handlers: Record<string, () => void>): void => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey || isTypingTarget(e.target)) return;
+      const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+      const handler = handlersRef.current[key];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+};
@@ -0,0 +1,31 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  getLocale,
+  getServerLocale,
+  localizedName,
+  setLocale,
+  subscribeLocale,
+  translate,
+  translateType,
+  type LocalizedNames,
+  type MessageParams,
+} from '../lib/i18n';
+import type { MessageKey } from '../lib/messages';
+
+export const useLocale = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale, getServerLocale);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale]
+  );
+  const name = useCallback(
+    (names: LocalizedNames | undefined, slug: string) => localizedName(names, locale, slug),
+    [locale]
+  );
+  const typeName = useCallback((type: string) => translateType(locale, type), [locale]);
+
+  return { locale, setLocale, t, name, typeName };
+};
@@ -0,0 +1,135 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { usePokemonSearch, PokemonSearchCriteria } from './usePokemonSearch';
+import { getPokemonPage, type PokemonPage } from '../lib/explorerApi';
+import type { PokemonSummary } from '../lib/pokemonApi';
+
+vi.mock('../lib/explorerApi', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/explorerApi')>()),
+  getPokemonPage: vi.fn(),
+}));
+
+const getPage = vi.mocked(getPokemonPage);
+
+const summary = (id: number, name: string): PokemonSummary => ({
+  id,
+  name,
+  url: `https://pokeapi.co/api/v2/pokemon/${id}/`,
+});
+
+const page = (results: PokemonSummary[], count = results.length): PokemonPage => ({
+  count,
+  offset: 0,
+  limit: 20,
+  results,
+});
+
+// A page request that the test resolves by hand; it rejects when aborted,
+// like the real client.
+const pendingPage = () => {
+  let resolve!: (value: PokemonPage) => void;
+  let signal: AbortSignal | undefined;
+  const respond = (...args: Parameters<typeof getPokemonPage>) => {
+    signal = args[3];
+    return new Promise<PokemonPage>((res, reject) => {
+      resolve = res;
+      signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+  };
+  return { respond, resolve: (value: PokemonPage) => resolve(value), signal: () => signal };
+};
+
+const criteria = (query: string, pages = 1): PokemonSearchCriteria => ({ query, pages });
+
+describe('usePokemonSearch', () => {
+  beforeEach(() => {
+    getPage.mockReset();
+  });
+
+  it('loads the first page', async () => {
+    getPage.mockResolvedValue(page([summary(25, 'pikachu')], 1));
+
+    const { result } = renderHook(() => usePokemonSearch(criteria('pika')));
+
+    await waitFor(() => expect(result.current.ready).toBe(true));
+    expect(result.current.results.map(pokemon => pokemon.name)).toEqual(['pikachu']);
+    expect(result.current.count).toBe(1);
+    expect(getPage).toHaveBeenCalledWith(0, 20, { query: 'pika', filters: undefined, sort: undefined }, expect.any(AbortSignal));
+  });
+
+  it('aborts an older query and never lets it overwrite a newer one', async () => {
+    const slow = pendingPage();
+    const fast = pendingPage();
+    getPage.mockImplementationOnce(slow.respond).mockImplementationOnce(fast.respond);
+
+    const { result, rerender } = renderHook(props => usePokemonSearch(props), { initialProps: criteria('char') });
+    rerender(criteria('pika'));
+
+    expect(slow.signal()?.aborted).toBe(true);
+
+    await act(async () => {
+      fast.resolve(page([summary(25, 'pikachu')]));
+      slow.resolve(page([summary(6, 'charizard')]));
+    });
+
+    expect(result.current.ready).toBe(true);
+    expect(result.current.results.map(pokemon => pokemon.name)).toEqual(['pikachu']);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('loads only the missing pages and trims when going back', async () => {
+    const first = Array.from({ length: 20 }, (_, i) => summary(i + 1, `pokemon-${i + 1}`));
+    const second = Array.from({ length: 20 }, (_, i) => summary(i + 21, `pokemon-${i + 21}`));
+    getPage.mockResolvedValueOnce(page(first, 50)).mockResolvedValueOnce(page(second, 50));
+
+    const { result, rerender } = renderHook(props => usePokemonSearch(props), { initialProps: criteria('', 1) });
+    await waitFor(() => expect(result.current.loadedPages).toBe(1));
+
+    rerender(criteria('', 2));
+    await waitFor(() => expect(result.current.loadedPages).toBe(2));
+    expect(result.current.results).toHaveLength(40);
+    expect(getPage).toHaveBeenLastCalledWith(20, 20, expect.anything(), expect.any(AbortSignal));
+
+    rerender(criteria('', 1));
+    expect(result.current.results).toHaveLength(20);
+    expect(getPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a failed first load as an error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    getPage.mockRejectedValueOnce(new Error('offline')).mockResolvedValueOnce(page([summary(1, 'bulbasaur')]));
+
+    const { result } = renderHook(() => usePokemonSearch(criteria('')));
+    await waitFor(() => expect(result.current.error).toBeInstanceOf(Error));
+    expect(result.current.loading).toBe(false);
+
+    act(() => {
+      result.current.retry();
+    });
+    await waitFor(() => expect(result.current.ready).toBe(true));
+    expect(result.current.error).toBeNull();
+  });
+
+  it('reports a failed later load and clears the previous results', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    getPage
+      .mockResolvedValueOnce(page([summary(1, 'bulbasaur')]))
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce(page([summary(4, 'charmander')], 1));
+
+    const { result, rerender } = renderHook(props => usePokemonSearch(props), { initialProps: criteria('') });
+    await waitFor(() => expect(result.current.ready).toBe(true));
+
+    rerender(criteria('char'));
+    await waitFor(() => expect(result.current.error).toBeInstanceOf(Error));
+    expect(result.current).toMatchObject({ results: [], count: 0, ready: false, searching: false });
+
+    act(() => {
+      result.current.retry();
+    });
+    await waitFor(() => expect(result.current.ready).toBe(true));
+    expect(result.current.error).toBeNull();
+    expect(result.current.results.map(pokemon => pokemon.name)).toEqual(['charmander']);
+  });
+});
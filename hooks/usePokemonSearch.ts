@@ -0,0 +1,210 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getPokemonPage, pageOptionsToSearchParams, type PokemonPageOptions } from '../lib/explorerApi';
+import type { PokemonSummary } from '../lib/pokemonApi';
+
+export const SEARCH_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface PokemonSearchCriteria extends PokemonPageOptions {
+  /** Number of pages to load, starting at 1. */
+  pages: number;
+}
+
+export interface PokemonSearch {
+  results: PokemonSummary[];
+  /** Total matches on the server, loaded or not. */
+  count: number;
+  /** True once the results belong to the current query, filters and sort. */
+  ready: boolean;
+  loadedPages: number;
+  loading: boolean;
+  searching: boolean;
+  loadingMore: boolean;
+  loadMoreFailed: boolean;
+  /** Set when loading the list fails, until the next load starts. */
+  error: unknown;
+  retry: () => void;
+  retryLoadMore: () => void;
+}
+
+interface LoadedResults {
+  key: string;
+  pages: number;
+}
+
+// Fetches `count` results starting at `offset`, in chunks the API accepts.
+const fetchRange = async (offset: number, count: number, options: PokemonPageOptions, signal: AbortSignal) => {
+  const results: PokemonSummary[] = [];
+  let total = 0;
+
+  while (results.length < count) {
+    const page = await getPokemonPage(
+      offset + results.length,
+      Math.min(MAX_PAGE_SIZE, count - results.length),
+      options,
+      signal
+    );
+    total = page.count;
+    results.push(...page.results);
+    if (page.results.length === 0 || offset + results.length >= page.count) break;
+  }
+
+  return { count: total, results };
+};
+
+// Loads the paged result list for a query, filter set, sort order, locale and
+// form setting. Only one load runs at a time: a new query, more pages or fewer
+// pages abort the load in flight along with its requests, so a slow response
+// can never overwrite the results of a newer one. Going back to fewer pages
+// trims the list instead of refetching it.
+export const usePokemonSearch = ({ query, filters, sort, locale, forms, pages }: PokemonSearchCriteria): PokemonSearch => {
+  const key = pageOptionsToSearchParams({ query, filters, sort, locale, forms }).toString();
+
+  const [results, setResults] = useState<PokemonSummary[]>([]);
+  const [count, setCount] = useState(0);
+  const [loaded, setLoaded] = useState<LoadedResults | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const loadedRef = useRef<LoadedResults | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const criteriaRef = useRef({ key, options: { query, filters, sort, locale, forms }, pages });
+  criteriaRef.current = { key, options: { query, filters, sort, locale, forms }, pages };
+
+  const markLoaded = useCallback((next: LoadedResults) => {
+    loadedRef.current = next;
+    setLoaded(next);
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setSearching(false);
+    setLoadingMore(false);
+  }, []);
+
+  const start = useCallback(() => {
+    cancel();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller;
+  }, [cancel]);
+
+  const finish = useCallback((controller: AbortController) => {
+    if (controllerRef.current !== controller) return;
+    controllerRef.current = null;
+    setLoading(false);
+    setSearching(false);
+    setLoadingMore(false);
+  }, []);
+
+  const loadList = useCallback(async () => {
+    const { key, options, pages } = criteriaRef.current;
+    const initial = loadedRef.current === null;
+    const controller = start();
+
+    try {
+      setLoading(initial);
+      setSearching(!initial);
+      setError(null);
+
+      const page = await fetchRange(0, pages * SEARCH_PAGE_SIZE, options, controller.signal);
+      if (controller.signal.aborted) return;
+
+      setCount(page.count);
+      setResults(page.results);
+      setLoadMoreFailed(false);
+      markLoaded({ key, pages });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Failed to load Pokemon:', err);
+      // The previous results belong to other criteria, so nothing is left to
+      // show or to load more of.
+      setResults([]);
+      setCount(0);
+      setLoadMoreFailed(false);
+      setError(err);
+    } finally {
+      finish(controller);
+    }
+  }, [start, finish, markLoaded]);
+
+  const loadPages = useCallback(async (fromPage: number) => {
+    const { key, options, pages } = criteriaRef.current;
+    const controller = start();
+
+    try {
+      setLoadingMore(true);
+      setLoadMoreFailed(false);
+
+      const page = await fetchRange(
+        fromPage * SEARCH_PAGE_SIZE,
+        (pages - fromPage) * SEARCH_PAGE_SIZE,
+        options,
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+
+      setCount(page.count);
+      setResults(prev => [...prev.slice(0, fromPage * SEARCH_PAGE_SIZE), ...page.results]);
+      markLoaded({ key, pages });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Failed to load more Pokemon:', err);
+      // Stop the automatic loading until the user retries.
+      setLoadMoreFailed(true);
+    } finally {
+      finish(controller);
+    }
+  }, [start, finish, markLoaded]);
+
+  useEffect(() => {
+    const current = loadedRef.current;
+
+    if (current?.key !== key) {
+      loadList();
+      return;
+    }
+
+    if (pages > current.pages) {
+      loadPages(current.pages);
+      return;
+    }
+
+    // Back to the loaded list, or to fewer pages: whatever is still loading
+    // is no longer wanted, and extra pages are dropped instead of refetched.
+    cancel();
+    if (pages < current.pages) {
+      setResults(prev => prev.slice(0, pages * SEARCH_PAGE_SIZE));
+      markLoaded({ key, pages });
+    }
+  }, [key, pages, loadList, loadPages, cancel, markLoaded]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const retryLoadMore = useCallback(() => {
+    const current = loadedRef.current;
+    if (current?.key === criteriaRef.current.key) loadPages(current.pages);
+  }, [loadPages]);
+
+  const ready = loaded?.key === key;
+
+  return {
+    results,
+    count,
+    ready,
+    loadedPages: ready ? loaded.pages : 0,
+    loading,
+    searching,
+    loadingMore,
+    loadMoreFailed,
+    error,
+    retry: loadList,
+    retryLoadMore,
+  };
+};
@@ -0,0 +1,21 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  addRecentSearch,
+  addRecentView,
+  clearRecentHistory,
+  getRecentHistory,
+  getServerRecentHistory,
+  subscribeRecentHistory,
+} from '../lib/recentHistory';
+
+export const useRecentHistory = () => {
+  const history = useSyncExternalStore(subscribeRecentHistory, getRecentHistory, getServerRecentHistory);
+  return {
+    ...history,
+    addSearch: addRecentSearch,
+    addView: addRecentView,
+    clear: clearRecentHistory,
+  };
+};
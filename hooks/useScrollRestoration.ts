@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+const storageKey = (key: string) => `pokemon-explorer.scroll:${key}`;
+
+// Remembers the window scroll position per key in sessionStorage and restores
+// it once the content for that key is ready, so async lists land where the
+// user left them after Back or a refresh.
+export const useScrollRestoration = (key: string, ready: boolean) => {
+  const restoredKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const save = () => {
+      try {
+        window.sessionStorage.setItem(storageKey(key), String(Math.round(window.scrollY)));
+      } catch {
+        // Storage can be unavailable (private mode); restoring is best effort.
+      }
+    };
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(save);
+    };
+
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', onScroll);
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!ready || restoredKeyRef.current === key) return;
+    restoredKeyRef.current = key;
+
+    let saved = 0;
+    try {
+      saved = Number(window.sessionStorage.getItem(storageKey(key))) || 0;
+    } catch {
+      return;
+    }
+    if (saved > 0) requestAnimationFrame(() => window.scrollTo(0, saved));
+  }, [key, ready]);
+};
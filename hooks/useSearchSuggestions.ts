@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useDebouncedValue } from './useDebouncedValue';
+import { getSearchResults } from '../lib/explorerApi';
+import { isAbortError } from '../lib/errors';
+import type { Locale } from '../lib/i18n';
+import type { PokemonSummary } from '../lib/pokemonApi';
+
+export const SUGGESTION_LIMIT = 6;
+const SUGGESTION_DEBOUNCE_MS = 150;
+
+interface SearchSuggestions {
+  suggestions: PokemonSummary[];
+  /** The query the suggestions belong to; lags behind typing. */
+  query: string;
+}
+
+// Top matches for the search dropdown. Each new query aborts the request in
+// flight; failures just leave the dropdown empty, since the grid below shows
+// the same search with its own error handling.
+export const useSearchSuggestions = (input: string, locale: Locale): SearchSuggestions => {
+  const query = useDebouncedValue(input.trim(), SUGGESTION_DEBOUNCE_MS);
+  const [loaded, setLoaded] = useState<SearchSuggestions>({ suggestions: [], query: '' });
+
+  useEffect(() => {
+    if (!query) {
+      setLoaded({ suggestions: [], query: '' });
+      return;
+    }
+
+    const controller = new AbortController();
+    getSearchResults(query, SUGGESTION_LIMIT, controller.signal, locale)
+      .then((suggestions) => setLoaded({ suggestions, query }))
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error('Error loading search suggestions:', err);
+        setLoaded({ suggestions: [], query });
+      });
+    return () => controller.abort();
+  }, [query, locale]);
+
+  return loaded;
+};
@@ -0,0 +1,9 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getActiveTeam, getServerTeamState, getTeamState, subscribeTeams } from '../lib/teamStorage';
+
+export const useTeams = () => {
+  const state = useSyncExternalStore(subscribeTeams, getTeamState, getServerTeamState);
+  return { ...state, activeTeam: getActiveTeam(state) };
+};
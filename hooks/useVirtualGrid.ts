@@ -0,0 +1,96 @@
+'use client';
+
+import { RefObject, useLayoutEffect, useState } from 'react';
+
+interface VirtualGridOptions {
+  count: number;
+  /** Row height used until the first row has been measured. */
+  estimateRowHeight: number;
+  overscanRows?: number;
+}
+
+interface GridWindow {
+  columns: number;
+  rowHeight: number;
+  startRow: number;
+  endRow: number;
+}
+
+export interface VirtualGridRange {
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+const INITIAL_ROWS = 4;
+
+// Windows a CSS grid against the page scroll: only rows near the viewport are
+// mounted and the skipped rows are replaced by padding. The column count is
+// read from the rendered grid, so it follows the responsive grid classes, and
+// the row height is measured from a mounted item.
+export const useVirtualGrid = (
+  gridRef: RefObject<HTMLElement | null>,
+  { count, estimateRowHeight, overscanRows = 3 }: VirtualGridOptions
+): VirtualGridRange => {
+  const [grid, setGrid] = useState<GridWindow>({
+    columns: 1,
+    rowHeight: estimateRowHeight,
+    startRow: 0,
+    endRow: INITIAL_ROWS,
+  });
+
+  useLayoutEffect(() => {
+    const compute = () => {
+      const element = gridRef.current;
+      if (!element) return;
+
+      const style = window.getComputedStyle(element);
+      const columns = Math.max(1, style.gridTemplateColumns.split(' ').filter(Boolean).length);
+      const rowGap = parseFloat(style.rowGap) || 0;
+      const firstItem = element.firstElementChild as HTMLElement | null;
+
+      setGrid(prev => {
+        const rowHeight = firstItem?.offsetHeight ? firstItem.offsetHeight + rowGap : prev.rowHeight;
+        const rows = Math.ceil(count / columns);
+        const top = element.getBoundingClientRect().top;
+        const startRow = Math.min(rows, Math.max(0, Math.floor(-top / rowHeight) - overscanRows));
+        const endRow = Math.min(rows, Math.max(0, Math.ceil((window.innerHeight - top) / rowHeight) + overscanRows));
+
+        const unchanged =
+          prev.columns === columns && prev.rowHeight === rowHeight && prev.startRow === startRow && prev.endRow === endRow;
+        return unchanged ? prev : { columns, rowHeight, startRow, endRow };
+      });
+    };
+
+    let frame = 0;
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(compute);
+    };
+
+    compute();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    const observer = new ResizeObserver(schedule);
+    if (gridRef.current) observer.observe(gridRef.current);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      observer.disconnect();
+    };
+  }, [gridRef, count, overscanRows]);
+
+  const rows = Math.ceil(count / grid.columns);
+  const startRow = Math.min(grid.startRow, rows);
+  const endRow = Math.min(Math.max(grid.endRow, startRow), rows);
+
+  return {
+    start: startRow * grid.columns,
+    end: Math.min(count, endRow * grid.columns),
+    paddingTop: startRow * grid.rowHeight,
+    paddingBottom: (rows - endRow) * grid.rowHeight,
+  };
+};
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LRUCache, TieredCache, setPersistentStore, type CacheEntry, type PersistentStore } from './cache';
+
+describe('LRUCache', () => {
+  it('evicts the least recently used entry when full', () => {
+    const cache = new LRUCache<number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(false);
+    expect([...cache.values()]).toEqual([2, 3]);
+  });
+
+  it('counts a read as a use', () => {
+    const cache = new LRUCache<number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+  });
+
+  it('refreshes an entry that is written again without evicting', () => {
+    const cache = new LRUCache<number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+    cache.set('c', 3);
+
+    expect(cache.size()).toBe(2);
+    expect(cache.get('a')).toBe(10);
+    expect(cache.has('b')).toBe(false);
+  });
+});
+
+const createMapStore = (entries = new Map<string, CacheEntry<unknown>>()): PersistentStore => ({
+  kind: 'file',
+  get: async <T,>(key: string) => entries.get(key) as CacheEntry<T> | undefined,
+  set: async (key, entry) => {
+    entries.set(key, entry);
+  },
+  delete: async key => {
+    entries.delete(key);
+  },
+  prune: async now => {
+    const discarded = [...entries].filter(([, entry]) => entry.discardAt <= now);
+    discarded.forEach(([key]) => entries.delete(key));
+    return discarded.length;
+  },
+  clear: async () => entries.clear(),
+});
+
+describe('TieredCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    setPersistentStore(null);
+    vi.useRealTimers();
+  });
+
+  it('serves expired entries as stale until maxStale has passed', async () => {
+    const cache = new TieredCache<string>(10, { ttl: 1000, maxStale: 5000 });
+    cache.write('key', 'value');
+
+    expect(await cache.read('key')).toEqual({ value: 'value', stale: false });
+
+    vi.advanceTimersByTime(2000);
+    expect(await cache.read('key')).toEqual({ value: 'value', stale: true });
+
+    vi.advanceTimersByTime(5000);
+    expect(await cache.read('key')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ memoryHits: 2, staleHits: 1, misses: 1 });
+  });
+
+  it('prunes discarded entries from the persistent store when they are read', async () => {
+    const entries = new Map<string, CacheEntry<unknown>>();
+    setPersistentStore(createMapStore(entries));
+    const cache = new TieredCache<string>(10, { ttl: 1000, maxStale: 5000 });
+    cache.write('key', 'value');
+    await vi.runAllTimersAsync();
+
+    vi.advanceTimersByTime(6000);
+    cache.clear();
+    expect(await cache.read('key')).toBeUndefined();
+    await vi.runAllTimersAsync();
+
+    expect(entries.has('key')).toBe(false);
+    expect(cache.stats().pruned).toBe(1);
+  });
+
+  it('prunes discarded entries when a store is installed', async () => {
+    const now = Date.now();
+    const entries = new Map<string, CacheEntry<unknown>>([
+      ['old', { value: 1, storedAt: now - 10, expiresAt: now - 5, discardAt: now - 1 }],
+      ['fresh', { value: 2, storedAt: now, expiresAt: now + 5, discardAt: now + 10 }],
+    ]);
+    setPersistentStore(createMapStore(entries));
+    await vi.runAllTimersAsync();
+
+    expect([...entries.keys()]).toEqual(['fresh']);
+  });
+
+  it('reports entry ages for each tier', async () => {
+    setPersistentStore(createMapStore());
+    const cache = new TieredCache<string>(1, { ttl: 10000, maxStale: 0 });
+    cache.write('a', 'first');
+    await vi.runAllTimersAsync();
+    vi.advanceTimersByTime(3000);
+    cache.write('b', 'second');
+    await vi.runAllTimersAsync();
+    vi.advanceTimersByTime(1000);
+
+    expect(cache.stats()).toMatchObject({
+      memory: { entries: 1, oldestAgeMs: 1000, newestAgeMs: 1000 },
+      persistent: { entries: 2, oldestAgeMs: 4000, newestAgeMs: 1000 },
+    });
+
+    vi.advanceTimersByTime(7000);
+    expect(cache.stats().persistent).toEqual({ entries: 1, oldestAgeMs: 8000, newestAgeMs: 8000 });
+  });
+});
@@ -0,0 +1,310 @@
+// --------------------
+// Generic LRU Cache
+// --------------------
+export class LRUCache<T> {
+  private cache = new Map<string, T>();
+  private maxSize: number;
+
+  constructor(maxSize: number = 500) {
+    this.maxSize = maxSize;
+  }
+
+  get(key: string): T | undefined {
+    const value = this.cache.get(key);
+    if (value !== undefined) {
+      this.cache.delete(key);
+      this.cache.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: T): void {
+    if (this.cache.has(key)) {
+      this.cache.delete(key);
+    } else if (this.cache.size >= this.maxSize) {
+      const firstKey = this.cache.keys().next().value;
+      if (typeof firstKey === 'string') {
+        this.cache.delete(firstKey);
+      }
+    }
+    this.cache.set(key, value);
+  }
+
+  has(key: string): boolean {
+    return this.cache.has(key);
+  }
+
+  delete(key: string): void {
+    this.cache.delete(key);
+  }
+
+  values(): IterableIterator<T> {
+    return this.cache.values();
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  size(): number {
+    return this.cache.size;
+  }
+}
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+  /** End of the stale window; past it the entry is never served again. */
+  discardAt: number;
+}
+
+/** Second cache tier that survives reloads: IndexedDB in the browser, files on the server. */
+export interface PersistentStore {
+  readonly kind: 'indexeddb' | 'file' | 'none';
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Removes the entries discarded by `now`; resolves to how many were removed. */
+  prune(now: number): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export interface CachePolicy {
+  /** How long an entry is served without revalidating. */
+  ttl: number;
+  /** How long past `ttl` a stale entry may still be served while it revalidates. */
+  maxStale: number;
+}
+
+export interface CacheReadResult<T> {
+  value: T;
+  stale: boolean;
+}
+
+export interface AgeStats {
+  entries: number;
+  oldestAgeMs: number | null;
+  newestAgeMs: number | null;
+}
+
+export interface TierStats {
+  size: number;
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  staleHits: number;
+  /** Discarded entries removed from the persistent tier when read. */
+  pruned: number;
+  memory: AgeStats;
+  /** Entries this process has written to or loaded from the persistent tier. */
+  persistent: AgeStats;
+}
+
+// Entries written before `discardAt` existed are dropped once they expire.
+export const isDiscarded = (entry: CacheEntry<unknown>, now: number): boolean =>
+  now >= (entry.discardAt ?? entry.expiresAt);
+
+const ageStats = (storedAt: Iterable<number>, now: number): AgeStats => {
+  let entries = 0;
+  let oldest: number | null = null;
+  let newest: number | null = null;
+
+  for (const time of storedAt) {
+    const age = now - time;
+    entries++;
+    oldest = oldest === null ? age : Math.max(oldest, age);
+    newest = newest === null ? age : Math.min(newest, age);
+  }
+
+  return { entries, oldestAgeMs: oldest, newestAgeMs: newest };
+};
+
+// --------------------
+// Persistent Stores
+// --------------------
+const noopStore: PersistentStore = {
+  kind: 'none',
+  get: async () => undefined,
+  set: async () => undefined,
+  delete: async () => undefined,
+  prune: async () => 0,
+  clear: async () => undefined,
+};
+
+export const createIndexedDbStore = (
+  dbName: string = 'pokemon-explorer',
+  storeName: string = 'cache'
+): PersistentStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <R,>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    kind: 'indexeddb',
+    get: key => run('readonly', store => store.get(key)),
+    set: async (key, entry) => {
+      await run('readwrite', store => store.put(entry, key));
+    },
+    delete: async key => {
+      await run('readwrite', store => store.delete(key));
+    },
+    prune: async now => {
+      const db = await openDb();
+      return new Promise((resolve, reject) => {
+        let removed = 0;
+        const request = db.transaction(storeName, 'readwrite').objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return resolve(removed);
+          if (isDiscarded(cursor.value, now)) {
+            cursor.delete();
+            removed++;
+          }
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    },
+    clear: async () => {
+      await run('readwrite', store => store.clear());
+    },
+  };
+};
+
+// Kept on globalThis so a store registered from `instrumentation.ts` is seen by
+// every server bundle, not just the one that registered it.
+const STORE_KEY = Symbol.for('pokemon-explorer.persistentStore');
+type StoreHolder = { [STORE_KEY]?: PersistentStore };
+
+// Entries are also pruned as they are read, but ones that are never asked
+// for again would stay forever; a newly installed store drops them up front.
+const pruneOnStartup = (store: PersistentStore): PersistentStore => {
+  store.prune(Date.now()).catch(err => console.error('Error pruning cache:', err));
+  return store;
+};
+
+export const getPersistentStore = (): PersistentStore => {
+  const holder = globalThis as StoreHolder;
+  if (!holder[STORE_KEY] && typeof indexedDB !== 'undefined') {
+    holder[STORE_KEY] = pruneOnStartup(createIndexedDbStore());
+  }
+  return holder[STORE_KEY] ?? noopStore;
+};
+
+export const setPersistentStore = (store: PersistentStore | null): void => {
+  (globalThis as StoreHolder)[STORE_KEY] = store ? pruneOnStartup(store) : undefined;
+};
+
+// --------------------
+// Tiered Cache
+// --------------------
+export class TieredCache<T> {
+  private memory: LRUCache<CacheEntry<T>>;
+  private policy: CachePolicy;
+  private counters = { memoryHits: 0, persistentHits: 0, misses: 0, staleHits: 0, pruned: 0 };
+  // Entries known to be in the persistent tier, by key.
+  private persisted = new Map<string, Pick<CacheEntry<T>, 'storedAt' | 'discardAt'>>();
+
+  constructor(maxSize: number, policy: CachePolicy) {
+    this.memory = new LRUCache<CacheEntry<T>>(maxSize);
+    this.policy = policy;
+  }
+
+  async read(key: string): Promise<CacheReadResult<T> | undefined> {
+    const now = Date.now();
+    const cached = this.memory.get(key);
+
+    if (cached && !isDiscarded(cached, now)) {
+      this.counters.memoryHits++;
+      return this.toResult(cached, now);
+    }
+
+    const stored = await getPersistentStore().get<T>(key).catch(() => undefined);
+    if (stored && !isDiscarded(stored, now)) {
+      this.memory.set(key, stored);
+      this.persisted.set(key, { storedAt: stored.storedAt, discardAt: stored.discardAt });
+      this.counters.persistentHits++;
+      return this.toResult(stored, now);
+    }
+
+    if (stored) {
+      this.counters.pruned++;
+      getPersistentStore()
+        .delete(key)
+        .catch(err => console.error('Error pruning cache entry:', err));
+    }
+    this.persisted.delete(key);
+    this.memory.delete(key);
+    this.counters.misses++;
+    return undefined;
+  }
+
+  write(key: string, value: T, ttl: number = this.policy.ttl): void {
+    const storedAt = Date.now();
+    const expiresAt = storedAt + ttl;
+    const entry: CacheEntry<T> = { value, storedAt, expiresAt, discardAt: expiresAt + this.policy.maxStale };
+    this.memory.set(key, entry);
+    getPersistentStore()
+      .set(key, entry)
+      .then(() => this.persisted.set(key, { storedAt, discardAt: entry.discardAt }))
+      .catch(err => console.error('Error persisting cache entry:', err));
+  }
+
+  clear(): void {
+    this.memory.clear();
+    this.persisted.clear();
+    this.counters = { memoryHits: 0, persistentHits: 0, misses: 0, staleHits: 0, pruned: 0 };
+  }
+
+  size(): number {
+    return this.memory.size();
+  }
+
+  stats(): TierStats {
+    const now = Date.now();
+    // Discarded entries are only deleted on their next read, but they no
+    // longer count as part of the tier.
+    for (const [key, entry] of this.persisted) {
+      if (now >= entry.discardAt) this.persisted.delete(key);
+    }
+
+    return {
+      size: this.memory.size(),
+      ...this.counters,
+      memory: ageStats(Array.from(this.memory.values(), entry => entry.storedAt), now),
+      persistent: ageStats(Array.from(this.persisted.values(), entry => entry.storedAt), now),
+    };
+  }
+
+  private toResult(entry: CacheEntry<T>, now: number): CacheReadResult<T> {
+    const stale = now >= entry.expiresAt;
+    if (stale) this.counters.staleHits++;
+    return { value: entry.value, stale };
+  }
+}
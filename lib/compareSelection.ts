@@ -0,0 +1,89 @@
+// Pokémon picked for `/compare`, kept in localStorage so picks survive
+// navigation between the list and detail pages.
+
+// --------------------
+// Definitions
+// --------------------
+export const MAX_COMPARE = 4;
+export const MIN_COMPARE = 2;
+
+const STORAGE_KEY = 'pokemon-explorer.compare';
+const EMPTY: number[] = [];
+
+const listeners = new Set<() => void>();
+let cachedRaw: string | null = null;
+let cachedIds: number[] = EMPTY;
+
+// --------------------
+// Parsing
+// --------------------
+// Accepts "3,6,9"; drops duplicates and anything that is not a positive id.
+export const parseCompareIds = (value: string | null | undefined): number[] => {
+  const ids = (value ?? '')
+    .split(',')
+    .map(part => Number(part.trim()))
+    .filter(id => Number.isInteger(id) && id > 0);
+  return [...new Set(ids)].slice(0, MAX_COMPARE);
+};
+
+export const compareHref = (ids: number[]): string => `/compare?ids=${ids.join(',')}`;
+
+// --------------------
+// Store
+// --------------------
+const readStorage = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const getCompareSelection = (): number[] => {
+  if (typeof window === 'undefined') return EMPTY;
+
+  const raw = readStorage();
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedIds = parseCompareIds(raw);
+  }
+  return cachedIds;
+};
+
+export const getServerCompareSelection = (): number[] => EMPTY;
+
+const writeSelection = (ids: number[]): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, ids.join(','));
+  } catch (err) {
+    console.error('Error saving compare selection:', err);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Returns false when the selection is already full.
+export const toggleCompare = (id: number): boolean => {
+  const current = getCompareSelection();
+  if (current.includes(id)) {
+    writeSelection(current.filter(existing => existing !== id));
+    return true;
+  }
+  if (current.length >= MAX_COMPARE) return false;
+  writeSelection([...current, id]);
+  return true;
+};
+
+export const clearCompare = (): void => writeSelection([]);
+
+export const subscribeCompare = (listener: () => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
@@ -0,0 +1,170 @@
+import axios from 'axios';
+import { abortReason, NotFoundError, toPokemonApiError } from './errors';
+import { RequestScheduler, type RequestPriority, type SchedulerOptions } from './requestScheduler';
+
+export const POKEAPI_BASE_URL = 'https://pokeapi.co/api/v2';
+const DEFAULT_FIXTURE_BASE_URL = '/fixtures';
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export type DataSourceKind = 'pokeapi' | 'fixtures';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+}
+
+/**
+ * Backend the data layer reads from. Paths are PokeAPI paths relative to the
+ * API root (`/pokemon/25`, `/pokemon?limit=20`) or absolute PokeAPI URLs as
+ * found in list results. Failures are rejected with a `PokemonApiError`;
+ * aborted requests reject with the signal's abort error instead.
+ */
+export interface PokemonDataSource {
+  readonly kind: DataSourceKind;
+  /** Queue that remote requests go through; null for local data. */
+  readonly scheduler: RequestScheduler | null;
+  get<T>(path: string, options?: RequestOptions): Promise<T>;
+}
+
+export type FixtureLoader = (file: string, options?: RequestOptions) => Promise<unknown>;
+
+// --------------------
+// PokeAPI Source
+// --------------------
+// Shared by every request to PokeAPI from this process, so prefetching and
+// index building can't crowd out what the user is waiting for.
+const POKEAPI_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 8,
+  ratePerSecond: 20,
+  burst: 40,
+};
+
+export const createPokeApiSource = (
+  baseURL: string = POKEAPI_BASE_URL,
+  scheduler: RequestScheduler = new RequestScheduler(POKEAPI_SCHEDULER_OPTIONS)
+): PokemonDataSource => {
+  const apiClient = axios.create({
+    baseURL,
+    timeout: 10000,
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    },
+  });
+
+  // Retries for 429 and 5xx answers are left to the scheduler, which also
+  // holds back the other queued requests while PokeAPI is rate limiting.
+  return {
+    kind: 'pokeapi',
+    scheduler,
+    get: <T,>(path: string, { signal, priority }: RequestOptions = {}) =>
+      scheduler.schedule(
+        async requestSignal => {
+          try {
+            const { data } = await apiClient.get<T>(path, { signal: requestSignal });
+            return data;
+          } catch (err) {
+            if (requestSignal?.aborted) throw abortReason(requestSignal);
+            throw toPokemonApiError(err, path);
+          }
+        },
+        { priority, signal }
+      ),
+  };
+};
+
+// --------------------
+// Fixture Source
+// --------------------
+// Fixtures mirror PokeAPI responses verbatim and live under
+// `public/fixtures/<resource>/<id>.json`, with `<resource>/index.json`
+// holding the named resource list used for paging and name lookups.
+export const createHttpFixtureLoader = (baseURL: string = DEFAULT_FIXTURE_BASE_URL): FixtureLoader => {
+  const fixtureClient = axios.create({ baseURL, timeout: 10000 });
+  return async (file, { signal } = {}) => {
+    const { data } = await fixtureClient.get(`/${file}`, { signal });
+    return data;
+  };
+};
+
+interface FixtureIndex {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: Array<{ name: string; url: string }>;
+}
+
+const toApiPath = (path: string): string => {
+  const absolute = path.match(/^https?:\/\/[^/]+\/api\/v2(\/.*)$/);
+  return absolute ? absolute[1] : path;
+};
+
+export const createFixtureSource = (
+  load: FixtureLoader = createHttpFixtureLoader()
+): PokemonDataSource => {
+  const loadIndex = (resource: string, options?: RequestOptions) =>
+    load(`${resource}/index.json`, options) as Promise<FixtureIndex>;
+
+  const resolveId = async (resource: string, key: string, options?: RequestOptions): Promise<string> => {
+    if (/^\d+$/.test(key)) return key;
+
+    const index = await loadIndex(resource, options);
+    const entry = index.results.find(item => item.name === key);
+    const id = entry?.url.match(/\/(\d+)\/?$/)?.[1];
+    if (!id) throw new NotFoundError(`${resource}/${key}`);
+    return id;
+  };
+
+  return {
+    kind: 'fixtures',
+    scheduler: null,
+    get: async <T,>(path: string, options: RequestOptions = {}) => {
+      const url = new URL(toApiPath(path), 'http://fixtures.local');
+      const [resource, key] = url.pathname.split('/').filter(Boolean);
+
+      if (!resource) throw new NotFoundError(path);
+
+      try {
+        if (!key) {
+          const index = await loadIndex(resource, options);
+          const offset = Number(url.searchParams.get('offset') ?? 0);
+          const limit = Number(url.searchParams.get('limit') ?? 20);
+          return { ...index, results: index.results.slice(offset, offset + limit) } as T;
+        }
+
+        const id = await resolveId(resource, key.toLowerCase(), options);
+        return (await load(`${resource}/${id}.json`, options)) as T;
+      } catch (err) {
+        if (options.signal?.aborted) throw abortReason(options.signal);
+        throw toPokemonApiError(err, path);
+      }
+    },
+  };
+};
+
+// --------------------
+// Source Selection
+// --------------------
+// Held on globalThis for the same reason as the persistent cache store: the
+// server swaps in a filesystem fixture loader from `instrumentation.ts`.
+const SOURCE_KEY = Symbol.for('pokemon-explorer.dataSource');
+type SourceHolder = { [SOURCE_KEY]?: PokemonDataSource };
+
+export const resolveDataSourceKind = (): DataSourceKind =>
+  process.env.NEXT_PUBLIC_POKEMON_DATA_SOURCE === 'fixtures' ? 'fixtures' : 'pokeapi';
+
+export const getDataSource = (): PokemonDataSource => {
+  const holder = globalThis as SourceHolder;
+  if (!holder[SOURCE_KEY]) {
+    holder[SOURCE_KEY] = resolveDataSourceKind() === 'fixtures'
+      ? createFixtureSource(createHttpFixtureLoader(process.env.NEXT_PUBLIC_FIXTURE_BASE_URL))
+      : createPokeApiSource();
+  }
+  return holder[SOURCE_KEY];
+};
+
+export const setDataSource = (source: PokemonDataSource | null): void => {
+  (globalThis as SourceHolder)[SOURCE_KEY] = source ?? undefined;
+};
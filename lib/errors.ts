@@ -0,0 +1,164 @@
+import { isAxiosError, isCancel } from 'axios';
+
+// Errors raised by the data layer. The data sources translate transport
+// failures into these, and payloads that don't match the expected shape are
+// rejected with InvalidPayloadError, so callers can branch on the class
+// instead of inspecting axios or filesystem errors.
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export type PokemonApiErrorKind = 'not-found' | 'network' | 'rate-limited' | 'invalid-payload' | 'index-pending';
+
+interface PokemonApiErrorOptions {
+  status?: number;
+  cause?: unknown;
+}
+
+// --------------------
+// Error Classes
+// --------------------
+// On the server the data source is created from `instrumentation.ts`, which is
+// bundled apart from the routes, so an error may come from another copy of
+// this module. `instanceof` therefore checks a global brand and the kind
+// rather than the prototype chain.
+const ERROR_BRAND: unique symbol = Symbol.for('pokemon-explorer.apiError');
+
+export abstract class PokemonApiError extends Error {
+  /** Kind matched by `instanceof`; null matches every kind. */
+  static readonly errorKind: PokemonApiErrorKind | null = null;
+  abstract readonly kind: PokemonApiErrorKind;
+  readonly status: number | null;
+  readonly [ERROR_BRAND] = true;
+
+  static [Symbol.hasInstance](value: unknown): boolean {
+    if (typeof value !== 'object' || value === null || !(ERROR_BRAND in value)) return false;
+    return this.errorKind === null || (value as PokemonApiError).kind === this.errorKind;
+  }
+
+  constructor(message: string, { status, cause }: PokemonApiErrorOptions = {}) {
+    super(message, { cause });
+    this.status = status ?? null;
+  }
+}
+
+export class NotFoundError extends PokemonApiError {
+  static readonly errorKind = 'not-found';
+  readonly kind = NotFoundError.errorKind;
+
+  constructor(resource: string, options?: PokemonApiErrorOptions) {
+    super(`Not found: ${resource}`, { status: 404, ...options });
+    this.name = 'NotFoundError';
+  }
+}
+
+// The server could not be reached, timed out, or answered with a server error.
+export class NetworkError extends PokemonApiError {
+  static readonly errorKind = 'network';
+  readonly kind = NetworkError.errorKind;
+
+  constructor(message: string, options?: PokemonApiErrorOptions) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class RateLimitError extends PokemonApiError {
+  static readonly errorKind = 'rate-limited';
+  readonly kind = RateLimitError.errorKind;
+  /** Seconds to wait before retrying, when the server said so. */
+  readonly retryAfter: number | null;
+
+  constructor(retryAfter: number | null, options?: PokemonApiErrorOptions) {
+    super('Too many requests', { status: 429, ...options });
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class InvalidPayloadError extends PokemonApiError {
+  static readonly errorKind = 'invalid-payload';
+  readonly kind = InvalidPayloadError.errorKind;
+  /** Where in the payload validation failed, e.g. `pokemon/25.sprites.other`. */
+  readonly path: string;
+
+  constructor(path: string, expected: string, options?: PokemonApiErrorOptions) {
+    super(`Invalid payload at ${path}: expected ${expected}`, options);
+    this.name = 'InvalidPayloadError';
+    this.path = path;
+  }
+}
+
+// An index built from every Pokémon (filter attributes, localized names...)
+// is still loading; the request can be repeated once it is ready.
+export class IndexPendingError extends PokemonApiError {
+  static readonly errorKind = 'index-pending';
+  readonly kind = IndexPendingError.errorKind;
+  /** Seconds to wait before retrying. */
+  readonly retryAfter: number | null;
+
+  constructor(index: string, retryAfter: number | null, options?: PokemonApiErrorOptions) {
+    super(`The ${index} index is still being built`, { status: 503, ...options });
+    this.name = 'IndexPendingError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// --------------------
+// Conversion
+// --------------------
+// Cancelled requests are not failures: they pass through untouched and
+// callers drop them instead of showing an error.
+export const isAbortError = (err: unknown): boolean =>
+  isCancel(err) || (err instanceof Error && err.name === 'AbortError');
+
+export const abortReason = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+export const isPokemonApiError = (err: unknown): err is PokemonApiError => err instanceof PokemonApiError;
+
+// Retry-After is either a number of seconds or an HTTP date.
+export const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+// Short explanation for the user; `fallback` covers errors without a more
+// specific message. Not-found is left to the caller, which knows what was missing.
+export const describeError = (err: unknown, fallback: string): string => {
+  if (err instanceof RateLimitError) {
+    return `Too many requests right now. Try again ${err.retryAfter ? `in ${err.retryAfter}s` : 'in a moment'}.`;
+  }
+  if (err instanceof NetworkError) return "Couldn't reach the Pokémon service. Check your connection and try again.";
+  if (err instanceof InvalidPayloadError) return 'The Pokémon service sent data that could not be read.';
+  if (err instanceof IndexPendingError) {
+    return `Still preparing the Pokémon index. Try again ${err.retryAfter ? `in ${err.retryAfter}s` : 'in a moment'}.`;
+  }
+  return fallback;
+};
+
+// Maps whatever a request threw onto the error hierarchy. `resource` names
+// the thing being fetched and ends up in not-found messages.
+export const toPokemonApiError = (err: unknown, resource: string): PokemonApiError => {
+  if (isPokemonApiError(err)) return err;
+
+  if (isAxiosError(err)) {
+    const status = err.response?.status;
+    if (status === 404) return new NotFoundError(resource, { cause: err });
+    if (status === 429) {
+      return new RateLimitError(parseRetryAfter(err.response?.headers?.['retry-after']), { cause: err });
+    }
+    return new NetworkError(status ? `Request for ${resource} failed with status ${status}` : err.message, {
+      status,
+      cause: err,
+    });
+  }
+
+  if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') return new NotFoundError(resource, { cause: err });
+  if (err instanceof SyntaxError) return new InvalidPayloadError(resource, 'JSON', { cause: err });
+
+  return new NetworkError(err instanceof Error ? err.message : `Request for ${resource} failed`, { cause: err });
+};
@@ -0,0 +1,166 @@
+import axios, { isAxiosError, type AxiosRequestConfig } from 'axios';
+import type { FormattedPokemon } from '../types/pokemon';
+import type { EvolutionNode, FormattedSpecies } from '../types/species';
+import type { LearnedMove } from '../types/move';
+import type { PokemonSummary, getCacheStats } from './pokemonApi';
+import { EMPTY_FILTERS, filtersToSearchParams, type PokemonFilters } from './pokemonFilters';
+import { DEFAULT_SORT, sortToSearchParams, type PokemonSort } from './pokemonSort';
+import { DEFAULT_LOCALE, type Locale } from './i18n';
+import { IndexPendingError, InvalidPayloadError, isAbortError, parseRetryAfter, toPokemonApiError } from './errors';
+import { RequestScheduler, type RequestPriority } from './requestScheduler';
+import type { ErrorBody } from './server/http';
+
+// Browser-side client for the explorer's own `/api` routes. The routes wrap
+// `lib/pokemonApi` on the server, so PokeAPI is never called from the client.
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export interface PokemonPage {
+  count: number;
+  offset: number;
+  limit: number;
+  results: PokemonSummary[];
+}
+
+export interface PokemonPageOptions {
+  query?: string;
+  filters?: PokemonFilters;
+  sort?: PokemonSort;
+  /** Adds localized names to the results and searches them too. */
+  locale?: Locale;
+  /** Includes alternate forms (megas, regional forms...) after their species. */
+  forms?: boolean;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: PokemonSummary[];
+}
+
+export interface SpeciesResponse {
+  species: FormattedSpecies;
+  evolution: EvolutionNode | null;
+}
+
+export interface MovesResponse {
+  versionGroup: string | null;
+  versionGroups: string[];
+  moves: LearnedMove[];
+}
+
+export type CacheStats = ReturnType<typeof getCacheStats>;
+
+// --------------------
+// Axios Configuration
+// --------------------
+const apiClient = axios.create({
+  baseURL: '/api',
+  timeout: 15000,
+  headers: {
+    'Accept': 'application/json',
+  },
+});
+
+// Route errors carry a `code` (see `errorJson`), which is turned back into the
+// matching PokemonApiError so pages can branch on it. Cancelled requests are
+// passed through so callers can tell them apart from failures.
+apiClient.interceptors.response.use(
+  response => response,
+  error => {
+    if (isAbortError(error)) return Promise.reject(error);
+    const resource = error.config?.url ?? 'request';
+    if (isAxiosError<ErrorBody>(error) && error.response?.data?.code === 'invalid-payload') {
+      return Promise.reject(
+        new InvalidPayloadError(resource, 'a valid PokeAPI response', { status: error.response.status, cause: error })
+      );
+    }
+    if (isAxiosError<ErrorBody>(error) && error.response?.data?.code === 'index-pending') {
+      return Promise.reject(
+        new IndexPendingError('Pokémon', parseRetryAfter(error.response.headers['retry-after']), { cause: error })
+      );
+    }
+    return Promise.reject(toPokemonApiError(error, resource));
+  }
+);
+
+// The server already retries PokeAPI, so the browser only retries once; the
+// queue mainly keeps prefetches behind what is on screen, honours the
+// server's 429s and holds requests while the browser is offline.
+const scheduler = new RequestScheduler({ concurrency: 6, ratePerSecond: 20, burst: 20, maxRetries: 1 });
+
+interface ClientRequestOptions {
+  params?: AxiosRequestConfig['params'];
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+}
+
+const request = <T,>(url: string, { params, signal, priority }: ClientRequestOptions = {}): Promise<T> =>
+  scheduler.schedule(
+    async requestSignal => (await apiClient.get<T>(url, { params, signal: requestSignal })).data,
+    { priority, signal }
+  );
+
+// --------------------
+// API Functions
+// --------------------
+export const pageOptionsToSearchParams = ({
+  query = '',
+  filters = EMPTY_FILTERS,
+  sort = DEFAULT_SORT,
+  locale = DEFAULT_LOCALE,
+  forms = false,
+}: PokemonPageOptions = {}): URLSearchParams => {
+  const params = sortToSearchParams(sort, filtersToSearchParams(filters));
+  if (query.trim()) params.set('q', query.trim());
+  if (locale !== DEFAULT_LOCALE) params.set('lang', locale);
+  if (forms) params.set('forms', '1');
+  return params;
+};
+
+export const getPokemonPage = async (
+  offset: number,
+  limit: number,
+  options: PokemonPageOptions = {},
+  signal?: AbortSignal
+): Promise<PokemonPage> => {
+  const params = pageOptionsToSearchParams(options);
+  params.set('offset', String(offset));
+  params.set('limit', String(limit));
+
+  return request<PokemonPage>('/pokemon', { params, signal });
+};
+
+export const getPokemon = async (nameOrId: string | number, signal?: AbortSignal): Promise<FormattedPokemon> => {
+  return request<FormattedPokemon>(`/pokemon/${nameOrId}`, { signal });
+};
+
+export const getPokemonSpecies = async (nameOrId: string | number, signal?: AbortSignal): Promise<SpeciesResponse> => {
+  return request<SpeciesResponse>(`/pokemon/${nameOrId}/species`, { signal });
+};
+
+export const getPokemonMoves = async (
+  nameOrId: string | number,
+  versionGroup?: string,
+  signal?: AbortSignal
+): Promise<MovesResponse> => {
+  return request<MovesResponse>(`/pokemon/${nameOrId}/moves`, {
+    params: versionGroup ? { version: versionGroup } : undefined,
+    signal,
+  });
+};
+
+export const getSearchResults = async (
+  query: string,
+  limit: number = 20,
+  signal?: AbortSignal,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<PokemonSummary[]> => {
+  const params = { q: query, limit, ...(locale !== DEFAULT_LOCALE && { lang: locale }) };
+  const data = await request<SearchResponse>('/search', { params, signal });
+  return data.results;
+};
+
+export const getServerCacheStats = async (signal?: AbortSignal): Promise<CacheStats> => {
+  return request<CacheStats>('/cache', { signal, priority: 'background' });
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { FavoritesImportError, parseFavoritesFile } from './favorites';
+
+const file = (favorites: unknown, overrides: object = {}) =>
+  JSON.stringify({ format: 'pokemon-explorer-favorites', version: 1, exportedAt: '', favorites, ...overrides });
+
+describe('parseFavoritesFile', () => {
+  it('cleans up entries and drops duplicates', () => {
+    const entries = parseFavoritesFile(
+      file([
+        { id: 25, name: 'pikachu', image: 7, types: ['electric', null], addedAt: 100 },
+        { id: 25, name: 'pikachu', addedAt: 200 },
+      ])
+    );
+
+    expect(entries).toEqual([{ id: 25, name: 'pikachu', image: null, types: ['electric'], addedAt: 100 }]);
+  });
+
+  it('rejects files that are not favorites exports', () => {
+    expect(() => parseFavoritesFile('{')).toThrow('The file is not valid JSON.');
+    expect(() => parseFavoritesFile('null')).toThrow(FavoritesImportError);
+    expect(() => parseFavoritesFile(file([], { version: 2 }))).toThrow('Unsupported favorites file version: 2.');
+    expect(() => parseFavoritesFile(file('pikachu'))).toThrow('The file has no favorites list.');
+  });
+
+  it('counts entries without an id or name', () => {
+    expect(() => parseFavoritesFile(file([{ id: 1, name: 'bulbasaur' }, { id: '4' }, 'eevee']))).toThrow(
+      '2 favorites are missing an id or name.'
+    );
+  });
+});
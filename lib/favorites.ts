@@ -0,0 +1,199 @@
+import { translate, type MessageParams } from './i18n';
+import type { MessageKey } from './messages';
+import { isRecord } from './validation';
+
+// Favorite Pokémon, kept in localStorage. Each entry carries enough to render a
+// card (name, image, types) so the Favorites view needs no extra requests.
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export interface FavoriteEntry {
+  id: number;
+  name: string;
+  image?: string | null;
+  types?: string[];
+  addedAt: number;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface FavoritesFile {
+  format: typeof FILE_FORMAT;
+  version: typeof FILE_VERSION;
+  exportedAt: string;
+  favorites: FavoriteEntry[];
+}
+
+export interface ImportResult {
+  added: number;
+  total: number;
+}
+
+// The message is in English; `key` and `params` let the UI show it in the
+// visitor's language.
+export class FavoritesImportError extends Error {
+  readonly key: MessageKey;
+  readonly params: MessageParams;
+
+  constructor(key: MessageKey, params: MessageParams = {}) {
+    super(translate('en', key, params));
+    this.name = 'FavoritesImportError';
+    this.key = key;
+    this.params = params;
+  }
+}
+
+// --------------------
+// Definitions
+// --------------------
+const STORAGE_KEY = 'pokemon-explorer.favorites';
+const FILE_FORMAT = 'pokemon-explorer-favorites';
+const FILE_VERSION = 1;
+const EMPTY: FavoriteEntry[] = [];
+
+const listeners = new Set<() => void>();
+let cachedRaw: string | null = null;
+let cachedFavorites: FavoriteEntry[] = EMPTY;
+
+// --------------------
+// Validation
+// --------------------
+// Returns the cleaned entry, or null when the value is not a usable favorite.
+const toFavoriteEntry = (value: unknown): FavoriteEntry | null => {
+  if (!isRecord(value)) return null;
+  const { id, name, image, types, addedAt } = value;
+  if (typeof id !== 'number' || !Number.isInteger(id) || id <= 0 || typeof name !== 'string' || !name) return null;
+
+  return {
+    id,
+    name,
+    image: typeof image === 'string' ? image : null,
+    types: Array.isArray(types) ? types.filter((type): type is string => typeof type === 'string') : [],
+    addedAt: typeof addedAt === 'number' && Number.isFinite(addedAt) ? addedAt : Date.now(),
+  };
+};
+
+const dedupe = (entries: FavoriteEntry[]): FavoriteEntry[] => {
+  const seen = new Set<number>();
+  return entries.filter(entry => !seen.has(entry.id) && seen.add(entry.id));
+};
+
+const parseStored = (raw: string | null): FavoriteEntry[] => {
+  if (!raw) return EMPTY;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return EMPTY;
+    return dedupe(parsed.map(toFavoriteEntry).filter((entry): entry is FavoriteEntry => entry !== null));
+  } catch {
+    return EMPTY;
+  }
+};
+
+// Throws FavoritesImportError, which names a message to show the user.
+export const parseFavoritesFile = (text: string): FavoriteEntry[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new FavoritesImportError('favorites.invalidJson');
+  }
+
+  if (!isRecord(parsed) || parsed.format !== FILE_FORMAT) {
+    throw new FavoritesImportError('favorites.wrongFormat');
+  }
+  if (parsed.version !== FILE_VERSION) {
+    throw new FavoritesImportError('favorites.unsupportedVersion', { version: String(parsed.version) });
+  }
+  if (!Array.isArray(parsed.favorites)) {
+    throw new FavoritesImportError('favorites.noList');
+  }
+
+  const entries = parsed.favorites.map(toFavoriteEntry);
+  const valid = entries.filter((entry): entry is FavoriteEntry => entry !== null);
+  const invalid = entries.length - valid.length;
+  if (invalid > 0) {
+    throw new FavoritesImportError('favorites.missingFields', { count: invalid });
+  }
+
+  return dedupe(valid);
+};
+
+// --------------------
+// Store
+// --------------------
+const readStorage = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const getFavorites = (): FavoriteEntry[] => {
+  if (typeof window === 'undefined') return EMPTY;
+
+  const raw = readStorage();
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedFavorites = parseStored(raw);
+  }
+  return cachedFavorites;
+};
+
+export const getServerFavorites = (): FavoriteEntry[] => EMPTY;
+
+const writeFavorites = (favorites: FavoriteEntry[]): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  } catch (err) {
+    console.error('Error saving favorites:', err);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const isFavorite = (id: number): boolean => getFavorites().some(entry => entry.id === id);
+
+export const toggleFavorite = (pokemon: Omit<FavoriteEntry, 'addedAt'>): void => {
+  const favorites = getFavorites();
+  writeFavorites(
+    isFavorite(pokemon.id)
+      ? favorites.filter(entry => entry.id !== pokemon.id)
+      : [...favorites, { ...pokemon, addedAt: Date.now() }]
+  );
+};
+
+export const exportFavorites = (): string => {
+  const file: FavoritesFile = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    favorites: getFavorites(),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Merge keeps existing favorites and appends new ones; replace swaps the
+// whole collection for the imported one.
+export const importFavorites = (entries: FavoriteEntry[], mode: ImportMode): ImportResult => {
+  const current = mode === 'merge' ? getFavorites() : EMPTY;
+  const known = new Set(current.map(entry => entry.id));
+  const added = entries.filter(entry => !known.has(entry.id));
+
+  const favorites = [...current, ...added];
+  writeFavorites(favorites);
+  return { added: added.length, total: favorites.length };
+};
+
+export const subscribeFavorites = (listener: () => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
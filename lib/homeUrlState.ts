@@ -0,0 +1,50 @@
+import { filtersFromSearchParams, filtersToSearchParams, type PokemonFilters } from './pokemonFilters';
+import { sortFromSearchParams, sortToSearchParams, type PokemonSort } from './pokemonSort';
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export type HomeView = 'all' | 'favorites';
+
+export interface HomeUrlState {
+  query: string;
+  filters: PokemonFilters;
+  sort: PokemonSort;
+  /** Whether alternate forms are listed after their species. */
+  forms: boolean;
+  /** Number of pages loaded, starting at 1. */
+  page: number;
+  view: HomeView;
+}
+
+// --------------------
+// Query String Encoding
+// --------------------
+// ?q=pika&types=electric&sort=speed&forms=1&page=3&view=favorites; defaults are omitted
+// so the plain home page keeps a clean URL.
+export const homeStateFromSearchParams = (params: URLSearchParams): HomeUrlState => {
+  const page = Number(params.get('page'));
+  return {
+    query: params.get('q')?.trim() ?? '',
+    filters: filtersFromSearchParams(params),
+    sort: sortFromSearchParams(params),
+    forms: params.get('forms') === '1',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+    view: params.get('view') === 'favorites' ? 'favorites' : 'all',
+  };
+};
+
+export const homeStateToSearchParams = (state: HomeUrlState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.query) params.set('q', state.query);
+  filtersToSearchParams(state.filters, params);
+  sortToSearchParams(state.sort, params);
+  if (state.forms) params.set('forms', '1');
+  if (state.page > 1) params.set('page', String(state.page));
+  if (state.view !== 'all') params.set('view', state.view);
+  return params;
+};
+
+// Identifies the result list itself; paging and the active view do not change it.
+export const homeListKey = (state: HomeUrlState): string =>
+  homeStateToSearchParams({ ...state, page: 1, view: 'all' }).toString();
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { formatSlug, localizedName, searchableNames, toLocalizedNames, translate } from './i18n';
+
+describe('translate', () => {
+  it('fills in placeholders', () => {
+    expect(translate('en', 'home.showing', { shown: 20, total: 151 })).toBe('Showing 20 of 151 Pokemon');
+    expect(translate('de', 'home.showing', { shown: 20, total: 151 })).toBe('20 von 151 Pokémon');
+  });
+
+  it('picks the plural form for the count', () => {
+    expect(translate('en', 'home.resultCount', { count: 1 })).toBe('1 result');
+    expect(translate('en', 'home.resultCount', { count: 3 })).toBe('3 results');
+    expect(translate('fr', 'home.resultCount', { count: 0 })).toBe('0 résultat');
+    expect(translate('ja', 'home.resultCount', { count: 3 })).toBe('3件');
+  });
+});
+
+describe('localized names', () => {
+  const names = toLocalizedNames([
+    { name: 'Mr. Mime', language: { name: 'en' } },
+    { name: 'バリヤード', language: { name: 'ja-Hrkt' } },
+    { name: 'Mr. Mime', language: { name: 'it' } },
+    { name: '魔墙人偶', language: { name: 'zh-Hans' } },
+  ]);
+
+  it('keeps only the supported languages', () => {
+    expect(names).toEqual({ en: 'Mr. Mime', 'ja-Hrkt': 'バリヤード', 'zh-Hans': '魔墙人偶' });
+  });
+
+  it('falls back to English, then to the slug', () => {
+    expect(localizedName(names, 'ja', 'mr-mime')).toBe('バリヤード');
+    expect(localizedName(names, 'de', 'mr-mime')).toBe('Mr. Mime');
+    expect(localizedName(undefined, 'de', 'mr-mime')).toBe('Mr Mime');
+    expect(formatSlug('ho-oh')).toBe('Ho Oh');
+  });
+
+  it("lists the locale's own name first for search", () => {
+    expect(searchableNames(names, 'zh')).toEqual(['魔墙人偶', 'Mr. Mime', 'バリヤード']);
+  });
+});
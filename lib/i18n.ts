@@ -0,0 +1,168 @@
+import { MESSAGES, type MessageKey, type PluralMessage } from './messages';
+import { isTypeName } from './typeChart';
+
+// Interface language and localized Pokémon names. The chosen locale is kept in
+// localStorage; names come from the `names` arrays PokeAPI attaches to
+// species, moves and abilities.
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export const LOCALES = ['en', 'ja', 'de', 'fr', 'es', 'ko', 'zh'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Each language's own name for itself, for the language picker. */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  ja: '日本語',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+  ko: '한국어',
+  zh: '中文',
+};
+
+/** Localized names keyed by PokeAPI language code, e.g. `{ en: 'Pikachu', 'ja-Hrkt': 'ピカチュウ' }`. */
+export type LocalizedNames = Record<string, string>;
+
+export interface RawName {
+  name: string;
+  language: { name: string };
+}
+
+export type MessageParams = Record<string, string | number>;
+
+// --------------------
+// Definitions
+// --------------------
+const STORAGE_KEY = 'pokemon-explorer.locale';
+
+// PokeAPI language codes for each locale, most preferred first: Japanese names
+// are listed in kana (`ja-Hrkt`) and with kanji (`ja`), Chinese in simplified
+// and traditional characters.
+const POKEAPI_LANGUAGES: Record<Locale, string[]> = {
+  en: ['en'],
+  ja: ['ja-Hrkt', 'ja'],
+  de: ['de'],
+  fr: ['fr'],
+  es: ['es'],
+  ko: ['ko'],
+  zh: ['zh-Hans', 'zh-Hant'],
+};
+
+const SUPPORTED_LANGUAGES = new Set(Object.values(POKEAPI_LANGUAGES).flat());
+
+const listeners = new Set<() => void>();
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const localeFromSearchParams = (params: URLSearchParams): Locale => {
+  const lang = params.get('lang');
+  return isLocale(lang) ? lang : DEFAULT_LOCALE;
+};
+
+// --------------------
+// Names
+// --------------------
+// "mr-mime" -> "Mr Mime"; used when PokeAPI has no name in any wanted language.
+export const formatSlug = (slug: string): string =>
+  slug
+    .split('-')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+
+// Keeps only the languages the explorer can show. Entries cached before names
+// were requested have none.
+export const toLocalizedNames = (names: RawName[] = []): LocalizedNames =>
+  Object.fromEntries(
+    names.filter(entry => SUPPORTED_LANGUAGES.has(entry.language.name)).map(entry => [entry.language.name, entry.name])
+  );
+
+// Falls back to the English name, then to the formatted slug.
+export const localizedName = (names: LocalizedNames | undefined, locale: Locale, slug: string): string => {
+  for (const language of [...POKEAPI_LANGUAGES[locale], 'en']) {
+    if (names?.[language]) return names[language];
+  }
+  return formatSlug(slug);
+};
+
+// Every known name for one Pokémon, the locale's own first, so search
+// results are highlighted in the name the user sees.
+export const searchableNames = (names: LocalizedNames, locale: Locale): string[] => {
+  const preferred = [...POKEAPI_LANGUAGES[locale], 'en'].map(language => names[language]);
+  return [...new Set([...preferred, ...Object.values(names)].filter(Boolean))];
+};
+
+// --------------------
+// Messages
+// --------------------
+const isPlural = (message: string | PluralMessage): message is PluralMessage => typeof message !== 'string';
+
+// Replaces `{name}` placeholders; messages with plural forms are picked by
+// the `count` parameter.
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const message = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key];
+  const text = isPlural(message)
+    ? message[new Intl.PluralRules(locale).select(Number(params.count ?? 0))] ?? message.other
+    : message;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+// Type slugs outside the chart (e.g. "stellar") fall back to the formatted slug.
+export const translateType = (locale: Locale, type: string): string =>
+  isTypeName(type) ? translate(locale, `type.${type}`) : formatSlug(type);
+
+// --------------------
+// Store
+// --------------------
+const readStorage = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+// First visit: the first browser language the explorer supports.
+const detectLocale = (): Locale => {
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const getLocale = (): Locale => {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE;
+  const stored = readStorage();
+  return isLocale(stored) ? stored : detectLocale();
+};
+
+// Pages are rendered in English and switch after hydration.
+export const getServerLocale = (): Locale => DEFAULT_LOCALE;
+
+export const setLocale = (locale: Locale): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch (err) {
+    console.error('Error saving language:', err);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
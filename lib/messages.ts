@@ -0,0 +1,1797 @@
+import type { Locale } from './i18n';
+
+// Interface strings for each locale. English defines the keys; `{name}`
+// placeholders are filled in by `translate`, and messages that depend on a
+// count list their plural forms (see Intl.PluralRules).
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+type Catalog = Record<MessageKey, string | PluralMessage>;
+
+export type MessageKey = keyof typeof en;
+
+// --------------------
+// Catalogs
+// --------------------
+const en = {
+  'common.tryAgain': 'Try Again',
+  'common.backHome': 'Back to Home',
+  'nav.team': 'Team',
+  'nav.language': 'Language',
+
+  'home.errorTitle': 'Oops! Something went wrong',
+  'home.loadFailed': 'Failed to load Pokemon. Please try again.',
+  'home.title': 'Discover Pokemon',
+  'home.intro':
+    'Embark on an epic journey through the world of Pokemon! <search>Search</search> for your favorites and discover their unique <abilities>abilities</abilities>, <types>types</types>, and <stats>stats</stats>.',
+  'home.statTotal': 'Total Pokemon',
+  'home.statLoaded': 'Pokemon Loaded',
+  'home.statResults': 'Results Found',
+  'home.statCached': 'Cached Pokemon',
+  'home.findTitle': 'Find Your Pokemon',
+  'home.findSubtitle': 'Lightning-fast search through all {count} Pokemon',
+  'home.searchingFor': 'Searching for:',
+  'home.resultCount': { one: '{count} result', other: '{count} results' },
+  'home.viewLabel': 'Collection view',
+  'home.viewAll': 'All Pokemon',
+  'home.viewFavorites': 'Favorites ({count})',
+  'home.favoritesTitle': 'Favorites',
+  'home.favoritesEmpty': 'No favorites yet. Tap ☆ on any Pokémon to add it here, or import a favorites file.',
+  'home.loading': 'Loading amazing Pokemon...',
+  'home.resultsTitle': 'Search Results',
+  'home.collectionTitle': 'Pokemon Collection',
+  'home.searchActive': 'Fast Search Active',
+  'home.filtersActive': 'Filters Active',
+  'home.optimized': 'Optimized',
+  'home.loadMoreFailed': "Couldn't load more Pokemon.",
+  'home.loadingMore': 'Loading More...',
+  'home.loadMore': 'Load More Pokemon',
+  'home.showing': 'Showing {shown} of {total} Pokemon',
+  'home.noResultsTitle': 'No Pokemon Found',
+  'home.noResultsQuery': 'We couldn\'t find any Pokemon matching "{query}". Try a different search term!',
+  'home.noResultsQueryFiltered':
+    'We couldn\'t find any Pokemon matching "{query}" with these filters. Try a different search term!',
+  'home.noResultsFilters': "We couldn't find any Pokemon matching these filters. Try widening them!",
+  'home.showAll': 'Show All Pokemon',
+  'home.showForms': 'Show alternate forms',
+
+  'search.placeholder': 'Search Pokemon...',
+  'search.clear': 'Clear search',
+  'search.searching': 'Searching across all Pokemon...',
+  'search.found': { one: 'Found {count} result for "{query}"', other: 'Found {count} results for "{query}"' },
+  'search.label': 'Search Pokémon',
+  'search.suggestions': 'Top matches',
+  'search.recentSearches': 'Recent searches',
+  'search.recentlyViewed': 'Recently viewed',
+
+  'detail.back': 'Back to Pokemon List',
+  'detail.height': 'Height',
+  'detail.weight': 'Weight',
+  'detail.about': 'About',
+  'detail.generation': 'Generation',
+  'detail.habitat': 'Habitat',
+  'detail.unknown': 'Unknown',
+  'detail.captureRate': 'Capture Rate',
+  'detail.growthRate': 'Growth Rate',
+  'detail.eggGroups': 'Egg Groups',
+  'detail.gender': 'Gender',
+  'detail.genderless': 'Genderless',
+  'detail.legendary': 'Legendary',
+  'detail.mythical': 'Mythical',
+  'detail.baby': 'Baby',
+  'detail.abilities': 'Abilities',
+  'detail.typeEffectiveness': 'Type Effectiveness',
+  'detail.baseStats': 'Base Stats',
+  'detail.evolution': 'Evolution',
+  'detail.moves': 'Moves',
+  'detail.previous': 'Previous: {name}',
+  'detail.next': 'Next: {name}',
+  'detail.navigation': 'Pokédex navigation',
+  'detail.shortcuts': '← → browse · / search · Esc back · F favorite',
+  'detail.loadFailed': 'Failed to load Pokémon details.',
+  'detail.notFound': 'No Pokémon goes by that name or number.',
+  'detail.notFoundHint': 'Check the spelling, or search the Pokédex instead.',
+  'ability.hidden': 'Hidden',
+  'ability.effect': 'Effect',
+  'ability.noEffect': 'No effect description is available.',
+  'ability.pokemon': 'Pokémon with this ability',
+  'ability.loadFailed': 'Failed to load the ability.',
+  'ability.notFound': 'No ability goes by that name.',
+  'ability.notFoundHint': 'Check the spelling, or open a Pokémon to see its abilities.',
+  'gallery.title': 'Sprites',
+  'gallery.shiny': 'Shiny',
+  'gallery.normal': 'Normal',
+  'gallery.male': 'Male',
+  'gallery.female': 'Female',
+  'gallery.front': 'Front',
+  'gallery.back': 'Back',
+  'gallery.angle': 'Angle',
+  'gallery.artwork': 'Official artwork',
+  'gallery.home': 'Pokémon HOME',
+  'gallery.game': 'Game sprite',
+  'gallery.showdown': 'Animated',
+  'gallery.dreamWorld': 'Dream World',
+  'gallery.generation': 'Generation {generation}',
+  'gallery.animated': '{game} (animated)',
+  'gallery.empty': 'No sprites match these options.',
+  'gallery.open': 'View {label} full screen',
+  'gallery.close': 'Close',
+  'gallery.previous': 'Previous sprite',
+  'gallery.next': 'Next sprite',
+  'gallery.position': '{index} of {total}',
+  'forms.label': 'Form',
+  'forms.default': 'Standard',
+  'forms.gmax': 'Gigantamax',
+  'forms.alola': 'Alolan Form',
+  'forms.galar': 'Galarian Form',
+  'forms.hisui': 'Hisuian Form',
+  'forms.paldea': 'Paldean Form',
+
+  'filters.title': 'Filters',
+  'filters.reset': 'Reset filters',
+  'filters.types': 'Types',
+  'filters.ranges': 'Ranges',
+  'filters.min': 'min',
+  'filters.max': 'max',
+  'filters.minLabel': 'Minimum {label}',
+  'filters.maxLabel': 'Maximum {label}',
+  'filters.total': 'Base stat total',
+
+  'sort.label': 'Sort by',
+  'sort.id': 'Pokédex number',
+  'sort.name': 'Name',
+  'sort.ascending': 'Ascending',
+  'sort.descending': 'Descending',
+  'sort.ascendingLabel': 'Sort ascending',
+  'sort.descendingLabel': 'Sort descending',
+
+  'favorites.favorite': 'Favorite',
+  'favorites.favorited': 'Favorited',
+  'favorites.add': 'Add to favorites',
+  'favorites.remove': 'Remove from favorites',
+  'favorites.addLabel': 'Add {name} to favorites',
+  'favorites.removeLabel': 'Remove {name} from favorites',
+  'favorites.export': 'Export',
+  'favorites.import': 'Import',
+  'favorites.importFile': 'Import favorites file',
+  'favorites.importCount': { one: 'Import {count} favorite:', other: 'Import {count} favorites:' },
+  'favorites.merge': 'Merge with current',
+  'favorites.replace': 'Replace current',
+  'favorites.cancel': 'Cancel',
+  'favorites.added': {
+    one: 'Added {count} new favorite ({total} total).',
+    other: 'Added {count} new favorites ({total} total).',
+  },
+  'favorites.imported': { one: 'Imported {count} favorite.', other: 'Imported {count} favorites.' },
+  'favorites.readFailed': 'Could not read the file.',
+  'favorites.invalidJson': 'The file is not valid JSON.',
+  'favorites.wrongFormat': 'This is not a Pokemon Explorer favorites file.',
+  'favorites.unsupportedVersion': 'Unsupported favorites file version: {version}.',
+  'favorites.noList': 'The file has no favorites list.',
+  'favorites.missingFields': {
+    one: '{count} favorite is missing an id or name.',
+    other: '{count} favorites are missing an id or name.',
+  },
+
+  'team.addTo': 'Add to {team}',
+  'team.addTitle': 'Add to team',
+  'team.added': 'Added',
+  'team.addLabel': 'Add {name} to {team}',
+  'team.addLabelNew': 'Add {name} to a new team',
+  'team.full': '{team} already has {count} Pokémon',
+
+  'list.empty': 'No Pokémon found',
+  'list.emptyHint': 'Try adjusting your search terms',
+
+  'matchups.weaknesses': 'Weaknesses',
+  'matchups.resistances': 'Resistances',
+  'matchups.immunities': 'Immunities',
+  'matchups.noWeaknesses': 'No weaknesses',
+  'matchups.noResistances': 'No resistances',
+  'matchups.noImmunities': 'No immunities',
+
+  'evolution.none': 'This Pokémon does not evolve.',
+  'evolution.level': 'Level {level}',
+  'evolution.levelUp': 'Level up',
+  'evolution.friendship': 'High friendship',
+  'evolution.useItem': 'Use {item}',
+  'evolution.trade': 'Trade',
+  'evolution.other': 'Special: {trigger}',
+  'evolution.holding': 'holding {item}',
+  'evolution.knowing': 'knowing {move}',
+  'evolution.knowingType': 'knowing a {type}-type move',
+  'evolution.affection': 'with high affection',
+  'evolution.beauty': 'with high beauty',
+  'evolution.location': 'at {location}',
+  'evolution.day': 'during the day',
+  'evolution.night': 'at night',
+  'evolution.dusk': 'at dusk',
+  'evolution.timeOfDay': 'during the {time}',
+  'evolution.female': 'if female',
+  'evolution.male': 'if male',
+  'evolution.rain': 'while raining',
+  'evolution.partySpecies': 'with {species} in the party',
+  'evolution.partyType': 'with a {type}-type in the party',
+  'evolution.attackHigher': 'if Attack > Defense',
+  'evolution.attackLower': 'if Attack < Defense',
+  'evolution.attackEqual': 'if Attack = Defense',
+  'evolution.tradeFor': 'for {species}',
+  'evolution.upsideDown': 'holding the console upside down',
+
+  'moves.level': 'Lv.',
+  'moves.move': 'Move',
+  'moves.type': 'Type',
+  'moves.category': 'Category',
+  'moves.power': 'Power',
+  'moves.accuracy': 'Acc.',
+  'moves.pp': 'PP',
+  'moves.evolution': 'Evo.',
+  'moves.physical': 'Physical',
+  'moves.special': 'Special',
+  'moves.status': 'Status',
+  'moves.search': 'Search moves or types...',
+  'moves.searchLabel': 'Search moves',
+  'moves.version': 'Game version',
+  'moves.loading': 'Loading moves...',
+  'moves.loadFailed': 'Failed to load moves.',
+  'moves.noMatch': 'No moves match "{query}".',
+  'moves.noneInGame': 'No moves in this game.',
+  'moves.learn.level-up': 'Level up',
+  'moves.learn.machine': 'TM / HM',
+  'moves.learn.egg': 'Egg',
+  'moves.learn.tutor': 'Tutor',
+  'moves.learn.other': 'Other',
+
+  'stat.hp': 'HP',
+  'stat.attack': 'Attack',
+  'stat.defense': 'Defense',
+  'stat.special-attack': 'Special Attack',
+  'stat.special-defense': 'Special Defense',
+  'stat.speed': 'Speed',
+
+  'type.normal': 'Normal',
+  'type.fire': 'Fire',
+  'type.water': 'Water',
+  'type.electric': 'Electric',
+  'type.grass': 'Grass',
+  'type.ice': 'Ice',
+  'type.fighting': 'Fighting',
+  'type.poison': 'Poison',
+  'type.ground': 'Ground',
+  'type.flying': 'Flying',
+  'type.psychic': 'Psychic',
+  'type.bug': 'Bug',
+  'type.rock': 'Rock',
+  'type.ghost': 'Ghost',
+  'type.dragon': 'Dragon',
+  'type.dark': 'Dark',
+  'type.steel': 'Steel',
+  'type.fairy': 'Fairy',
+} satisfies Record<string, string | PluralMessage>;
+
+const ja: Catalog = {
+  'common.tryAgain': 'もう一度試す',
+  'common.backHome': 'ホームに戻る',
+  'nav.team': 'チーム',
+  'nav.language': '言語',
+
+  'home.errorTitle': '問題が発生しました',
+  'home.loadFailed': 'ポケモンを読み込めませんでした。もう一度お試しください。',
+  'home.title': 'ポケモンを探そう',
+  'home.intro':
+    'ポケモンの世界を巡る壮大な冒険へ！お気に入りを<search>検索</search>して、それぞれの<abilities>とくせい</abilities>、<types>タイプ</types>、<stats>ステータス</stats>を見つけよう。',
+  'home.statTotal': 'ポケモン総数',
+  'home.statLoaded': '読み込み済み',
+  'home.statResults': '検索結果',
+  'home.statCached': 'キャッシュ済み',
+  'home.findTitle': 'ポケモンを検索',
+  'home.findSubtitle': '全{count}匹のポケモンから高速検索',
+  'home.searchingFor': '検索ワード:',
+  'home.resultCount': { other: '{count}件' },
+  'home.viewLabel': '表示の切り替え',
+  'home.viewAll': 'すべてのポケモン',
+  'home.viewFavorites': 'お気に入り ({count})',
+  'home.favoritesTitle': 'お気に入り',
+  'home.favoritesEmpty':
+    'お気に入りはまだありません。ポケモンの☆をタップして追加するか、お気に入りファイルを読み込んでください。',
+  'home.loading': 'ポケモンを読み込み中...',
+  'home.resultsTitle': '検索結果',
+  'home.collectionTitle': 'ポケモン一覧',
+  'home.searchActive': '高速検索中',
+  'home.filtersActive': '絞り込み中',
+  'home.optimized': '最適化済み',
+  'home.loadMoreFailed': 'これ以上ポケモンを読み込めませんでした。',
+  'home.loadingMore': '読み込み中...',
+  'home.loadMore': 'さらに読み込む',
+  'home.showing': '{total}匹中{shown}匹を表示',
+  'home.noResultsTitle': 'ポケモンが見つかりません',
+  'home.noResultsQuery': '「{query}」に一致するポケモンは見つかりませんでした。別の言葉で検索してみてください。',
+  'home.noResultsQueryFiltered':
+    'この条件で「{query}」に一致するポケモンは見つかりませんでした。別の言葉で検索してみてください。',
+  'home.noResultsFilters': 'この条件に一致するポケモンは見つかりませんでした。条件を広げてみてください。',
+  'home.showAll': 'すべてのポケモンを表示',
+  'home.showForms': '別のすがたを表示',
+
+  'search.placeholder': 'ポケモンを検索...',
+  'search.clear': '検索をクリア',
+  'search.searching': 'すべてのポケモンを検索中...',
+  'search.found': { other: '「{query}」の検索結果: {count}件' },
+  'search.label': 'ポケモンを検索',
+  'search.suggestions': '候補',
+  'search.recentSearches': '最近の検索',
+  'search.recentlyViewed': '最近見たポケモン',
+
+  'detail.back': 'ポケモン一覧に戻る',
+  'detail.height': '高さ',
+  'detail.weight': '重さ',
+  'detail.about': '概要',
+  'detail.generation': '世代',
+  'detail.habitat': '生息地',
+  'detail.unknown': '不明',
+  'detail.captureRate': '捕獲率',
+  'detail.growthRate': '成長速度',
+  'detail.eggGroups': 'タマゴグループ',
+  'detail.gender': '性別',
+  'detail.genderless': '性別不明',
+  'detail.legendary': '伝説',
+  'detail.mythical': '幻',
+  'detail.baby': 'ベイビィ',
+  'detail.abilities': 'とくせい',
+  'detail.typeEffectiveness': 'タイプ相性',
+  'detail.baseStats': '種族値',
+  'detail.evolution': '進化',
+  'detail.moves': 'わざ',
+  'detail.previous': '前へ: {name}',
+  'detail.next': '次へ: {name}',
+  'detail.navigation': '図鑑ナビゲーション',
+  'detail.shortcuts': '← → 移動 · / 検索 · Esc 戻る · F お気に入り',
+  'detail.loadFailed': 'ポケモンの詳細を読み込めませんでした。',
+  'detail.notFound': 'その名前や番号のポケモンはいません。',
+  'detail.notFoundHint': 'つづりを確認するか、図鑑で検索してください。',
+  'ability.hidden': '隠れ特性',
+  'ability.effect': '効果',
+  'ability.noEffect': '効果の説明はありません。',
+  'ability.pokemon': 'このとくせいを持つポケモン',
+  'ability.loadFailed': 'とくせいを読み込めませんでした。',
+  'ability.notFound': 'その名前のとくせいはありません。',
+  'ability.notFoundHint': 'つづりを確認するか、ポケモンを開いてとくせいを確認してください。',
+  'gallery.title': 'スプライト',
+  'gallery.shiny': '色違い',
+  'gallery.normal': '通常',
+  'gallery.male': 'オス',
+  'gallery.female': 'メス',
+  'gallery.front': '正面',
+  'gallery.back': '背面',
+  'gallery.angle': '向き',
+  'gallery.artwork': '公式イラスト',
+  'gallery.home': 'Pokémon HOME',
+  'gallery.game': 'ゲームのドット絵',
+  'gallery.showdown': 'アニメーション',
+  'gallery.dreamWorld': 'ドリームワールド',
+  'gallery.generation': '第{generation}世代',
+  'gallery.animated': '{game}（アニメーション）',
+  'gallery.empty': 'この条件に合うスプライトはありません。',
+  'gallery.open': '{label}を全画面で表示',
+  'gallery.close': '閉じる',
+  'gallery.previous': '前のスプライト',
+  'gallery.next': '次のスプライト',
+  'gallery.position': '{index} / {total}',
+  'forms.label': 'すがた',
+  'forms.default': '通常',
+  'forms.gmax': 'キョダイマックス',
+  'forms.alola': 'アローラのすがた',
+  'forms.galar': 'ガラルのすがた',
+  'forms.hisui': 'ヒスイのすがた',
+  'forms.paldea': 'パルデアのすがた',
+
+  'filters.title': '絞り込み',
+  'filters.reset': '絞り込みをリセット',
+  'filters.types': 'タイプ',
+  'filters.ranges': '範囲',
+  'filters.min': '最小',
+  'filters.max': '最大',
+  'filters.minLabel': '{label}の最小値',
+  'filters.maxLabel': '{label}の最大値',
+  'filters.total': '種族値合計',
+
+  'sort.label': '並び替え',
+  'sort.id': '図鑑番号',
+  'sort.name': '名前',
+  'sort.ascending': '昇順',
+  'sort.descending': '降順',
+  'sort.ascendingLabel': '昇順で並び替え',
+  'sort.descendingLabel': '降順で並び替え',
+
+  'favorites.favorite': 'お気に入り',
+  'favorites.favorited': 'お気に入り済み',
+  'favorites.add': 'お気に入りに追加',
+  'favorites.remove': 'お気に入りから削除',
+  'favorites.addLabel': '{name}をお気に入りに追加',
+  'favorites.removeLabel': '{name}をお気に入りから削除',
+  'favorites.export': 'エクスポート',
+  'favorites.import': 'インポート',
+  'favorites.importFile': 'お気に入りファイルをインポート',
+  'favorites.importCount': { other: '{count}件のお気に入りをインポート:' },
+  'favorites.merge': '現在のものと統合',
+  'favorites.replace': '現在のものを置き換え',
+  'favorites.cancel': 'キャンセル',
+  'favorites.added': { other: '{count}件の新しいお気に入りを追加しました(合計{total}件)。' },
+  'favorites.imported': { other: '{count}件のお気に入りをインポートしました。' },
+  'favorites.readFailed': 'ファイルを読み込めませんでした。',
+  'favorites.invalidJson': 'ファイルが正しいJSONではありません。',
+  'favorites.wrongFormat': 'Pokemon Explorerのお気に入りファイルではありません。',
+  'favorites.unsupportedVersion': '対応していないお気に入りファイルのバージョンです: {version}。',
+  'favorites.noList': 'ファイルにお気に入りの一覧がありません。',
+  'favorites.missingFields': { other: '{count}件のお気に入りにIDか名前がありません。' },
+
+  'team.addTo': '{team}に追加',
+  'team.addTitle': 'チームに追加',
+  'team.added': '追加しました',
+  'team.addLabel': '{name}を{team}に追加',
+  'team.addLabelNew': '{name}を新しいチームに追加',
+  'team.full': '{team}にはすでにポケモンが{count}匹います',
+
+  'list.empty': 'ポケモンが見つかりません',
+  'list.emptyHint': '検索条件を変えてみてください',
+
+  'matchups.weaknesses': '弱点',
+  'matchups.resistances': '耐性',
+  'matchups.immunities': '無効',
+  'matchups.noWeaknesses': '弱点なし',
+  'matchups.noResistances': '耐性なし',
+  'matchups.noImmunities': '無効なし',
+
+  'evolution.none': 'このポケモンは進化しません。',
+  'evolution.level': 'レベル{level}',
+  'evolution.levelUp': 'レベルアップ',
+  'evolution.friendship': 'なつき度が高い',
+  'evolution.useItem': '{item}を使う',
+  'evolution.trade': '通信交換',
+  'evolution.other': '特別な条件: {trigger}',
+  'evolution.holding': '{item}を持たせて',
+  'evolution.knowing': '{move}を覚えた状態で',
+  'evolution.knowingType': '{type}タイプのわざを覚えた状態で',
+  'evolution.affection': '仲良し度が高い状態で',
+  'evolution.beauty': 'うつくしさが高い状態で',
+  'evolution.location': '{location}で',
+  'evolution.day': '昼に',
+  'evolution.night': '夜に',
+  'evolution.dusk': '夕方に',
+  'evolution.timeOfDay': '{time}に',
+  'evolution.female': 'メスのみ',
+  'evolution.male': 'オスのみ',
+  'evolution.rain': '雨が降っているとき',
+  'evolution.partySpecies': '手持ちに{species}がいるとき',
+  'evolution.partyType': '手持ちに{type}タイプがいるとき',
+  'evolution.attackHigher': 'こうげき > ぼうぎょのとき',
+  'evolution.attackLower': 'こうげき < ぼうぎょのとき',
+  'evolution.attackEqual': 'こうげき = ぼうぎょのとき',
+  'evolution.tradeFor': '{species}と交換',
+  'evolution.upsideDown': '本体を逆さまにして',
+
+  'moves.level': 'Lv.',
+  'moves.move': 'わざ',
+  'moves.type': 'タイプ',
+  'moves.category': '分類',
+  'moves.power': '威力',
+  'moves.accuracy': '命中',
+  'moves.pp': 'PP',
+  'moves.evolution': '進化',
+  'moves.physical': '物理',
+  'moves.special': '特殊',
+  'moves.status': '変化',
+  'moves.search': 'わざやタイプを検索...',
+  'moves.searchLabel': 'わざを検索',
+  'moves.version': 'ゲームバージョン',
+  'moves.loading': 'わざを読み込み中...',
+  'moves.loadFailed': 'わざを読み込めませんでした。',
+  'moves.noMatch': '「{query}」に一致するわざはありません。',
+  'moves.noneInGame': 'このゲームで覚えるわざはありません。',
+  'moves.learn.level-up': 'レベルアップ',
+  'moves.learn.machine': 'わざマシン',
+  'moves.learn.egg': 'タマゴわざ',
+  'moves.learn.tutor': '教えわざ',
+  'moves.learn.other': 'その他',
+
+  'stat.hp': 'HP',
+  'stat.attack': 'こうげき',
+  'stat.defense': 'ぼうぎょ',
+  'stat.special-attack': 'とくこう',
+  'stat.special-defense': 'とくぼう',
+  'stat.speed': 'すばやさ',
+
+  'type.normal': 'ノーマル',
+  'type.fire': 'ほのお',
+  'type.water': 'みず',
+  'type.electric': 'でんき',
+  'type.grass': 'くさ',
+  'type.ice': 'こおり',
+  'type.fighting': 'かくとう',
+  'type.poison': 'どく',
+  'type.ground': 'じめん',
+  'type.flying': 'ひこう',
+  'type.psychic': 'エスパー',
+  'type.bug': 'むし',
+  'type.rock': 'いわ',
+  'type.ghost': 'ゴースト',
+  'type.dragon': 'ドラゴン',
+  'type.dark': 'あく',
+  'type.steel': 'はがね',
+  'type.fairy': 'フェアリー',
+};
+
+const de: Catalog = {
+  'common.tryAgain': 'Erneut versuchen',
+  'common.backHome': 'Zur Startseite',
+  'nav.team': 'Team',
+  'nav.language': 'Sprache',
+
+  'home.errorTitle': 'Hoppla! Etwas ist schiefgelaufen',
+  'home.loadFailed': 'Pokémon konnten nicht geladen werden. Bitte versuche es erneut.',
+  'home.title': 'Entdecke Pokémon',
+  'home.intro':
+    'Begib dich auf eine epische Reise durch die Welt der Pokémon! <search>Suche</search> nach deinen Lieblingen und entdecke ihre einzigartigen <abilities>Fähigkeiten</abilities>, <types>Typen</types> und <stats>Werte</stats>.',
+  'home.statTotal': 'Pokémon insgesamt',
+  'home.statLoaded': 'Geladene Pokémon',
+  'home.statResults': 'Gefundene Ergebnisse',
+  'home.statCached': 'Zwischengespeicherte Pokémon',
+  'home.findTitle': 'Finde dein Pokémon',
+  'home.findSubtitle': 'Blitzschnelle Suche in allen {count} Pokémon',
+  'home.searchingFor': 'Suche nach:',
+  'home.resultCount': { one: '{count} Ergebnis', other: '{count} Ergebnisse' },
+  'home.viewLabel': 'Ansicht',
+  'home.viewAll': 'Alle Pokémon',
+  'home.viewFavorites': 'Favoriten ({count})',
+  'home.favoritesTitle': 'Favoriten',
+  'home.favoritesEmpty':
+    'Noch keine Favoriten. Tippe bei einem Pokémon auf ☆, um es hinzuzufügen, oder importiere eine Favoritendatei.',
+  'home.loading': 'Pokémon werden geladen...',
+  'home.resultsTitle': 'Suchergebnisse',
+  'home.collectionTitle': 'Pokémon-Sammlung',
+  'home.searchActive': 'Schnellsuche aktiv',
+  'home.filtersActive': 'Filter aktiv',
+  'home.optimized': 'Optimiert',
+  'home.loadMoreFailed': 'Weitere Pokémon konnten nicht geladen werden.',
+  'home.loadingMore': 'Wird geladen...',
+  'home.loadMore': 'Weitere Pokémon laden',
+  'home.showing': '{shown} von {total} Pokémon',
+  'home.noResultsTitle': 'Keine Pokémon gefunden',
+  'home.noResultsQuery': 'Wir konnten kein Pokémon zu „{query}“ finden. Versuche einen anderen Suchbegriff!',
+  'home.noResultsQueryFiltered':
+    'Wir konnten kein Pokémon zu „{query}“ mit diesen Filtern finden. Versuche einen anderen Suchbegriff!',
+  'home.noResultsFilters': 'Wir konnten kein Pokémon zu diesen Filtern finden. Versuche, sie zu lockern!',
+  'home.showAll': 'Alle Pokémon anzeigen',
+  'home.showForms': 'Alternative Formen zeigen',
+
+  'search.placeholder': 'Pokémon suchen...',
+  'search.clear': 'Suche löschen',
+  'search.searching': 'Alle Pokémon werden durchsucht...',
+  'search.found': {
+    one: '{count} Ergebnis für „{query}“ gefunden',
+    other: '{count} Ergebnisse für „{query}“ gefunden',
+  },
+  'search.label': 'Pokémon suchen',
+  'search.suggestions': 'Beste Treffer',
+  'search.recentSearches': 'Letzte Suchen',
+  'search.recentlyViewed': 'Zuletzt angesehen',
+
+  'detail.back': 'Zurück zur Pokémon-Liste',
+  'detail.height': 'Größe',
+  'detail.weight': 'Gewicht',
+  'detail.about': 'Über',
+  'detail.generation': 'Generation',
+  'detail.habitat': 'Lebensraum',
+  'detail.unknown': 'Unbekannt',
+  'detail.captureRate': 'Fangrate',
+  'detail.growthRate': 'Wachstumsrate',
+  'detail.eggGroups': 'Ei-Gruppen',
+  'detail.gender': 'Geschlecht',
+  'detail.genderless': 'Geschlechtslos',
+  'detail.legendary': 'Legendär',
+  'detail.mythical': 'Mysteriös',
+  'detail.baby': 'Baby',
+  'detail.abilities': 'Fähigkeiten',
+  'detail.typeEffectiveness': 'Typ-Effektivität',
+  'detail.baseStats': 'Basiswerte',
+  'detail.evolution': 'Entwicklung',
+  'detail.moves': 'Attacken',
+  'detail.previous': 'Zurück: {name}',
+  'detail.next': 'Weiter: {name}',
+  'detail.navigation': 'Pokédex-Navigation',
+  'detail.shortcuts': '← → blättern · / suchen · Esc zurück · F Favorit',
+  'detail.loadFailed': 'Pokémon-Details konnten nicht geladen werden.',
+  'detail.notFound': 'Kein Pokémon hat diesen Namen oder diese Nummer.',
+  'detail.notFoundHint': 'Prüfe die Schreibweise oder durchsuche stattdessen den Pokédex.',
+  'ability.hidden': 'Versteckt',
+  'ability.effect': 'Effekt',
+  'ability.noEffect': 'Keine Effektbeschreibung verfügbar.',
+  'ability.pokemon': 'Pokémon mit dieser Fähigkeit',
+  'ability.loadFailed': 'Die Fähigkeit konnte nicht geladen werden.',
+  'ability.notFound': 'Keine Fähigkeit hat diesen Namen.',
+  'ability.notFoundHint': 'Prüfe die Schreibweise oder öffne ein Pokémon, um seine Fähigkeiten zu sehen.',
+  'gallery.title': 'Sprites',
+  'gallery.shiny': 'Schillernd',
+  'gallery.normal': 'Normal',
+  'gallery.male': 'Männlich',
+  'gallery.female': 'Weiblich',
+  'gallery.front': 'Vorne',
+  'gallery.back': 'Hinten',
+  'gallery.angle': 'Ansicht',
+  'gallery.artwork': 'Offizielles Artwork',
+  'gallery.home': 'Pokémon HOME',
+  'gallery.game': 'Spiel-Sprite',
+  'gallery.showdown': 'Animiert',
+  'gallery.dreamWorld': 'Dream World',
+  'gallery.generation': 'Generation {generation}',
+  'gallery.animated': '{game} (animiert)',
+  'gallery.empty': 'Keine Sprites für diese Auswahl.',
+  'gallery.open': '{label} im Vollbild anzeigen',
+  'gallery.close': 'Schließen',
+  'gallery.previous': 'Vorheriges Sprite',
+  'gallery.next': 'Nächstes Sprite',
+  'gallery.position': '{index} von {total}',
+  'forms.label': 'Form',
+  'forms.default': 'Standard',
+  'forms.gmax': 'Gigadynamax',
+  'forms.alola': 'Alola-Form',
+  'forms.galar': 'Galar-Form',
+  'forms.hisui': 'Hisui-Form',
+  'forms.paldea': 'Paldea-Form',
+
+  'filters.title': 'Filter',
+  'filters.reset': 'Filter zurücksetzen',
+  'filters.types': 'Typen',
+  'filters.ranges': 'Bereiche',
+  'filters.min': 'min',
+  'filters.max': 'max',
+  'filters.minLabel': 'Mindestwert {label}',
+  'filters.maxLabel': 'Höchstwert {label}',
+  'filters.total': 'Basiswertsumme',
+
+  'sort.label': 'Sortieren nach',
+  'sort.id': 'Pokédex-Nummer',
+  'sort.name': 'Name',
+  'sort.ascending': 'Aufsteigend',
+  'sort.descending': 'Absteigend',
+  'sort.ascendingLabel': 'Aufsteigend sortieren',
+  'sort.descendingLabel': 'Absteigend sortieren',
+
+  'favorites.favorite': 'Favorit',
+  'favorites.favorited': 'Favorisiert',
+  'favorites.add': 'Zu Favoriten hinzufügen',
+  'favorites.remove': 'Aus Favoriten entfernen',
+  'favorites.addLabel': '{name} zu Favoriten hinzufügen',
+  'favorites.removeLabel': '{name} aus Favoriten entfernen',
+  'favorites.export': 'Exportieren',
+  'favorites.import': 'Importieren',
+  'favorites.importFile': 'Favoritendatei importieren',
+  'favorites.importCount': { one: '{count} Favorit importieren:', other: '{count} Favoriten importieren:' },
+  'favorites.merge': 'Mit aktuellen zusammenführen',
+  'favorites.replace': 'Aktuelle ersetzen',
+  'favorites.cancel': 'Abbrechen',
+  'favorites.added': {
+    one: '{count} neuer Favorit hinzugefügt ({total} insgesamt).',
+    other: '{count} neue Favoriten hinzugefügt ({total} insgesamt).',
+  },
+  'favorites.imported': { one: '{count} Favorit importiert.', other: '{count} Favoriten importiert.' },
+  'favorites.readFailed': 'Die Datei konnte nicht gelesen werden.',
+  'favorites.invalidJson': 'Die Datei ist kein gültiges JSON.',
+  'favorites.wrongFormat': 'Dies ist keine Favoritendatei von Pokemon Explorer.',
+  'favorites.unsupportedVersion': 'Nicht unterstützte Version der Favoritendatei: {version}.',
+  'favorites.noList': 'Die Datei enthält keine Favoritenliste.',
+  'favorites.missingFields': {
+    one: '{count} Favorit hat keine ID oder keinen Namen.',
+    other: '{count} Favoriten haben keine ID oder keinen Namen.',
+  },
+
+  'team.addTo': 'Zu {team} hinzufügen',
+  'team.addTitle': 'Zum Team hinzufügen',
+  'team.added': 'Hinzugefügt',
+  'team.addLabel': '{name} zu {team} hinzufügen',
+  'team.addLabelNew': '{name} zu einem neuen Team hinzufügen',
+  'team.full': '{team} hat bereits {count} Pokémon',
+
+  'list.empty': 'Keine Pokémon gefunden',
+  'list.emptyHint': 'Versuche, deine Suche anzupassen',
+
+  'matchups.weaknesses': 'Schwächen',
+  'matchups.resistances': 'Resistenzen',
+  'matchups.immunities': 'Immunitäten',
+  'matchups.noWeaknesses': 'Keine Schwächen',
+  'matchups.noResistances': 'Keine Resistenzen',
+  'matchups.noImmunities': 'Keine Immunitäten',
+
+  'evolution.none': 'Dieses Pokémon entwickelt sich nicht.',
+  'evolution.level': 'Level {level}',
+  'evolution.levelUp': 'Levelaufstieg',
+  'evolution.friendship': 'Hohe Freundschaft',
+  'evolution.useItem': '{item} verwenden',
+  'evolution.trade': 'Tausch',
+  'evolution.other': 'Sonderfall: {trigger}',
+  'evolution.holding': 'mit {item}',
+  'evolution.knowing': 'mit der Attacke {move}',
+  'evolution.knowingType': 'mit einer {type}-Attacke',
+  'evolution.affection': 'mit hoher Zuneigung',
+  'evolution.beauty': 'mit hoher Schönheit',
+  'evolution.location': 'bei {location}',
+  'evolution.day': 'tagsüber',
+  'evolution.night': 'nachts',
+  'evolution.dusk': 'in der Abenddämmerung',
+  'evolution.timeOfDay': 'während {time}',
+  'evolution.female': 'nur weiblich',
+  'evolution.male': 'nur männlich',
+  'evolution.rain': 'bei Regen',
+  'evolution.partySpecies': 'mit {species} im Team',
+  'evolution.partyType': 'mit einem {type}-Pokémon im Team',
+  'evolution.attackHigher': 'wenn Angriff > Verteidigung',
+  'evolution.attackLower': 'wenn Angriff < Verteidigung',
+  'evolution.attackEqual': 'wenn Angriff = Verteidigung',
+  'evolution.tradeFor': 'gegen {species}',
+  'evolution.upsideDown': 'mit umgedrehter Konsole',
+
+  'moves.level': 'Lv.',
+  'moves.move': 'Attacke',
+  'moves.type': 'Typ',
+  'moves.category': 'Kategorie',
+  'moves.power': 'Stärke',
+  'moves.accuracy': 'Gen.',
+  'moves.pp': 'AP',
+  'moves.evolution': 'Entw.',
+  'moves.physical': 'Physisch',
+  'moves.special': 'Speziell',
+  'moves.status': 'Status',
+  'moves.search': 'Attacken oder Typen suchen...',
+  'moves.searchLabel': 'Attacken suchen',
+  'moves.version': 'Spielversion',
+  'moves.loading': 'Attacken werden geladen...',
+  'moves.loadFailed': 'Attacken konnten nicht geladen werden.',
+  'moves.noMatch': 'Keine Attacken passen zu „{query}“.',
+  'moves.noneInGame': 'In diesem Spiel keine Attacken.',
+  'moves.learn.level-up': 'Levelaufstieg',
+  'moves.learn.machine': 'TM / VM',
+  'moves.learn.egg': 'Zucht',
+  'moves.learn.tutor': 'Attacken-Lehrer',
+  'moves.learn.other': 'Andere',
+
+  'stat.hp': 'KP',
+  'stat.attack': 'Angriff',
+  'stat.defense': 'Verteidigung',
+  'stat.special-attack': 'Spezial-Angriff',
+  'stat.special-defense': 'Spezial-Verteidigung',
+  'stat.speed': 'Initiative',
+
+  'type.normal': 'Normal',
+  'type.fire': 'Feuer',
+  'type.water': 'Wasser',
+  'type.electric': 'Elektro',
+  'type.grass': 'Pflanze',
+  'type.ice': 'Eis',
+  'type.fighting': 'Kampf',
+  'type.poison': 'Gift',
+  'type.ground': 'Boden',
+  'type.flying': 'Flug',
+  'type.psychic': 'Psycho',
+  'type.bug': 'Käfer',
+  'type.rock': 'Gestein',
+  'type.ghost': 'Geist',
+  'type.dragon': 'Drache',
+  'type.dark': 'Unlicht',
+  'type.steel': 'Stahl',
+  'type.fairy': 'Fee',
+};
+
+const fr: Catalog = {
+  'common.tryAgain': 'Réessayer',
+  'common.backHome': 'Retour à l’accueil',
+  'nav.team': 'Équipe',
+  'nav.language': 'Langue',
+
+  'home.errorTitle': 'Oups ! Une erreur est survenue',
+  'home.loadFailed': 'Impossible de charger les Pokémon. Veuillez réessayer.',
+  'home.title': 'Découvrez les Pokémon',
+  'home.intro':
+    'Partez pour un voyage épique à travers le monde des Pokémon ! <search>Recherchez</search> vos favoris et découvrez leurs <abilities>talents</abilities>, leurs <types>types</types> et leurs <stats>statistiques</stats>.',
+  'home.statTotal': 'Pokémon au total',
+  'home.statLoaded': 'Pokémon chargés',
+  'home.statResults': 'Résultats trouvés',
+  'home.statCached': 'Pokémon en cache',
+  'home.findTitle': 'Trouvez votre Pokémon',
+  'home.findSubtitle': 'Recherche ultra-rapide parmi les {count} Pokémon',
+  'home.searchingFor': 'Recherche :',
+  'home.resultCount': { one: '{count} résultat', other: '{count} résultats' },
+  'home.viewLabel': 'Affichage',
+  'home.viewAll': 'Tous les Pokémon',
+  'home.viewFavorites': 'Favoris ({count})',
+  'home.favoritesTitle': 'Favoris',
+  'home.favoritesEmpty':
+    'Aucun favori pour l’instant. Touchez ☆ sur un Pokémon pour l’ajouter ici, ou importez un fichier de favoris.',
+  'home.loading': 'Chargement des Pokémon...',
+  'home.resultsTitle': 'Résultats de recherche',
+  'home.collectionTitle': 'Collection de Pokémon',
+  'home.searchActive': 'Recherche rapide active',
+  'home.filtersActive': 'Filtres actifs',
+  'home.optimized': 'Optimisé',
+  'home.loadMoreFailed': 'Impossible de charger plus de Pokémon.',
+  'home.loadingMore': 'Chargement...',
+  'home.loadMore': 'Charger plus de Pokémon',
+  'home.showing': '{shown} Pokémon affichés sur {total}',
+  'home.noResultsTitle': 'Aucun Pokémon trouvé',
+  'home.noResultsQuery': 'Aucun Pokémon ne correspond à « {query} ». Essayez un autre terme !',
+  'home.noResultsQueryFiltered': 'Aucun Pokémon ne correspond à « {query} » avec ces filtres. Essayez un autre terme !',
+  'home.noResultsFilters': 'Aucun Pokémon ne correspond à ces filtres. Essayez de les élargir !',
+  'home.showAll': 'Afficher tous les Pokémon',
+  'home.showForms': 'Afficher les autres formes',
+
+  'search.placeholder': 'Rechercher un Pokémon...',
+  'search.clear': 'Effacer la recherche',
+  'search.searching': 'Recherche parmi tous les Pokémon...',
+  'search.found': { one: '{count} résultat pour « {query} »', other: '{count} résultats pour « {query} »' },
+  'search.label': 'Rechercher un Pokémon',
+  'search.suggestions': 'Meilleurs résultats',
+  'search.recentSearches': 'Recherches récentes',
+  'search.recentlyViewed': 'Vus récemment',
+
+  'detail.back': 'Retour à la liste des Pokémon',
+  'detail.height': 'Taille',
+  'detail.weight': 'Poids',
+  'detail.about': 'À propos',
+  'detail.generation': 'Génération',
+  'detail.habitat': 'Habitat',
+  'detail.unknown': 'Inconnu',
+  'detail.captureRate': 'Taux de capture',
+  'detail.growthRate': 'Croissance',
+  'detail.eggGroups': 'Groupes d’œufs',
+  'detail.gender': 'Sexe',
+  'detail.genderless': 'Asexué',
+  'detail.legendary': 'Légendaire',
+  'detail.mythical': 'Fabuleux',
+  'detail.baby': 'Bébé',
+  'detail.abilities': 'Talents',
+  'detail.typeEffectiveness': 'Efficacité des types',
+  'detail.baseStats': 'Statistiques de base',
+  'detail.evolution': 'Évolution',
+  'detail.moves': 'Capacités',
+  'detail.previous': 'Précédent : {name}',
+  'detail.next': 'Suivant : {name}',
+  'detail.navigation': 'Navigation du Pokédex',
+  'detail.shortcuts': '← → parcourir · / rechercher · Échap retour · F favori',
+  'detail.loadFailed': 'Impossible de charger les détails du Pokémon.',
+  'detail.notFound': 'Aucun Pokémon ne porte ce nom ou ce numéro.',
+  'detail.notFoundHint': 'Vérifiez l’orthographe ou cherchez plutôt dans le Pokédex.',
+  'ability.hidden': 'Caché',
+  'ability.effect': 'Effet',
+  'ability.noEffect': 'Aucune description de l’effet n’est disponible.',
+  'ability.pokemon': 'Pokémon ayant ce talent',
+  'ability.loadFailed': 'Impossible de charger le talent.',
+  'ability.notFound': 'Aucun talent ne porte ce nom.',
+  'ability.notFoundHint': 'Vérifiez l’orthographe ou ouvrez un Pokémon pour voir ses talents.',
+  'gallery.title': 'Sprites',
+  'gallery.shiny': 'Chromatique',
+  'gallery.normal': 'Normal',
+  'gallery.male': 'Mâle',
+  'gallery.female': 'Femelle',
+  'gallery.front': 'Face',
+  'gallery.back': 'Dos',
+  'gallery.angle': 'Vue',
+  'gallery.artwork': 'Illustration officielle',
+  'gallery.home': 'Pokémon HOME',
+  'gallery.game': 'Sprite du jeu',
+  'gallery.showdown': 'Animé',
+  'gallery.dreamWorld': 'Dream World',
+  'gallery.generation': 'Génération {generation}',
+  'gallery.animated': '{game} (animé)',
+  'gallery.empty': 'Aucun sprite pour ces options.',
+  'gallery.open': 'Afficher {label} en plein écran',
+  'gallery.close': 'Fermer',
+  'gallery.previous': 'Sprite précédent',
+  'gallery.next': 'Sprite suivant',
+  'gallery.position': '{index} sur {total}',
+  'forms.label': 'Forme',
+  'forms.default': 'Standard',
+  'forms.gmax': 'Gigamax',
+  'forms.alola': 'Forme d’Alola',
+  'forms.galar': 'Forme de Galar',
+  'forms.hisui': 'Forme de Hisui',
+  'forms.paldea': 'Forme de Paldea',
+
+  'filters.title': 'Filtres',
+  'filters.reset': 'Réinitialiser les filtres',
+  'filters.types': 'Types',
+  'filters.ranges': 'Plages',
+  'filters.min': 'min',
+  'filters.max': 'max',
+  'filters.minLabel': '{label} minimum',
+  'filters.maxLabel': '{label} maximum',
+  'filters.total': 'Total des stats de base',
+
+  'sort.label': 'Trier par',
+  'sort.id': 'Numéro du Pokédex',
+  'sort.name': 'Nom',
+  'sort.ascending': 'Croissant',
+  'sort.descending': 'Décroissant',
+  'sort.ascendingLabel': 'Trier par ordre croissant',
+  'sort.descendingLabel': 'Trier par ordre décroissant',
+
+  'favorites.favorite': 'Favori',
+  'favorites.favorited': 'En favori',
+  'favorites.add': 'Ajouter aux favoris',
+  'favorites.remove': 'Retirer des favoris',
+  'favorites.addLabel': 'Ajouter {name} aux favoris',
+  'favorites.removeLabel': 'Retirer {name} des favoris',
+  'favorites.export': 'Exporter',
+  'favorites.import': 'Importer',
+  'favorites.importFile': 'Importer un fichier de favoris',
+  'favorites.importCount': { one: 'Importer {count} favori :', other: 'Importer {count} favoris :' },
+  'favorites.merge': 'Fusionner avec les actuels',
+  'favorites.replace': 'Remplacer les actuels',
+  'favorites.cancel': 'Annuler',
+  'favorites.added': {
+    one: '{count} nouveau favori ajouté ({total} au total).',
+    other: '{count} nouveaux favoris ajoutés ({total} au total).',
+  },
+  'favorites.imported': { one: '{count} favori importé.', other: '{count} favoris importés.' },
+  'favorites.readFailed': 'Impossible de lire le fichier.',
+  'favorites.invalidJson': 'Le fichier n’est pas un JSON valide.',
+  'favorites.wrongFormat': 'Ce n’est pas un fichier de favoris Pokemon Explorer.',
+  'favorites.unsupportedVersion': 'Version de fichier de favoris non prise en charge : {version}.',
+  'favorites.noList': 'Le fichier ne contient pas de liste de favoris.',
+  'favorites.missingFields': {
+    one: '{count} favori n’a pas d’identifiant ou de nom.',
+    other: '{count} favoris n’ont pas d’identifiant ou de nom.',
+  },
+
+  'team.addTo': 'Ajouter à {team}',
+  'team.addTitle': 'Ajouter à l’équipe',
+  'team.added': 'Ajouté',
+  'team.addLabel': 'Ajouter {name} à {team}',
+  'team.addLabelNew': 'Ajouter {name} à une nouvelle équipe',
+  'team.full': '{team} compte déjà {count} Pokémon',
+
+  'list.empty': 'Aucun Pokémon trouvé',
+  'list.emptyHint': 'Essayez de modifier votre recherche',
+
+  'matchups.weaknesses': 'Faiblesses',
+  'matchups.resistances': 'Résistances',
+  'matchups.immunities': 'Immunités',
+  'matchups.noWeaknesses': 'Aucune faiblesse',
+  'matchups.noResistances': 'Aucune résistance',
+  'matchups.noImmunities': 'Aucune immunité',
+
+  'evolution.none': 'Ce Pokémon n’évolue pas.',
+  'evolution.level': 'Niveau {level}',
+  'evolution.levelUp': 'Montée de niveau',
+  'evolution.friendship': 'Amitié élevée',
+  'evolution.useItem': 'Utiliser {item}',
+  'evolution.trade': 'Échange',
+  'evolution.other': 'Spécial : {trigger}',
+  'evolution.holding': 'en tenant {item}',
+  'evolution.knowing': 'en connaissant {move}',
+  'evolution.knowingType': 'en connaissant une capacité de type {type}',
+  'evolution.affection': 'avec une grande affection',
+  'evolution.beauty': 'avec une beauté élevée',
+  'evolution.location': 'à {location}',
+  'evolution.day': 'de jour',
+  'evolution.night': 'de nuit',
+  'evolution.dusk': 'au crépuscule',
+  'evolution.timeOfDay': 'pendant {time}',
+  'evolution.female': 'si femelle',
+  'evolution.male': 'si mâle',
+  'evolution.rain': 'sous la pluie',
+  'evolution.partySpecies': 'avec {species} dans l’équipe',
+  'evolution.partyType': 'avec un Pokémon de type {type} dans l’équipe',
+  'evolution.attackHigher': 'si Attaque > Défense',
+  'evolution.attackLower': 'si Attaque < Défense',
+  'evolution.attackEqual': 'si Attaque = Défense',
+  'evolution.tradeFor': 'contre {species}',
+  'evolution.upsideDown': 'en retournant la console',
+
+  'moves.level': 'N.',
+  'moves.move': 'Capacité',
+  'moves.type': 'Type',
+  'moves.category': 'Catégorie',
+  'moves.power': 'Puissance',
+  'moves.accuracy': 'Préc.',
+  'moves.pp': 'PP',
+  'moves.evolution': 'Évo.',
+  'moves.physical': 'Physique',
+  'moves.special': 'Spéciale',
+  'moves.status': 'Statut',
+  'moves.search': 'Rechercher des capacités ou des types...',
+  'moves.searchLabel': 'Rechercher des capacités',
+  'moves.version': 'Version du jeu',
+  'moves.loading': 'Chargement des capacités...',
+  'moves.loadFailed': 'Impossible de charger les capacités.',
+  'moves.noMatch': 'Aucune capacité ne correspond à « {query} ».',
+  'moves.noneInGame': 'Aucune capacité dans ce jeu.',
+  'moves.learn.level-up': 'Montée de niveau',
+  'moves.learn.machine': 'CT / CS',
+  'moves.learn.egg': 'Œuf',
+  'moves.learn.tutor': 'Donneur de capacités',
+  'moves.learn.other': 'Autre',
+
+  'stat.hp': 'PV',
+  'stat.attack': 'Attaque',
+  'stat.defense': 'Défense',
+  'stat.special-attack': 'Attaque Spéciale',
+  'stat.special-defense': 'Défense Spéciale',
+  'stat.speed': 'Vitesse',
+
+  'type.normal': 'Normal',
+  'type.fire': 'Feu',
+  'type.water': 'Eau',
+  'type.electric': 'Électrik',
+  'type.grass': 'Plante',
+  'type.ice': 'Glace',
+  'type.fighting': 'Combat',
+  'type.poison': 'Poison',
+  'type.ground': 'Sol',
+  'type.flying': 'Vol',
+  'type.psychic': 'Psy',
+  'type.bug': 'Insecte',
+  'type.rock': 'Roche',
+  'type.ghost': 'Spectre',
+  'type.dragon': 'Dragon',
+  'type.dark': 'Ténèbres',
+  'type.steel': 'Acier',
+  'type.fairy': 'Fée',
+};
+
+const es: Catalog = {
+  'common.tryAgain': 'Reintentar',
+  'common.backHome': 'Volver al inicio',
+  'nav.team': 'Equipo',
+  'nav.language': 'Idioma',
+
+  'home.errorTitle': '¡Vaya! Algo salió mal',
+  'home.loadFailed': 'No se pudieron cargar los Pokémon. Inténtalo de nuevo.',
+  'home.title': 'Descubre Pokémon',
+  'home.intro':
+    '¡Emprende un viaje épico por el mundo Pokémon! <search>Busca</search> a tus favoritos y descubre sus <abilities>habilidades</abilities>, <types>tipos</types> y <stats>estadísticas</stats>.',
+  'home.statTotal': 'Pokémon en total',
+  'home.statLoaded': 'Pokémon cargados',
+  'home.statResults': 'Resultados',
+  'home.statCached': 'Pokémon en caché',
+  'home.findTitle': 'Encuentra tu Pokémon',
+  'home.findSubtitle': 'Búsqueda ultrarrápida entre los {count} Pokémon',
+  'home.searchingFor': 'Buscando:',
+  'home.resultCount': { one: '{count} resultado', other: '{count} resultados' },
+  'home.viewLabel': 'Vista',
+  'home.viewAll': 'Todos los Pokémon',
+  'home.viewFavorites': 'Favoritos ({count})',
+  'home.favoritesTitle': 'Favoritos',
+  'home.favoritesEmpty':
+    'Aún no tienes favoritos. Toca ☆ en cualquier Pokémon para añadirlo aquí o importa un archivo de favoritos.',
+  'home.loading': 'Cargando Pokémon...',
+  'home.resultsTitle': 'Resultados de búsqueda',
+  'home.collectionTitle': 'Colección Pokémon',
+  'home.searchActive': 'Búsqueda rápida activa',
+  'home.filtersActive': 'Filtros activos',
+  'home.optimized': 'Optimizado',
+  'home.loadMoreFailed': 'No se pudieron cargar más Pokémon.',
+  'home.loadingMore': 'Cargando...',
+  'home.loadMore': 'Cargar más Pokémon',
+  'home.showing': 'Mostrando {shown} de {total} Pokémon',
+  'home.noResultsTitle': 'No se encontraron Pokémon',
+  'home.noResultsQuery': 'No encontramos ningún Pokémon que coincida con «{query}». ¡Prueba con otro término!',
+  'home.noResultsQueryFiltered':
+    'No encontramos ningún Pokémon que coincida con «{query}» con estos filtros. ¡Prueba con otro término!',
+  'home.noResultsFilters': 'No encontramos ningún Pokémon con estos filtros. ¡Prueba a ampliarlos!',
+  'home.showAll': 'Mostrar todos los Pokémon',
+  'home.showForms': 'Mostrar formas alternativas',
+
+  'search.placeholder': 'Buscar Pokémon...',
+  'search.clear': 'Borrar búsqueda',
+  'search.searching': 'Buscando entre todos los Pokémon...',
+  'search.found': { one: '{count} resultado para «{query}»', other: '{count} resultados para «{query}»' },
+  'search.label': 'Buscar Pokémon',
+  'search.suggestions': 'Mejores resultados',
+  'search.recentSearches': 'Búsquedas recientes',
+  'search.recentlyViewed': 'Vistos recientemente',
+
+  'detail.back': 'Volver a la lista de Pokémon',
+  'detail.height': 'Altura',
+  'detail.weight': 'Peso',
+  'detail.about': 'Información',
+  'detail.generation': 'Generación',
+  'detail.habitat': 'Hábitat',
+  'detail.unknown': 'Desconocido',
+  'detail.captureRate': 'Ratio de captura',
+  'detail.growthRate': 'Crecimiento',
+  'detail.eggGroups': 'Grupos huevo',
+  'detail.gender': 'Sexo',
+  'detail.genderless': 'Sin género',
+  'detail.legendary': 'Legendario',
+  'detail.mythical': 'Singular',
+  'detail.baby': 'Bebé',
+  'detail.abilities': 'Habilidades',
+  'detail.typeEffectiveness': 'Eficacia de tipos',
+  'detail.baseStats': 'Estadísticas base',
+  'detail.evolution': 'Evolución',
+  'detail.moves': 'Movimientos',
+  'detail.previous': 'Anterior: {name}',
+  'detail.next': 'Siguiente: {name}',
+  'detail.navigation': 'Navegación de la Pokédex',
+  'detail.shortcuts': '← → navegar · / buscar · Esc volver · F favorito',
+  'detail.loadFailed': 'No se pudieron cargar los detalles del Pokémon.',
+  'detail.notFound': 'Ningún Pokémon tiene ese nombre o número.',
+  'detail.notFoundHint': 'Revisa la ortografía o busca en la Pokédex.',
+  'ability.hidden': 'Oculta',
+  'ability.effect': 'Efecto',
+  'ability.noEffect': 'No hay descripción del efecto.',
+  'ability.pokemon': 'Pokémon con esta habilidad',
+  'ability.loadFailed': 'No se pudo cargar la habilidad.',
+  'ability.notFound': 'Ninguna habilidad tiene ese nombre.',
+  'ability.notFoundHint': 'Revisa la ortografía o abre un Pokémon para ver sus habilidades.',
+  'gallery.title': 'Sprites',
+  'gallery.shiny': 'Variocolor',
+  'gallery.normal': 'Normal',
+  'gallery.male': 'Macho',
+  'gallery.female': 'Hembra',
+  'gallery.front': 'Frente',
+  'gallery.back': 'Espalda',
+  'gallery.angle': 'Vista',
+  'gallery.artwork': 'Ilustración oficial',
+  'gallery.home': 'Pokémon HOME',
+  'gallery.game': 'Sprite del juego',
+  'gallery.showdown': 'Animado',
+  'gallery.dreamWorld': 'Dream World',
+  'gallery.generation': 'Generación {generation}',
+  'gallery.animated': '{game} (animado)',
+  'gallery.empty': 'No hay sprites para estas opciones.',
+  'gallery.open': 'Ver {label} a pantalla completa',
+  'gallery.close': 'Cerrar',
+  'gallery.previous': 'Sprite anterior',
+  'gallery.next': 'Sprite siguiente',
+  'gallery.position': '{index} de {total}',
+  'forms.label': 'Forma',
+  'forms.default': 'Estándar',
+  'forms.gmax': 'Gigamax',
+  'forms.alola': 'Forma de Alola',
+  'forms.galar': 'Forma de Galar',
+  'forms.hisui': 'Forma de Hisui',
+  'forms.paldea': 'Forma de Paldea',
+
+  'filters.title': 'Filtros',
+  'filters.reset': 'Restablecer filtros',
+  'filters.types': 'Tipos',
+  'filters.ranges': 'Rangos',
+  'filters.min': 'mín',
+  'filters.max': 'máx',
+  'filters.minLabel': '{label} mínimo',
+  'filters.maxLabel': '{label} máximo',
+  'filters.total': 'Total de estadísticas base',
+
+  'sort.label': 'Ordenar por',
+  'sort.id': 'Número de la Pokédex',
+  'sort.name': 'Nombre',
+  'sort.ascending': 'Ascendente',
+  'sort.descending': 'Descendente',
+  'sort.ascendingLabel': 'Orden ascendente',
+  'sort.descendingLabel': 'Orden descendente',
+
+  'favorites.favorite': 'Favorito',
+  'favorites.favorited': 'En favoritos',
+  'favorites.add': 'Añadir a favoritos',
+  'favorites.remove': 'Quitar de favoritos',
+  'favorites.addLabel': 'Añadir {name} a favoritos',
+  'favorites.removeLabel': 'Quitar {name} de favoritos',
+  'favorites.export': 'Exportar',
+  'favorites.import': 'Importar',
+  'favorites.importFile': 'Importar archivo de favoritos',
+  'favorites.importCount': { one: 'Importar {count} favorito:', other: 'Importar {count} favoritos:' },
+  'favorites.merge': 'Combinar con los actuales',
+  'favorites.replace': 'Reemplazar los actuales',
+  'favorites.cancel': 'Cancelar',
+  'favorites.added': {
+    one: 'Se añadió {count} favorito nuevo ({total} en total).',
+    other: 'Se añadieron {count} favoritos nuevos ({total} en total).',
+  },
+  'favorites.imported': { one: 'Se importó {count} favorito.', other: 'Se importaron {count} favoritos.' },
+  'favorites.readFailed': 'No se pudo leer el archivo.',
+  'favorites.invalidJson': 'El archivo no es un JSON válido.',
+  'favorites.wrongFormat': 'No es un archivo de favoritos de Pokemon Explorer.',
+  'favorites.unsupportedVersion': 'Versión de archivo de favoritos no compatible: {version}.',
+  'favorites.noList': 'El archivo no tiene lista de favoritos.',
+  'favorites.missingFields': {
+    one: 'A {count} favorito le falta el id o el nombre.',
+    other: 'A {count} favoritos les falta el id o el nombre.',
+  },
+
+  'team.addTo': 'Añadir a {team}',
+  'team.addTitle': 'Añadir al equipo',
+  'team.added': 'Añadido',
+  'team.addLabel': 'Añadir {name} a {team}',
+  'team.addLabelNew': 'Añadir {name} a un equipo nuevo',
+  'team.full': '{team} ya tiene {count} Pokémon',
+
+  'list.empty': 'No se encontraron Pokémon',
+  'list.emptyHint': 'Prueba a cambiar los términos de búsqueda',
+
+  'matchups.weaknesses': 'Debilidades',
+  'matchups.resistances': 'Resistencias',
+  'matchups.immunities': 'Inmunidades',
+  'matchups.noWeaknesses': 'Sin debilidades',
+  'matchups.noResistances': 'Sin resistencias',
+  'matchups.noImmunities': 'Sin inmunidades',
+
+  'evolution.none': 'Este Pokémon no evoluciona.',
+  'evolution.level': 'Nivel {level}',
+  'evolution.levelUp': 'Subir de nivel',
+  'evolution.friendship': 'Amistad alta',
+  'evolution.useItem': 'Usar {item}',
+  'evolution.trade': 'Intercambio',
+  'evolution.other': 'Especial: {trigger}',
+  'evolution.holding': 'con {item} equipado',
+  'evolution.knowing': 'conociendo {move}',
+  'evolution.knowingType': 'conociendo un movimiento de tipo {type}',
+  'evolution.affection': 'con mucho afecto',
+  'evolution.beauty': 'con mucha belleza',
+  'evolution.location': 'en {location}',
+  'evolution.day': 'de día',
+  'evolution.night': 'de noche',
+  'evolution.dusk': 'al anochecer',
+  'evolution.timeOfDay': 'durante {time}',
+  'evolution.female': 'si es hembra',
+  'evolution.male': 'si es macho',
+  'evolution.rain': 'mientras llueve',
+  'evolution.partySpecies': 'con {species} en el equipo',
+  'evolution.partyType': 'con un Pokémon de tipo {type} en el equipo',
+  'evolution.attackHigher': 'si Ataque > Defensa',
+  'evolution.attackLower': 'si Ataque < Defensa',
+  'evolution.attackEqual': 'si Ataque = Defensa',
+  'evolution.tradeFor': 'por {species}',
+  'evolution.upsideDown': 'con la consola boca abajo',
+
+  'moves.level': 'Nv.',
+  'moves.move': 'Movimiento',
+  'moves.type': 'Tipo',
+  'moves.category': 'Categoría',
+  'moves.power': 'Potencia',
+  'moves.accuracy': 'Prec.',
+  'moves.pp': 'PP',
+  'moves.evolution': 'Evo.',
+  'moves.physical': 'Físico',
+  'moves.special': 'Especial',
+  'moves.status': 'Estado',
+  'moves.search': 'Buscar movimientos o tipos...',
+  'moves.searchLabel': 'Buscar movimientos',
+  'moves.version': 'Versión del juego',
+  'moves.loading': 'Cargando movimientos...',
+  'moves.loadFailed': 'No se pudieron cargar los movimientos.',
+  'moves.noMatch': 'Ningún movimiento coincide con «{query}».',
+  'moves.noneInGame': 'No hay movimientos en este juego.',
+  'moves.learn.level-up': 'Subir de nivel',
+  'moves.learn.machine': 'MT / MO',
+  'moves.learn.egg': 'Huevo',
+  'moves.learn.tutor': 'Tutor',
+  'moves.learn.other': 'Otro',
+
+  'stat.hp': 'PS',
+  'stat.attack': 'Ataque',
+  'stat.defense': 'Defensa',
+  'stat.special-attack': 'Ataque Especial',
+  'stat.special-defense': 'Defensa Especial',
+  'stat.speed': 'Velocidad',
+
+  'type.normal': 'Normal',
+  'type.fire': 'Fuego',
+  'type.water': 'Agua',
+  'type.electric': 'Eléctrico',
+  'type.grass': 'Planta',
+  'type.ice': 'Hielo',
+  'type.fighting': 'Lucha',
+  'type.poison': 'Veneno',
+  'type.ground': 'Tierra',
+  'type.flying': 'Volador',
+  'type.psychic': 'Psíquico',
+  'type.bug': 'Bicho',
+  'type.rock': 'Roca',
+  'type.ghost': 'Fantasma',
+  'type.dragon': 'Dragón',
+  'type.dark': 'Siniestro',
+  'type.steel': 'Acero',
+  'type.fairy': 'Hada',
+};
+
+const ko: Catalog = {
+  'common.tryAgain': '다시 시도',
+  'common.backHome': '홈으로 돌아가기',
+  'nav.team': '팀',
+  'nav.language': '언어',
+
+  'home.errorTitle': '앗! 문제가 발생했습니다',
+  'home.loadFailed': '포켓몬을 불러오지 못했습니다. 다시 시도해 주세요.',
+  'home.title': '포켓몬 탐험',
+  'home.intro':
+    '포켓몬 세계를 누비는 장대한 모험을 시작하세요! 좋아하는 포켓몬을 <search>검색</search>하고 고유한 <abilities>특성</abilities>, <types>타입</types>, <stats>능력치</stats>를 알아보세요.',
+  'home.statTotal': '전체 포켓몬',
+  'home.statLoaded': '불러온 포켓몬',
+  'home.statResults': '검색 결과',
+  'home.statCached': '캐시된 포켓몬',
+  'home.findTitle': '포켓몬 찾기',
+  'home.findSubtitle': '포켓몬 {count}마리를 빠르게 검색',
+  'home.searchingFor': '검색어:',
+  'home.resultCount': { other: '결과 {count}개' },
+  'home.viewLabel': '보기',
+  'home.viewAll': '모든 포켓몬',
+  'home.viewFavorites': '즐겨찾기 ({count})',
+  'home.favoritesTitle': '즐겨찾기',
+  'home.favoritesEmpty': '아직 즐겨찾기가 없습니다. 포켓몬의 ☆을 눌러 추가하거나 즐겨찾기 파일을 가져오세요.',
+  'home.loading': '포켓몬을 불러오는 중...',
+  'home.resultsTitle': '검색 결과',
+  'home.collectionTitle': '포켓몬 컬렉션',
+  'home.searchActive': '빠른 검색 사용 중',
+  'home.filtersActive': '필터 적용됨',
+  'home.optimized': '최적화됨',
+  'home.loadMoreFailed': '포켓몬을 더 불러오지 못했습니다.',
+  'home.loadingMore': '불러오는 중...',
+  'home.loadMore': '포켓몬 더 보기',
+  'home.showing': '{total}마리 중 {shown}마리 표시',
+  'home.noResultsTitle': '포켓몬을 찾을 수 없습니다',
+  'home.noResultsQuery': '"{query}"와(과) 일치하는 포켓몬이 없습니다. 다른 검색어를 입력해 보세요!',
+  'home.noResultsQueryFiltered': '이 필터로 "{query}"와(과) 일치하는 포켓몬이 없습니다. 다른 검색어를 입력해 보세요!',
+  'home.noResultsFilters': '이 필터와 일치하는 포켓몬이 없습니다. 필터를 넓혀 보세요!',
+  'home.showAll': '모든 포켓몬 보기',
+  'home.showForms': '다른 폼 표시',
+
+  'search.placeholder': '포켓몬 검색...',
+  'search.clear': '검색 지우기',
+  'search.searching': '모든 포켓몬을 검색하는 중...',
+  'search.found': { other: '"{query}" 검색 결과 {count}개' },
+  'search.label': '포켓몬 검색',
+  'search.suggestions': '추천 결과',
+  'search.recentSearches': '최근 검색',
+  'search.recentlyViewed': '최근 본 포켓몬',
+
+  'detail.back': '포켓몬 목록으로 돌아가기',
+  'detail.height': '키',
+  'detail.weight': '몸무게',
+  'detail.about': '소개',
+  'detail.generation': '세대',
+  'detail.habitat': '서식지',
+  'detail.unknown': '알 수 없음',
+  'detail.captureRate': '포획률',
+  'detail.growthRate': '성장 속도',
+  'detail.eggGroups': '알 그룹',
+  'detail.gender': '성별',
+  'detail.genderless': '무성',
+  'detail.legendary': '전설',
+  'detail.mythical': '환상',
+  'detail.baby': '아기',
+  'detail.abilities': '특성',
+  'detail.typeEffectiveness': '타입 상성',
+  'detail.baseStats': '종족값',
+  'detail.evolution': '진화',
+  'detail.moves': '기술',
+  'detail.previous': '이전: {name}',
+  'detail.next': '다음: {name}',
+  'detail.navigation': '도감 탐색',
+  'detail.shortcuts': '← → 이동 · / 검색 · Esc 뒤로 · F 즐겨찾기',
+  'detail.loadFailed': '포켓몬 정보를 불러오지 못했습니다.',
+  'detail.notFound': '해당 이름이나 번호의 포켓몬이 없습니다.',
+  'detail.notFoundHint': '철자를 확인하거나 도감에서 검색해 보세요.',
+  'ability.hidden': '숨겨진',
+  'ability.effect': '효과',
+  'ability.noEffect': '효과 설명이 없습니다.',
+  'ability.pokemon': '이 특성을 가진 포켓몬',
+  'ability.loadFailed': '특성을 불러오지 못했습니다.',
+  'ability.notFound': '해당 이름의 특성이 없습니다.',
+  'ability.notFoundHint': '철자를 확인하거나 포켓몬을 열어 특성을 확인해 보세요.',
+  'gallery.title': '스프라이트',
+  'gallery.shiny': '이로치',
+  'gallery.normal': '일반',
+  'gallery.male': '수컷',
+  'gallery.female': '암컷',
+  'gallery.front': '앞모습',
+  'gallery.back': '뒷모습',
+  'gallery.angle': '방향',
+  'gallery.artwork': '공식 일러스트',
+  'gallery.home': 'Pokémon HOME',
+  'gallery.game': '게임 스프라이트',
+  'gallery.showdown': '애니메이션',
+  'gallery.dreamWorld': '드림월드',
+  'gallery.generation': '{generation}세대',
+  'gallery.animated': '{game} (애니메이션)',
+  'gallery.empty': '이 조건에 맞는 스프라이트가 없습니다.',
+  'gallery.open': '{label} 전체 화면으로 보기',
+  'gallery.close': '닫기',
+  'gallery.previous': '이전 스프라이트',
+  'gallery.next': '다음 스프라이트',
+  'gallery.position': '{index} / {total}',
+  'forms.label': '폼',
+  'forms.default': '기본',
+  'forms.gmax': '거다이맥스',
+  'forms.alola': '알로라의 모습',
+  'forms.galar': '가라르의 모습',
+  'forms.hisui': '히스이의 모습',
+  'forms.paldea': '팔데아의 모습',
+
+  'filters.title': '필터',
+  'filters.reset': '필터 초기화',
+  'filters.types': '타입',
+  'filters.ranges': '범위',
+  'filters.min': '최소',
+  'filters.max': '최대',
+  'filters.minLabel': '{label} 최소값',
+  'filters.maxLabel': '{label} 최대값',
+  'filters.total': '종족값 합계',
+
+  'sort.label': '정렬 기준',
+  'sort.id': '도감 번호',
+  'sort.name': '이름',
+  'sort.ascending': '오름차순',
+  'sort.descending': '내림차순',
+  'sort.ascendingLabel': '오름차순 정렬',
+  'sort.descendingLabel': '내림차순 정렬',
+
+  'favorites.favorite': '즐겨찾기',
+  'favorites.favorited': '즐겨찾기됨',
+  'favorites.add': '즐겨찾기에 추가',
+  'favorites.remove': '즐겨찾기에서 삭제',
+  'favorites.addLabel': '{name}을(를) 즐겨찾기에 추가',
+  'favorites.removeLabel': '{name}을(를) 즐겨찾기에서 삭제',
+  'favorites.export': '내보내기',
+  'favorites.import': '가져오기',
+  'favorites.importFile': '즐겨찾기 파일 가져오기',
+  'favorites.importCount': { other: '즐겨찾기 {count}개 가져오기:' },
+  'favorites.merge': '현재 목록과 합치기',
+  'favorites.replace': '현재 목록 바꾸기',
+  'favorites.cancel': '취소',
+  'favorites.added': { other: '새 즐겨찾기 {count}개를 추가했습니다(총 {total}개).' },
+  'favorites.imported': { other: '즐겨찾기 {count}개를 가져왔습니다.' },
+  'favorites.readFailed': '파일을 읽을 수 없습니다.',
+  'favorites.invalidJson': '올바른 JSON 파일이 아닙니다.',
+  'favorites.wrongFormat': 'Pokemon Explorer 즐겨찾기 파일이 아닙니다.',
+  'favorites.unsupportedVersion': '지원하지 않는 즐겨찾기 파일 버전입니다: {version}.',
+  'favorites.noList': '파일에 즐겨찾기 목록이 없습니다.',
+  'favorites.missingFields': { other: '즐겨찾기 {count}개에 ID나 이름이 없습니다.' },
+
+  'team.addTo': '{team}에 추가',
+  'team.addTitle': '팀에 추가',
+  'team.added': '추가됨',
+  'team.addLabel': '{name}을(를) {team}에 추가',
+  'team.addLabelNew': '{name}을(를) 새 팀에 추가',
+  'team.full': '{team}에는 이미 포켓몬이 {count}마리 있습니다',
+
+  'list.empty': '포켓몬을 찾을 수 없습니다',
+  'list.emptyHint': '검색어를 바꿔 보세요',
+
+  'matchups.weaknesses': '약점',
+  'matchups.resistances': '반감',
+  'matchups.immunities': '무효',
+  'matchups.noWeaknesses': '약점 없음',
+  'matchups.noResistances': '반감 없음',
+  'matchups.noImmunities': '무효 없음',
+
+  'evolution.none': '이 포켓몬은 진화하지 않습니다.',
+  'evolution.level': '레벨 {level}',
+  'evolution.levelUp': '레벨업',
+  'evolution.friendship': '높은 친밀도',
+  'evolution.useItem': '{item} 사용',
+  'evolution.trade': '통신교환',
+  'evolution.other': '특수: {trigger}',
+  'evolution.holding': '{item}을(를) 지닌 채',
+  'evolution.knowing': '{move}을(를) 배운 상태로',
+  'evolution.knowingType': '{type} 타입 기술을 배운 상태로',
+  'evolution.affection': '절친도가 높은 상태로',
+  'evolution.beauty': '아름다움이 높은 상태로',
+  'evolution.location': '{location}에서',
+  'evolution.day': '낮에',
+  'evolution.night': '밤에',
+  'evolution.dusk': '황혼에',
+  'evolution.timeOfDay': '{time}에',
+  'evolution.female': '암컷만',
+  'evolution.male': '수컷만',
+  'evolution.rain': '비가 올 때',
+  'evolution.partySpecies': '지닌 포켓몬에 {species}이(가) 있을 때',
+  'evolution.partyType': '지닌 포켓몬에 {type} 타입이 있을 때',
+  'evolution.attackHigher': '공격 > 방어일 때',
+  'evolution.attackLower': '공격 < 방어일 때',
+  'evolution.attackEqual': '공격 = 방어일 때',
+  'evolution.tradeFor': '{species}와(과) 교환',
+  'evolution.upsideDown': '게임기를 거꾸로 들고',
+
+  'moves.level': 'Lv.',
+  'moves.move': '기술',
+  'moves.type': '타입',
+  'moves.category': '분류',
+  'moves.power': '위력',
+  'moves.accuracy': '명중',
+  'moves.pp': 'PP',
+  'moves.evolution': '진화',
+  'moves.physical': '물리',
+  'moves.special': '특수',
+  'moves.status': '변화',
+  'moves.search': '기술 또는 타입 검색...',
+  'moves.searchLabel': '기술 검색',
+  'moves.version': '게임 버전',
+  'moves.loading': '기술을 불러오는 중...',
+  'moves.loadFailed': '기술을 불러오지 못했습니다.',
+  'moves.noMatch': '"{query}"와(과) 일치하는 기술이 없습니다.',
+  'moves.noneInGame': '이 게임에서 배우는 기술이 없습니다.',
+  'moves.learn.level-up': '레벨업',
+  'moves.learn.machine': '기술머신',
+  'moves.learn.egg': '알 기술',
+  'moves.learn.tutor': '기술 가르침',
+  'moves.learn.other': '기타',
+
+  'stat.hp': 'HP',
+  'stat.attack': '공격',
+  'stat.defense': '방어',
+  'stat.special-attack': '특수공격',
+  'stat.special-defense': '특수방어',
+  'stat.speed': '스피드',
+
+  'type.normal': '노말',
+  'type.fire': '불꽃',
+  'type.water': '물',
+  'type.electric': '전기',
+  'type.grass': '풀',
+  'type.ice': '얼음',
+  'type.fighting': '격투',
+  'type.poison': '독',
+  'type.ground': '땅',
+  'type.flying': '비행',
+  'type.psychic': '에스퍼',
+  'type.bug': '벌레',
+  'type.rock': '바위',
+  'type.ghost': '고스트',
+  'type.dragon': '드래곤',
+  'type.dark': '악',
+  'type.steel': '강철',
+  'type.fairy': '페어리',
+};
+
+const zh: Catalog = {
+  'common.tryAgain': '重试',
+  'common.backHome': '返回首页',
+  'nav.team': '队伍',
+  'nav.language': '语言',
+
+  'home.errorTitle': '哎呀！出错了',
+  'home.loadFailed': '无法加载宝可梦，请重试。',
+  'home.title': '探索宝可梦',
+  'home.intro':
+    '踏上穿越宝可梦世界的史诗之旅！<search>搜索</search>你喜爱的宝可梦，了解它们独特的<abilities>特性</abilities>、<types>属性</types>和<stats>能力值</stats>。',
+  'home.statTotal': '宝可梦总数',
+  'home.statLoaded': '已加载',
+  'home.statResults': '搜索结果',
+  'home.statCached': '已缓存',
+  'home.findTitle': '查找宝可梦',
+  'home.findSubtitle': '在全部 {count} 只宝可梦中极速搜索',
+  'home.searchingFor': '正在搜索：',
+  'home.resultCount': { other: '{count} 个结果' },
+  'home.viewLabel': '视图',
+  'home.viewAll': '全部宝可梦',
+  'home.viewFavorites': '收藏 ({count})',
+  'home.favoritesTitle': '收藏',
+  'home.favoritesEmpty': '还没有收藏。点击任意宝可梦上的 ☆ 即可添加，也可以导入收藏文件。',
+  'home.loading': '正在加载宝可梦...',
+  'home.resultsTitle': '搜索结果',
+  'home.collectionTitle': '宝可梦图鉴',
+  'home.searchActive': '快速搜索中',
+  'home.filtersActive': '已筛选',
+  'home.optimized': '已优化',
+  'home.loadMoreFailed': '无法加载更多宝可梦。',
+  'home.loadingMore': '加载中...',
+  'home.loadMore': '加载更多宝可梦',
+  'home.showing': '显示 {shown} / {total} 只宝可梦',
+  'home.noResultsTitle': '未找到宝可梦',
+  'home.noResultsQuery': '找不到与“{query}”匹配的宝可梦。换个关键词试试吧！',
+  'home.noResultsQueryFiltered': '在当前筛选条件下找不到与“{query}”匹配的宝可梦。换个关键词试试吧！',
+  'home.noResultsFilters': '找不到符合这些筛选条件的宝可梦。试着放宽条件吧！',
+  'home.showAll': '显示全部宝可梦',
+  'home.showForms': '显示其他形态',
+
+  'search.placeholder': '搜索宝可梦...',
+  'search.clear': '清除搜索',
+  'search.searching': '正在搜索全部宝可梦...',
+  'search.found': { other: '“{query}”的搜索结果：{count} 个' },
+  'search.label': '搜索宝可梦',
+  'search.suggestions': '最佳匹配',
+  'search.recentSearches': '最近搜索',
+  'search.recentlyViewed': '最近浏览',
+
+  'detail.back': '返回宝可梦列表',
+  'detail.height': '身高',
+  'detail.weight': '体重',
+  'detail.about': '简介',
+  'detail.generation': '世代',
+  'detail.habitat': '栖息地',
+  'detail.unknown': '未知',
+  'detail.captureRate': '捕获率',
+  'detail.growthRate': '成长速度',
+  'detail.eggGroups': '蛋群',
+  'detail.gender': '性别',
+  'detail.genderless': '无性别',
+  'detail.legendary': '传说',
+  'detail.mythical': '幻之',
+  'detail.baby': '宝宝',
+  'detail.abilities': '特性',
+  'detail.typeEffectiveness': '属性相克',
+  'detail.baseStats': '种族值',
+  'detail.evolution': '进化',
+  'detail.moves': '招式',
+  'detail.previous': '上一个：{name}',
+  'detail.next': '下一个：{name}',
+  'detail.navigation': '图鉴导航',
+  'detail.shortcuts': '← → 切换 · / 搜索 · Esc 返回 · F 收藏',
+  'detail.loadFailed': '无法加载宝可梦详情。',
+  'detail.notFound': '没有这个名字或编号的宝可梦。',
+  'detail.notFoundHint': '请检查拼写，或在图鉴中搜索。',
+  'ability.hidden': '隐藏',
+  'ability.effect': '效果',
+  'ability.noEffect': '暂无效果说明。',
+  'ability.pokemon': '拥有此特性的宝可梦',
+  'ability.loadFailed': '无法加载特性。',
+  'ability.notFound': '没有这个名字的特性。',
+  'ability.notFoundHint': '请检查拼写，或打开宝可梦查看其特性。',
+  'gallery.title': '图像',
+  'gallery.shiny': '异色',
+  'gallery.normal': '普通',
+  'gallery.male': '雄性',
+  'gallery.female': '雌性',
+  'gallery.front': '正面',
+  'gallery.back': '背面',
+  'gallery.angle': '方向',
+  'gallery.artwork': '官方插画',
+  'gallery.home': 'Pokémon HOME',
+  'gallery.game': '游戏像素图',
+  'gallery.showdown': '动态图',
+  'gallery.dreamWorld': '梦境世界',
+  'gallery.generation': '第{generation}世代',
+  'gallery.animated': '{game}（动态）',
+  'gallery.empty': '没有符合这些选项的图像。',
+  'gallery.open': '全屏查看{label}',
+  'gallery.close': '关闭',
+  'gallery.previous': '上一张',
+  'gallery.next': '下一张',
+  'gallery.position': '{index} / {total}',
+  'forms.label': '形态',
+  'forms.default': '普通',
+  'forms.gmax': '超极巨化',
+  'forms.alola': '阿罗拉的样子',
+  'forms.galar': '伽勒尔的样子',
+  'forms.hisui': '洗翠的样子',
+  'forms.paldea': '帕底亚的样子',
+
+  'filters.title': '筛选',
+  'filters.reset': '重置筛选',
+  'filters.types': '属性',
+  'filters.ranges': '范围',
+  'filters.min': '最小',
+  'filters.max': '最大',
+  'filters.minLabel': '{label}最小值',
+  'filters.maxLabel': '{label}最大值',
+  'filters.total': '种族值总和',
+
+  'sort.label': '排序方式',
+  'sort.id': '图鉴编号',
+  'sort.name': '名称',
+  'sort.ascending': '升序',
+  'sort.descending': '降序',
+  'sort.ascendingLabel': '升序排列',
+  'sort.descendingLabel': '降序排列',
+
+  'favorites.favorite': '收藏',
+  'favorites.favorited': '已收藏',
+  'favorites.add': '加入收藏',
+  'favorites.remove': '移出收藏',
+  'favorites.addLabel': '将{name}加入收藏',
+  'favorites.removeLabel': '将{name}移出收藏',
+  'favorites.export': '导出',
+  'favorites.import': '导入',
+  'favorites.importFile': '导入收藏文件',
+  'favorites.importCount': { other: '导入 {count} 个收藏：' },
+  'favorites.merge': '与当前合并',
+  'favorites.replace': '替换当前',
+  'favorites.cancel': '取消',
+  'favorites.added': { other: '已添加 {count} 个新收藏（共 {total} 个）。' },
+  'favorites.imported': { other: '已导入 {count} 个收藏。' },
+  'favorites.readFailed': '无法读取文件。',
+  'favorites.invalidJson': '该文件不是有效的 JSON。',
+  'favorites.wrongFormat': '这不是 Pokemon Explorer 收藏文件。',
+  'favorites.unsupportedVersion': '不支持的收藏文件版本：{version}。',
+  'favorites.noList': '该文件没有收藏列表。',
+  'favorites.missingFields': { other: '有 {count} 个收藏缺少编号或名称。' },
+
+  'team.addTo': '加入{team}',
+  'team.addTitle': '加入队伍',
+  'team.added': '已加入',
+  'team.addLabel': '将{name}加入{team}',
+  'team.addLabelNew': '将{name}加入新队伍',
+  'team.full': '{team}已有 {count} 只宝可梦',
+
+  'list.empty': '未找到宝可梦',
+  'list.emptyHint': '请尝试调整搜索条件',
+
+  'matchups.weaknesses': '弱点',
+  'matchups.resistances': '抗性',
+  'matchups.immunities': '免疫',
+  'matchups.noWeaknesses': '没有弱点',
+  'matchups.noResistances': '没有抗性',
+  'matchups.noImmunities': '没有免疫',
+
+  'evolution.none': '该宝可梦不会进化。',
+  'evolution.level': '等级{level}',
+  'evolution.levelUp': '升级',
+  'evolution.friendship': '亲密度高',
+  'evolution.useItem': '使用{item}',
+  'evolution.trade': '通信交换',
+  'evolution.other': '特殊: {trigger}',
+  'evolution.holding': '携带{item}',
+  'evolution.knowing': '学会{move}',
+  'evolution.knowingType': '学会{type}属性招式',
+  'evolution.affection': '友好度高时',
+  'evolution.beauty': '美丽度高时',
+  'evolution.location': '在{location}',
+  'evolution.day': '白天',
+  'evolution.night': '夜晚',
+  'evolution.dusk': '黄昏时',
+  'evolution.timeOfDay': '{time}时',
+  'evolution.female': '仅限雌性',
+  'evolution.male': '仅限雄性',
+  'evolution.rain': '下雨时',
+  'evolution.partySpecies': '队伍中有{species}时',
+  'evolution.partyType': '队伍中有{type}属性宝可梦时',
+  'evolution.attackHigher': '攻击 > 防御时',
+  'evolution.attackLower': '攻击 < 防御时',
+  'evolution.attackEqual': '攻击 = 防御时',
+  'evolution.tradeFor': '与{species}交换',
+  'evolution.upsideDown': '将主机倒过来',
+
+  'moves.level': 'Lv.',
+  'moves.move': '招式',
+  'moves.type': '属性',
+  'moves.category': '分类',
+  'moves.power': '威力',
+  'moves.accuracy': '命中',
+  'moves.pp': 'PP',
+  'moves.evolution': '进化',
+  'moves.physical': '物理',
+  'moves.special': '特殊',
+  'moves.status': '变化',
+  'moves.search': '搜索招式或属性...',
+  'moves.searchLabel': '搜索招式',
+  'moves.version': '游戏版本',
+  'moves.loading': '正在加载招式...',
+  'moves.loadFailed': '无法加载招式。',
+  'moves.noMatch': '没有与“{query}”匹配的招式。',
+  'moves.noneInGame': '本作中没有可学会的招式。',
+  'moves.learn.level-up': '升级',
+  'moves.learn.machine': '招式学习器',
+  'moves.learn.egg': '蛋招式',
+  'moves.learn.tutor': '教授招式',
+  'moves.learn.other': '其他',
+
+  'stat.hp': 'HP',
+  'stat.attack': '攻击',
+  'stat.defense': '防御',
+  'stat.special-attack': '特攻',
+  'stat.special-defense': '特防',
+  'stat.speed': '速度',
+
+  'type.normal': '一般',
+  'type.fire': '火',
+  'type.water': '水',
+  'type.electric': '电',
+  'type.grass': '草',
+  'type.ice': '冰',
+  'type.fighting': '格斗',
+  'type.poison': '毒',
+  'type.ground': '地面',
+  'type.flying': '飞行',
+  'type.psychic': '超能力',
+  'type.bug': '虫',
+  'type.rock': '岩石',
+  'type.ghost': '幽灵',
+  'type.dragon': '龙',
+  'type.dark': '恶',
+  'type.steel': '钢',
+  'type.fairy': '妖精',
+};
+
+export const MESSAGES: Record<Locale, Catalog> = { en, ja, de, fr, es, ko, zh };
@@ -0,0 +1,270 @@
+import nock from 'nock';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearCache,
+  fetchPokemonAttributes,
+  fetchPokemonDetails,
+  fetchPokemonList,
+  findPokemonSummaries,
+  getCacheStats,
+  getPokemonIdFromUrl,
+  queryPokemon,
+  type PokemonQuery,
+} from './pokemonApi';
+import { createPokeApiSource, setDataSource } from './dataSource';
+import { IndexPendingError, InvalidPayloadError, NotFoundError } from './errors';
+import { EMPTY_FILTERS } from './pokemonFilters';
+import { loadFixture, mockPokeApi, mockPokeApiOnce } from '../test/pokeApiMock';
+
+beforeEach(async () => {
+  setDataSource(createPokeApiSource());
+  await clearCache();
+});
+
+describe('getPokemonIdFromUrl', () => {
+  it('reads the id from a PokeAPI resource URL', () => {
+    expect(getPokemonIdFromUrl('https://pokeapi.co/api/v2/pokemon/25/')).toBe('25');
+  });
+
+  it('returns null for other URLs', () => {
+    expect(getPokemonIdFromUrl('https://pokeapi.co/api/v2/pokemon-species/25/')).toBeNull();
+    expect(getPokemonIdFromUrl('https://pokeapi.co/api/v2/pokemon/pikachu/')).toBeNull();
+  });
+});
+
+describe('request deduplication', () => {
+  it('shares one request between concurrent callers', async () => {
+    const { requests } = mockPokeApi();
+
+    const [first, second] = await Promise.all([fetchPokemonDetails(25), fetchPokemonDetails(25)]);
+
+    expect(first.name).toBe('pikachu');
+    expect(second).toBe(first);
+    expect(requests).toEqual(['/api/v2/pokemon/25']);
+  });
+
+  it('serves repeated calls from the cache', async () => {
+    const { requests } = mockPokeApi();
+
+    await fetchPokemonDetails(25);
+    await fetchPokemonDetails(25);
+
+    expect(requests).toHaveLength(1);
+    expect(getCacheStats().tiers.pokemon.memoryHits).toBe(1);
+  });
+
+  it('keeps the shared request alive while another caller still waits', async () => {
+    mockPokeApi();
+    const controller = new AbortController();
+
+    const aborted = fetchPokemonDetails(25, controller.signal);
+    const kept = fetchPokemonDetails(25);
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(kept).resolves.toMatchObject({ name: 'pikachu' });
+  });
+
+  it('cancels the request once every caller has aborted', async () => {
+    const slow = nock('https://pokeapi.co').get('/api/v2/pokemon/25').delay(500).reply(200, {});
+    const { requests } = mockPokeApi();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const results = Promise.allSettled([
+      fetchPokemonDetails(25, first.signal),
+      fetchPokemonDetails(25, second.signal),
+    ]);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    first.abort();
+    second.abort();
+
+    expect((await results).map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(slow.isDone()).toBe(true);
+    expect(getCacheStats().pending).toBe(0);
+
+    // A later caller starts a fresh request instead of joining the cancelled one.
+    await expect(fetchPokemonDetails(25)).resolves.toMatchObject({ name: 'pikachu' });
+    expect(requests).toEqual(['/api/v2/pokemon/25']);
+    expect(getCacheStats().requests).toMatchObject({ cancelled: 1, completed: 1 });
+  });
+});
+
+describe('errors and retries', () => {
+  it('rejects unknown Pokémon with NotFoundError', async () => {
+    mockPokeApi();
+    await expect(fetchPokemonDetails('missingno')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('rejects responses that do not match the schema', async () => {
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockPokeApiOnce('/api/v2/pokemon/25', 200, { id: 25, name: 'pikachu' });
+
+    await expect(fetchPokemonDetails(25)).rejects.toBeInstanceOf(InvalidPayloadError);
+    expect(logError).toHaveBeenCalledWith('Error fetching Pokémon details:', expect.any(InvalidPayloadError));
+  });
+
+  it('waits out a 429 and retries', async () => {
+    mockPokeApiOnce('/api/v2/pokemon/25', 429, 'Too Many Requests', { 'Retry-After': '0' });
+    const { requests } = mockPokeApi();
+
+    await expect(fetchPokemonDetails(25)).resolves.toMatchObject({ name: 'pikachu' });
+    expect(requests).toHaveLength(1);
+    expect(getCacheStats().requests).toMatchObject({ rateLimited: 1, retried: 1, completed: 1 });
+  });
+});
+
+describe('search', () => {
+  it('ranks exact matches ahead of fuzzy ones', async () => {
+    mockPokeApi();
+    const allPokemon = await fetchPokemonList();
+
+    const results = await findPokemonSummaries('pichu', allPokemon);
+
+    expect(results[0]).toMatchObject({ name: 'pichu', id: 172 });
+    expect(results.map(result => result.name)).toContain('pikachu');
+    expect(results[0].score).toBeGreaterThan(results[1].score ?? 0);
+  });
+
+  it('tolerates typos', async () => {
+    mockPokeApi();
+    const allPokemon = await fetchPokemonList();
+
+    const [first] = await findPokemonSummaries('charzard', allPokemon);
+
+    expect(first.name).toBe('charizard');
+    expect(first.highlights?.length).toBeGreaterThan(0);
+  });
+
+  it('matches localized names', async () => {
+    mockPokeApi();
+    const allPokemon = await fetchPokemonList();
+
+    const [first] = await findPokemonSummaries('ピカチュウ', allPokemon);
+
+    expect(first).toMatchObject({ name: 'pikachu', matchedName: 'ピカチュウ', highlights: [[0, 5]] });
+  });
+
+  it('names results in the requested language', async () => {
+    mockPokeApi();
+
+    const { results } = await queryPokemon({ query: 'glurak', locale: 'de', offset: 0, limit: 5 });
+
+    expect(results[0]).toMatchObject({ name: 'charizard', matchedName: 'Glurak' });
+    expect(results[0].names).toMatchObject({ de: 'Glurak', en: 'Charizard' });
+  });
+
+  it('pages filtered and sorted results from one ordering', async () => {
+    mockPokeApi();
+    const query: Pick<PokemonQuery, 'filters' | 'sort'> = {
+      filters: { ...EMPTY_FILTERS, types: ['fire'] },
+      sort: { key: 'speed', order: 'desc' },
+    };
+
+    const firstPage = await queryPokemon({ ...query, offset: 0, limit: 2 });
+    const secondPage = await queryPokemon({ ...query, offset: 2, limit: 2 });
+
+    expect(firstPage.count).toBe(4);
+    // Charmander and Flareon tie on speed and fall back to Pokédex order.
+    expect([...firstPage.results, ...secondPage.results].map(result => result.name)).toEqual([
+      'charizard',
+      'charmeleon',
+      'charmander',
+      'flareon',
+    ]);
+  });
+});
+
+describe('indexes', () => {
+  it('filters by type and generation without the attribute index', async () => {
+    const { requests } = mockPokeApi();
+
+    const { results } = await queryPokemon({
+      filters: { ...EMPTY_FILTERS, types: ['fire'], generations: [1] },
+      offset: 0,
+      limit: 10,
+    });
+
+    expect(results.map(result => result.name)).toEqual(['charmander', 'charmeleon', 'charizard', 'flareon']);
+    expect(requests).toContain('/api/v2/type/fire');
+    expect(getCacheStats().tiers.attributes.misses).toBe(0);
+  });
+
+  it('asks callers to retry while an index builds, and keeps building after they leave', async () => {
+    // Bulbasaur's details are held back, so the attribute index can't finish.
+    let release = () => {};
+    const held = new Promise<void>(resolve => (release = resolve));
+    nock('https://pokeapi.co')
+      .get('/api/v2/pokemon/1/')
+      .reply(async () => {
+        await held;
+        return [200, loadFixture('pokemon/1.json')];
+      });
+    mockPokeApi();
+    await fetchPokemonList();
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const controller = new AbortController();
+      const sort = { key: 'speed', order: 'desc' } as const;
+
+      const first = queryPokemon({ sort, offset: 0, limit: 2, signal: controller.signal });
+      const rejected = expect(first).rejects.toBeInstanceOf(IndexPendingError);
+      await vi.advanceTimersByTimeAsync(5000);
+      await rejected;
+      controller.abort();
+
+      vi.useRealTimers();
+      release();
+      await expect(queryPokemon({ sort, offset: 0, limit: 2 })).resolves.toMatchObject({
+        results: [{ name: 'jolteon' }, { name: 'mewtwo' }],
+      });
+      expect((await fetchPokemonAttributes()).map(entry => entry.name)).toContain('bulbasaur');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('alternate forms', () => {
+  it('keeps forms out of the species list', async () => {
+    mockPokeApi();
+
+    const list = await fetchPokemonList();
+
+    expect(list.map(item => item.name)).toContain('charizard');
+    expect(list.map(item => item.name)).not.toContain('charizard-mega-x');
+  });
+
+  it('lists forms after their species when asked', async () => {
+    mockPokeApi();
+    const filters = { ...EMPTY_FILTERS, types: ['fire'] };
+
+    const { results } = await queryPokemon({ filters, forms: true, offset: 0, limit: 10 });
+
+    expect(results.map(result => result.name)).toEqual([
+      'charmander',
+      'charmeleon',
+      'charizard',
+      'charizard-mega-x',
+      'charizard-mega-y',
+      'charizard-gmax',
+      'flareon',
+    ]);
+    expect(results[3]).toMatchObject({ id: 10034, speciesId: 6, types: ['fire', 'dragon'] });
+    expect(results[0].speciesId).toBeUndefined();
+  });
+
+  it('filters forms by their species generation', async () => {
+    mockPokeApi();
+
+    const { results } = await queryPokemon({
+      query: 'raichu',
+      filters: { ...EMPTY_FILTERS, generations: [1] },
+      forms: true,
+      offset: 0,
+      limit: 5,
+    });
+
+    expect(results.map(result => result.name)).toEqual(['raichu', 'raichu-alola']);
+  });
+});
@@ -1,52 +1,46 @@
-import axios from 'axios';
-import type { RawPokemon } from '../types/pokemon';
-
-const BASE_URL = 'https://pokeapi.co/api/v2';
-
-// --------------------
-// Generic LRU Cache
-// --------------------
-class LRUCache<T> {
-  private cache = new Map<string, T>();
-  private maxSize: number;
-
-  constructor(maxSize: number = 500) {
-    this.maxSize = maxSize;
-  }
-
-  get(key: string): T | undefined {
-    const value = this.cache.get(key);
-    if (value !== undefined) {
-      this.cache.delete(key);
-      this.cache.set(key, value);
-    }
-    return value;
-  }
-
-  set(key: string, value: T): void {
-    if (this.cache.has(key)) {
-      this.cache.delete(key);
-    } else if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (typeof firstKey === 'string') {
-        this.cache.delete(firstKey);
-      }
-    }
-    this.cache.set(key, value);
-  }
-
-  has(key: string): boolean {
-    return this.cache.has(key);
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-
-  size(): number {
-    return this.cache.size;
-  }
-}
+import {
+  extractPokemonAttributes,
+  getGeneration,
+  getSpeciesId,
+  isAlternateFormId,
+  type PokemonAttributes,
+  type RawPokemon,
+} from '../types/pokemon';
+import type { RawEvolutionChain, RawPokemonSpecies } from '../types/species';
+import type { RawMove } from '../types/move';
+import type { RawAbility } from '../types/ability';
+import type { RawType } from '../types/type';
+import { getDataSource } from './dataSource';
+import { abortReason, IndexPendingError, NotFoundError } from './errors';
+import { DEFAULT_LOCALE, searchableNames, toLocalizedNames, type Locale, type LocalizedNames } from './i18n';
+import type { RequestPriority } from './requestScheduler';
+import { TieredCache, getPersistentStore, type CachePolicy } from './cache';
+import { PokemonSearchIndex, type HighlightRange, type SearchMatch } from './searchIndex';
+import {
+  EMPTY_FILTERS,
+  filtersNeedAttributes,
+  isFilterActive,
+  matchesFilters,
+  type PokemonFilters,
+} from './pokemonFilters';
+import {
+  pokemonListSchema,
+  rawAbilitySchema,
+  rawEvolutionChainSchema,
+  rawMoveSchema,
+  rawPokemonSchema,
+  rawSpeciesSchema,
+  rawTypeSchema,
+  type Schema,
+} from './validation';
+import {
+  DEFAULT_SORT,
+  compareBySort,
+  isDefaultSort,
+  sortNeedsAttributes,
+  type PokemonSort,
+  type SortableEntry,
+} from './pokemonSort';
 
 // --------------------
 // Types & Interfaces
@@ -61,120 +55,339 @@ export interface PokemonSummary {
   name: string;
   url: string;
   sprite?: string;
+  image?: string;
   types?: string[];
+  /** Pokédex number of the species; only set for alternate forms. */
+  speciesId?: number;
+  /** Species names by PokeAPI language; only sent for locales other than English. */
+  names?: LocalizedNames;
+  score?: number;
+  /** Name the search matched; `highlights` index into it. */
+  matchedName?: string;
+  highlights?: HighlightRange[];
+}
+
+/** A non-default variety (mega, regional form, Gigantamax...) and the species it belongs to. */
+export interface AlternateForm extends PokemonListItem {
+  id: number;
+  speciesId: number;
+  attributes: PokemonAttributes;
+}
+
+export interface PokemonNames {
+  name: string;
+  names: LocalizedNames;
+}
+
+export interface PokemonQuery {
+  query?: string;
+  filters?: PokemonFilters;
+  sort?: PokemonSort;
+  locale?: Locale;
+  /** Lists alternate forms after their species. */
+  forms?: boolean;
+  offset: number;
+  limit: number;
+  signal?: AbortSignal;
+}
+
+export interface PokemonQueryResult {
+  count: number;
+  results: PokemonSummary[];
 }
 
 // --------------------
 // Cache & Globals
 // --------------------
-const pokemonCache = new LRUCache<RawPokemon>(300);
-const summaryCache = new LRUCache<PokemonSummary>(1000);
-const listCache = new LRUCache<PokemonListItem[]>(10);
-const pendingRequests = new Map<string, Promise<any>>();
-let searchTimeout: NodeJS.Timeout;
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const LIST_POLICY: CachePolicy = { ttl: DAY, maxStale: 30 * DAY };
+const POKEMON_POLICY: CachePolicy = { ttl: 7 * DAY, maxStale: 90 * DAY };
+
+const pokemonCache = new TieredCache<RawPokemon>(300, POKEMON_POLICY);
+const summaryCache = new TieredCache<PokemonSummary>(1000, POKEMON_POLICY);
+const listCache = new TieredCache<PokemonListItem[]>(10, LIST_POLICY);
+const attributeCache = new TieredCache<PokemonAttributes[]>(2, LIST_POLICY);
+const speciesCache = new TieredCache<RawPokemonSpecies>(300, POKEMON_POLICY);
+const evolutionCache = new TieredCache<RawEvolutionChain>(100, POKEMON_POLICY);
+const moveCache = new TieredCache<RawMove>(1000, POKEMON_POLICY);
+const abilityCache = new TieredCache<RawAbility>(300, POKEMON_POLICY);
+const typeCache = new TieredCache<RawType>(20, POKEMON_POLICY);
+const nameCache = new TieredCache<PokemonNames[]>(2, LIST_POLICY);
+const formCache = new TieredCache<AlternateForm[]>(1, LIST_POLICY);
+const pendingRequests = new Map<string, PendingRequest<any>>();
+const searchIndexes = new WeakMap<PokemonListItem[], WeakMap<object, Map<Locale, PokemonSearchIndex>>>();
+const listsWithForms = new WeakMap<AlternateForm[], { list: PokemonListItem[]; merged: PokemonListItem[] }>();
+// Large enough for every `pokemon` entry, alternate forms included.
+const FULL_LIST_LIMIT = 2000;
+const ATTRIBUTE_BATCH_SIZE = 20;
+const FORM_BATCH_SIZE = 20;
+const NAME_BATCH_SIZE = 20;
+const MOVE_BATCH_SIZE = 20;
+// A request waits this long for an index that is still being built, well
+// inside the browser client's timeout, then is told to retry.
+const INDEX_WAIT_MS = 5000;
+const INDEX_RETRY_AFTER = 5;
 
 // --------------------
-// Axios Configuration
+// Cached Requests
 // --------------------
-const apiClient = axios.create({
-  baseURL: BASE_URL,
-  timeout: 10000,
-  headers: {
-    'Accept': 'application/json',
-    'Content-Type': 'application/json',
-  },
-});
-
-apiClient.interceptors.response.use(
-  response => response,
-  async error => {
-    const config = error.config;
-    config.retry = config.retry || 0;
-
-    if (config.retry < 3 && error.response?.status >= 500) {
-      config.retry++;
-      const delay = Math.pow(2, config.retry) * 1000;
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return apiClient(config);
-    }
+interface PendingRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers still waiting; the request is aborted when the last one gives up. */
+  waiters: number;
+}
 
-    return Promise.reject(error);
+// One signal often waits on many requests at once (a page of summaries), so
+// each signal gets a single listener that fans out; Node warns past ten.
+const abortCallbacks = new WeakMap<AbortSignal, Set<() => void>>();
+
+const onAbort = (signal: AbortSignal, callback: () => void): (() => void) => {
+  let callbacks = abortCallbacks.get(signal);
+  if (!callbacks) {
+    const registered = new Set<() => void>();
+    signal.addEventListener('abort', () => registered.forEach(run => run()), { once: true });
+    abortCallbacks.set(signal, registered);
+    callbacks = registered;
   }
-);
 
-// --------------------
-// API Functions
-// --------------------
-export const fetchPokemonList = async (limit: number = 1010): Promise<PokemonListItem[]> => {
-  const cacheKey = `list_${limit}`;
+  callbacks.add(callback);
+  return () => callbacks.delete(callback);
+};
 
-  if (listCache.has(cacheKey)) return listCache.get(cacheKey)!;
-  if (pendingRequests.has(cacheKey)) return pendingRequests.get(cacheKey);
+// Callers share one in-flight request per key. Each caller can abort its own
+// wait; the request itself is only cancelled once every caller has aborted.
+const joinRequest = <T,>(cacheKey: string, pending: PendingRequest<T>, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(abortReason(signal));
+  pending.waiters++;
+  if (!signal) return pending.promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const unsubscribe = onAbort(signal, () => {
+      if (--pending.waiters === 0) {
+        if (pendingRequests.get(cacheKey) === pending) pendingRequests.delete(cacheKey);
+        pending.controller.abort(abortReason(signal));
+      }
+      reject(abortReason(signal));
+    });
 
-  const request = (async () => {
+    pending.promise.then(resolve, reject).finally(unsubscribe);
+  });
+};
+
+const revalidate = <T,>(
+  cache: TieredCache<T>,
+  cacheKey: string,
+  load: (signal: AbortSignal) => Promise<T>,
+  errorMessage: string,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(abortReason(signal));
+  const existing = pendingRequests.get(cacheKey);
+  if (existing) return joinRequest(cacheKey, existing, signal);
+
+  const controller = new AbortController();
+  const pending: PendingRequest<T> = { promise: Promise.resolve(undefined as T), controller, waiters: 0 };
+  pending.promise = (async () => {
     try {
-      const { data } = await apiClient.get<{ results: PokemonListItem[] }>(`/pokemon?limit=${limit}`);
-      listCache.set(cacheKey, data.results);
-      return data.results;
+      const data = await load(controller.signal);
+      cache.write(cacheKey, data);
+      return data;
     } catch (err) {
-      console.error('Error fetching Pokémon list:', err);
+      // Unknown names and ids are expected and cancellations are deliberate;
+      // only real failures are logged.
+      if (!(err instanceof NotFoundError) && !controller.signal.aborted) console.error(errorMessage, err);
       throw err;
     } finally {
-      pendingRequests.delete(cacheKey);
+      if (pendingRequests.get(cacheKey) === pending) pendingRequests.delete(cacheKey);
     }
   })();
 
-  pendingRequests.set(cacheKey, request);
-  return request;
+  pendingRequests.set(cacheKey, pending);
+  return joinRequest(cacheKey, pending, signal);
 };
 
-export const fetchPokemonDetails = async (nameOrId: string | number): Promise<RawPokemon> => {
-  const cacheKey = `pokemon_${nameOrId}`;
-  if (pokemonCache.has(cacheKey)) return pokemonCache.get(cacheKey)!;
-  if (pendingRequests.has(cacheKey)) return pendingRequests.get(cacheKey);
-
-  const request = (async () => {
-    try {
-      const { data } = await apiClient.get<RawPokemon>(`/pokemon/${nameOrId}`);
-      pokemonCache.set(cacheKey, data);
-      return data;
-    } catch (err) {
-      console.error('Error fetching Pokémon details:', err);
-      throw err;
-    } finally {
-      pendingRequests.delete(cacheKey);
+// Serves from memory or the persistent tier when possible; stale entries are
+// returned immediately and refreshed in the background.
+const cachedRequest = async <T,>(
+  cache: TieredCache<T>,
+  cacheKey: string,
+  load: (signal: AbortSignal) => Promise<T>,
+  errorMessage: string,
+  signal?: AbortSignal
+): Promise<T> => {
+  const existing = pendingRequests.get(cacheKey);
+  if (existing) return joinRequest(cacheKey, existing, signal);
+
+  const cached = await cache.read(cacheKey);
+  if (cached) {
+    if (cached.stale) {
+      revalidate(cache, cacheKey, load, errorMessage).catch(() => undefined);
     }
-  })();
+    return cached.value;
+  }
+
+  return revalidate(cache, cacheKey, load, errorMessage, signal);
+};
 
-  pendingRequests.set(cacheKey, request);
-  return request;
+// Indexes take a request per Pokémon to build, far longer than a page load
+// can wait. Builds are started without the caller's signal, so they carry on
+// in the background when the caller gives up, and callers only wait
+// INDEX_WAIT_MS for them before getting an IndexPendingError.
+const waitForIndex = <T,>(build: Promise<T>, index: string, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const settle = (finish: () => void) => {
+      clearTimeout(timer);
+      unsubscribe?.();
+      finish();
+    };
+    const timer = setTimeout(() => settle(() => reject(new IndexPendingError(index, INDEX_RETRY_AFTER))), INDEX_WAIT_MS);
+    const unsubscribe = signal && onAbort(signal, () => settle(() => reject(abortReason(signal))));
+
+    build.then(
+      value => settle(() => resolve(value)),
+      err => settle(() => reject(err))
+    );
+  });
 };
 
-export const fetchPokemonFromUrl = async (url: string): Promise<RawPokemon> => {
-  const cacheKey = `url_${url}`;
-  if (pokemonCache.has(cacheKey)) return pokemonCache.get(cacheKey)!;
-  if (pendingRequests.has(cacheKey)) return pendingRequests.get(cacheKey);
+// Responses are validated before they are cached, so everything downstream
+// can trust the Raw* types.
+const fetchValidated = async <T,>(
+  path: string,
+  validate: Schema<T>,
+  signal?: AbortSignal,
+  priority?: RequestPriority
+): Promise<T> => validate(await getDataSource().get<unknown>(path, { signal, priority }), path);
 
-  const request = (async () => {
-    try {
-      const { data } = await apiClient.get<RawPokemon>(url);
-      pokemonCache.set(cacheKey, data);
-      return data;
-    } catch (err) {
-      console.error('Error fetching Pokémon from URL:', err);
+const isAlternateForm = (item: PokemonListItem): boolean =>
+  isAlternateFormId(Number(getPokemonIdFromUrl(item.url) ?? 0));
+
+// --------------------
+// API Functions
+// --------------------
+// Species only: alternate forms come from `fetchAlternateForms`.
+export const fetchPokemonList = async (limit: number = 1010, signal?: AbortSignal): Promise<PokemonListItem[]> =>
+  cachedRequest(
+    listCache,
+    `list_${limit}`,
+    async requestSignal => {
+      const data = await fetchValidated(`/pokemon?limit=${limit}`, pokemonListSchema, requestSignal);
+      return data.results.filter(item => !isAlternateForm(item));
+    },
+    'Error fetching Pokémon list:',
+    signal
+  );
+
+export const fetchPokemonDetails = async (
+  nameOrId: string | number,
+  signal?: AbortSignal,
+  priority?: RequestPriority
+): Promise<RawPokemon> =>
+  cachedRequest(
+    pokemonCache,
+    `pokemon_${nameOrId}`,
+    requestSignal => fetchValidated(`/pokemon/${nameOrId}`, rawPokemonSchema, requestSignal, priority),
+    'Error fetching Pokémon details:',
+    signal
+  );
+
+export const fetchPokemonFromUrl = async (
+  url: string,
+  signal?: AbortSignal,
+  priority?: RequestPriority
+): Promise<RawPokemon> =>
+  cachedRequest(
+    pokemonCache,
+    `url_${url}`,
+    requestSignal => fetchValidated(url, rawPokemonSchema, requestSignal, priority),
+    'Error fetching Pokémon from URL:',
+    signal
+  );
+
+export const fetchPokemonSpecies = async (
+  nameOrId: string | number,
+  signal?: AbortSignal,
+  priority?: RequestPriority
+): Promise<RawPokemonSpecies> =>
+  cachedRequest(
+    speciesCache,
+    `species_${nameOrId}`,
+    requestSignal => fetchValidated(`/pokemon-species/${nameOrId}`, rawSpeciesSchema, requestSignal, priority),
+    'Error fetching Pokémon species:',
+    signal
+  );
+
+export const fetchEvolutionChain = async (id: string | number, signal?: AbortSignal): Promise<RawEvolutionChain> =>
+  cachedRequest(
+    evolutionCache,
+    `evolution_${id}`,
+    requestSignal => fetchValidated(`/evolution-chain/${id}`, rawEvolutionChainSchema, requestSignal),
+    'Error fetching evolution chain:',
+    signal
+  );
+
+export const fetchMove = async (nameOrId: string | number, signal?: AbortSignal): Promise<RawMove> =>
+  cachedRequest(
+    moveCache,
+    `move_${nameOrId}`,
+    requestSignal => fetchValidated(`/move/${nameOrId}`, rawMoveSchema, requestSignal),
+    'Error fetching move:',
+    signal
+  );
+
+export const fetchAbility = async (nameOrId: string | number, signal?: AbortSignal): Promise<RawAbility> =>
+  cachedRequest(
+    abilityCache,
+    `ability_${nameOrId}`,
+    requestSignal => fetchValidated(`/ability/${nameOrId}`, rawAbilitySchema, requestSignal),
+    'Error fetching ability:',
+    signal
+  );
+
+export const fetchType = async (name: string, signal?: AbortSignal): Promise<RawType> =>
+  cachedRequest(
+    typeCache,
+    `type_${name}`,
+    requestSignal => fetchValidated(`/type/${name}`, rawTypeSchema, requestSignal),
+    'Error fetching type:',
+    signal
+  );
+
+// Names of every Pokémon of a type, forms included; unknown types have none.
+const fetchTypeMembers = async (type: string, signal?: AbortSignal): Promise<string[]> =>
+  fetchType(type, signal)
+    .then(data => data.pokemon.map(entry => entry.pokemon.name))
+    .catch(err => {
+      if (err instanceof NotFoundError) return [];
       throw err;
-    } finally {
-      pendingRequests.delete(cacheKey);
-    }
-  })();
+    });
+
+// Moves that fail to load come back as null so one bad entry does not hide
+// the rest of a learnset.
+export const fetchMoves = async (names: string[], signal?: AbortSignal): Promise<Map<string, RawMove | null>> => {
+  const moves = new Map<string, RawMove | null>();
+  const unique = [...new Set(names)];
+
+  for (let i = 0; i < unique.length; i += MOVE_BATCH_SIZE) {
+    const batch = unique.slice(i, i + MOVE_BATCH_SIZE);
+    const results = await Promise.all(batch.map(name => fetchMove(name, signal).catch(() => null)));
+    signal?.throwIfAborted();
+    batch.forEach((name, index) => moves.set(name, results[index]));
+  }
 
-  pendingRequests.set(cacheKey, request);
-  return request;
+  return moves;
 };
 
 export const batchFetchPokemon = async (
   items: PokemonListItem[],
-  concurrency: number = 10
+  concurrency: number = 10,
+  signal?: AbortSignal,
+  priority: RequestPriority = 'background'
 ): Promise<RawPokemon[]> => {
   const results: RawPokemon[] = [];
   const promises: Promise<void>[] = [];
@@ -182,7 +395,7 @@ export const batchFetchPokemon = async (
   for (let i = 0; i < items.length; i += concurrency) {
     const batch = items.slice(i, i + concurrency);
     const batchPromise = Promise.all(
-      batch.map(item => fetchPokemonFromUrl(item.url))
+      batch.map(item => fetchPokemonFromUrl(item.url, signal, priority))
     ).then(batchResults => {
       results.push(...batchResults);
       return;
@@ -194,71 +407,320 @@ export const batchFetchPokemon = async (
   return results.sort((a, b) => a.id - b.id);
 };
 
-export const searchPokemon = async (
+export const fetchPokemonSummary = async (item: PokemonListItem, signal?: AbortSignal): Promise<PokemonSummary> =>
+  cachedRequest(
+    summaryCache,
+    `summary_${item.name}`,
+    async (requestSignal): Promise<PokemonSummary> => {
+      const pokemon = await fetchPokemonFromUrl(item.url, requestSignal);
+      const speciesId = getSpeciesId(pokemon);
+      return {
+        id: pokemon.id,
+        name: pokemon.name,
+        url: item.url,
+        ...(speciesId !== pokemon.id && { speciesId }),
+        sprite: pokemon.sprites.front_default ?? undefined,
+        image: pokemon.sprites.other['official-artwork']?.front_default || pokemon.sprites.front_default || undefined,
+        types: pokemon.types?.map(t => t.type.name) || [],
+      };
+    },
+    'Error fetching Pokémon summary:',
+    signal
+  ).catch((err): PokemonSummary => {
+    if (signal?.aborted) throw err;
+    const id = getPokemonIdFromUrl(item.url);
+    return { id: parseInt(id || '0'), name: item.name, url: item.url };
+  });
+
+// Localized names need the name index, which takes a species request per
+// Pokémon to build; English searches in Latin letters match the slugs alone.
+const searchesLocalizedNames = (query: string, locale: Locale): boolean =>
+  Boolean(query.trim()) && (locale !== DEFAULT_LOCALE || /[^\x00-\x7f]/.test(query));
+
+const searchLabels = (names: PokemonNames[] | null, locale: Locale): Map<string, string[]> | undefined =>
+  names ? new Map(names.map(entry => [entry.name, searchableNames(entry.names, locale)])) : undefined;
+
+// Indexes are kept per list, name index and locale; a refreshed list is a
+// new array and gets a new index.
+const getSearchIndex = (
+  allPokemon: PokemonListItem[],
+  names: PokemonNames[] | null = null,
+  locale: Locale = DEFAULT_LOCALE
+): PokemonSearchIndex => {
+  let byNames = searchIndexes.get(allPokemon);
+  if (!byNames) {
+    byNames = new WeakMap();
+    searchIndexes.set(allPokemon, byNames);
+  }
+
+  const owner = names ?? allPokemon;
+  let byLocale = byNames.get(owner);
+  if (!byLocale) {
+    byLocale = new Map();
+    byNames.set(owner, byLocale);
+  }
+
+  let index = byLocale.get(locale);
+  if (!index) {
+    index = new PokemonSearchIndex(allPokemon, searchLabels(names, locale));
+    byLocale.set(locale, index);
+  }
+  return index;
+};
+
+// Adds species names to a page of summaries for locales other than English,
+// from the name index when it is loaded and per species otherwise.
+const localizeSummaries = async (
+  summaries: PokemonSummary[],
+  locale: Locale,
+  names: PokemonNames[] | null,
+  signal?: AbortSignal
+): Promise<PokemonSummary[]> => {
+  if (locale === DEFAULT_LOCALE) return summaries;
+  const known = new Map(names?.map(entry => [entry.name, entry.names]));
+
+  return Promise.all(
+    summaries.map(async summary => {
+      // Species names would drop what sets a form apart ("Mega X"), so forms
+      // keep their own name.
+      if (summary.speciesId) return summary;
+      const localized = known.get(summary.name) ??
+        (await fetchPokemonSpecies(summary.id, signal)
+          .then(species => toLocalizedNames(species.names))
+          .catch(() => undefined));
+      signal?.throwIfAborted();
+      return localized ? { ...summary, names: localized } : summary;
+    })
+  );
+};
+
+const summarizeMatches = async (matches: SearchMatch[], signal?: AbortSignal): Promise<PokemonSummary[]> => {
+  const summaries = await Promise.all(matches.map(match => fetchPokemonSummary(match.item, signal)));
+  return summaries.map((summary, i) => ({
+    ...summary,
+    score: matches[i].score,
+    matchedName: matches[i].label,
+    highlights: matches[i].highlights,
+  }));
+};
+
+export const findPokemonSummaries = async (
   query: string,
   allPokemon: PokemonListItem[],
-  maxResults: number = 20
+  maxResults: number = 20,
+  signal?: AbortSignal,
+  locale: Locale = DEFAULT_LOCALE
 ): Promise<PokemonSummary[]> => {
-  return new Promise(resolve => {
-    if (searchTimeout) clearTimeout(searchTimeout);
-
-    searchTimeout = setTimeout(async () => {
-      if (!query.trim()) return resolve([]);
-
-      const normalized = query.toLowerCase().trim();
-      const matches = allPokemon
-        .filter(p => p.name.includes(normalized))
-        .slice(0, maxResults);
-
-      const summaries: PokemonSummary[] = [];
-      const toFetch: PokemonListItem[] = [];
-
-      for (const match of matches) {
-        const cacheKey = `summary_${match.name}`;
-        if (summaryCache.has(cacheKey)) {
-          summaries.push(summaryCache.get(cacheKey)!);
-        } else {
-          toFetch.push(match);
+  if (!query.trim()) return [];
+  const names = searchesLocalizedNames(query, locale) ? await fetchPokemonNames(undefined, signal) : null;
+  const matches = getSearchIndex(allPokemon, names, locale).search(query, maxResults);
+  return localizeSummaries(await summarizeMatches(matches, signal), locale, names, signal);
+};
+
+// Attribute index used for range filters and stat sorts. Built once in the
+// background from the detail of every listed Pokémon and cached in both
+// tiers, so clients never fetch details just to filter.
+export const fetchPokemonAttributes = async (limit: number = 1010, signal?: AbortSignal): Promise<PokemonAttributes[]> =>
+  waitForIndex(
+    cachedRequest(
+      attributeCache,
+      `attributes_${limit}`,
+      async requestSignal => {
+        const allPokemon = await fetchPokemonList(limit, requestSignal);
+        const attributes: PokemonAttributes[] = [];
+
+        for (let i = 0; i < allPokemon.length; i += ATTRIBUTE_BATCH_SIZE) {
+          const batch = await Promise.all(
+            allPokemon
+              .slice(i, i + ATTRIBUTE_BATCH_SIZE)
+              .map(item =>
+                fetchPokemonFromUrl(item.url, requestSignal, 'background')
+                  .then(extractPokemonAttributes)
+                  .catch(() => null)
+              )
+          );
+          requestSignal.throwIfAborted();
+          attributes.push(...batch.filter((entry): entry is PokemonAttributes => entry !== null));
         }
-      }
 
-      if (toFetch.length > 0) {
-        try {
-          const fetched = await Promise.all(
-            toFetch.map(async item => {
+        return attributes;
+      },
+      'Error building Pokémon attribute index:',
+    ),
+    'attribute',
+    signal
+  );
+
+// Name index used to search localized names: every listed Pokémon's species
+// names in the supported languages, built once in the background and cached
+// in both tiers like the attribute index.
+export const fetchPokemonNames = async (limit: number = 1010, signal?: AbortSignal): Promise<PokemonNames[]> =>
+  waitForIndex(
+    cachedRequest(
+      nameCache,
+      `names_${limit}`,
+      async requestSignal => {
+        const allPokemon = await fetchPokemonList(limit, requestSignal);
+        const names: PokemonNames[] = [];
+
+        for (let i = 0; i < allPokemon.length; i += NAME_BATCH_SIZE) {
+          const batch = await Promise.all(
+            allPokemon.slice(i, i + NAME_BATCH_SIZE).map(item => {
               const id = getPokemonIdFromUrl(item.url);
-              const cacheKey = `summary_${item.name}`;
-              try {
-                const pokemon = await fetchPokemonFromUrl(item.url);
-                const summary: PokemonSummary = {
-                  id: pokemon.id,
-                  name: pokemon.name,
-                  url: item.url,
-                  sprite: pokemon.sprites?.front_default,
-                  types: pokemon.types?.map(t => t.type.name) || [],
-                };
-                summaryCache.set(cacheKey, summary);
-                return summary;
-              } catch {
-                return { id: parseInt(id || '0'), name: item.name, url: item.url };
-              }
+              if (!id) return null;
+              return fetchPokemonSpecies(id, requestSignal, 'background')
+                .then((species): PokemonNames => ({ name: item.name, names: toLocalizedNames(species.names) }))
+                .catch(() => null);
             })
           );
-          summaries.push(...fetched);
-        } catch (err) {
-          console.error('Error fetching search summaries:', err);
+          requestSignal.throwIfAborted();
+          names.push(...batch.filter((entry): entry is PokemonNames => entry !== null));
         }
-      }
 
-      const sorted = summaries.sort((a, b) => {
-        const aIndex = matches.findIndex(m => m.name === a.name);
-        const bIndex = matches.findIndex(m => m.name === b.name);
-        return aIndex - bIndex || a.id - b.id;
-      });
+        return names;
+      },
+      'Error building Pokémon name index:',
+    ),
+    'name',
+    signal
+  );
+
+// Form index: every alternate form with its species and filter attributes,
+// built once in the background from their details and cached in both tiers
+// like the attribute index. PokeAPI lists the forms after all species.
+export const fetchAlternateForms = async (signal?: AbortSignal): Promise<AlternateForm[]> =>
+  waitForIndex(
+    cachedRequest(
+      formCache,
+      'forms',
+      async requestSignal => {
+        const data = await fetchValidated(`/pokemon?limit=${FULL_LIST_LIMIT}`, pokemonListSchema, requestSignal);
+        const items = data.results.filter(isAlternateForm);
+        const forms: AlternateForm[] = [];
+
+        for (let i = 0; i < items.length; i += FORM_BATCH_SIZE) {
+          const batch = await Promise.all(
+            items.slice(i, i + FORM_BATCH_SIZE).map(item =>
+              fetchPokemonFromUrl(item.url, requestSignal, 'background')
+                .then((pokemon): AlternateForm => ({
+                  ...item,
+                  id: pokemon.id,
+                  speciesId: getSpeciesId(pokemon),
+                  attributes: extractPokemonAttributes(pokemon),
+                }))
+                .catch(() => null)
+            )
+          );
+          requestSignal.throwIfAborted();
+          forms.push(...batch.filter((entry): entry is AlternateForm => entry !== null));
+        }
 
-      resolve(sorted);
-    }, 300);
+        return forms;
+      },
+      'Error building alternate form index:',
+    ),
+    'form',
+    signal
+  );
+
+// The species list with each species' forms right after it, in id order.
+// Forms of species outside the list are left out.
+const withAlternateForms = (allPokemon: PokemonListItem[], forms: AlternateForm[]): PokemonListItem[] => {
+  const cached = listsWithForms.get(forms);
+  if (cached?.list === allPokemon) return cached.merged;
+
+  const bySpecies = new Map<number, AlternateForm[]>();
+  [...forms].sort((a, b) => a.id - b.id).forEach(form => {
+    bySpecies.set(form.speciesId, [...(bySpecies.get(form.speciesId) ?? []), form]);
   });
+  const merged = allPokemon.flatMap(item => [
+    item,
+    ...(bySpecies.get(parseInt(getPokemonIdFromUrl(item.url) || '0')) ?? []).map(({ name, url }) => ({ name, url })),
+  ]);
+
+  listsWithForms.set(forms, { list: allPokemon, merged });
+  return merged;
+};
+
+// Filters, searches and sorts the whole list before paging, so every page is a
+// slice of the same ordering. Name queries keep relevance order unless an
+// explicit sort is chosen.
+export const queryPokemon = async ({
+  query = '',
+  filters = EMPTY_FILTERS,
+  sort = DEFAULT_SORT,
+  locale = DEFAULT_LOCALE,
+  forms = false,
+  offset,
+  limit,
+  signal,
+}: PokemonQuery): Promise<PokemonQueryResult> => {
+  const speciesList = await fetchPokemonList(undefined, signal);
+  const alternateForms = forms ? await fetchAlternateForms(signal) : [];
+  const allPokemon = forms ? withAlternateForms(speciesList, alternateForms) : speciesList;
+  const names = searchesLocalizedNames(query, locale) ? await fetchPokemonNames(undefined, signal) : null;
+  const filtering = isFilterActive(filters);
+  const attributesByName = filtersNeedAttributes(filters) || sortNeedsAttributes(sort)
+    ? new Map([
+        ...(await fetchPokemonAttributes(undefined, signal)).map(p => [p.name, p] as const),
+        ...alternateForms.map(form => [form.name, form.attributes] as const),
+      ])
+    : null;
+  // Forms sort by their species' number, right after it.
+  const speciesIds = new Map(alternateForms.map(form => [form.name, form.speciesId]));
+  const sortId = (item: PokemonListItem, id: number) => speciesIds.get(item.name) ?? id;
+
+  // Without the attribute index, types come from the type endpoints and
+  // generations from the Pokédex number, so these filters never wait on it.
+  const typeMembers = filtering && !attributesByName && filters.types.length > 0
+    ? new Set((await Promise.all(filters.types.map(type => fetchTypeMembers(type, signal)))).flat())
+    : null;
+
+  let candidates = allPokemon;
+  if (filtering) {
+    candidates = allPokemon.filter(item => {
+      if (attributesByName) {
+        const attributes = attributesByName.get(item.name);
+        return attributes !== undefined && matchesFilters(attributes, filters);
+      }
+      const generation = getGeneration(sortId(item, parseInt(getPokemonIdFromUrl(item.url) || '0')));
+      return (
+        (!typeMembers || typeMembers.has(item.name)) &&
+        (filters.generations.length === 0 || filters.generations.includes(generation))
+      );
+    });
+  }
+
+  const entries: Array<SortableEntry & { item: PokemonListItem; match?: SearchMatch }> = query.trim()
+    ? (candidates === allPokemon
+        ? getSearchIndex(allPokemon, names, locale)
+        : new PokemonSearchIndex(candidates, searchLabels(names, locale)))
+        .search(query, candidates.length)
+        .map(match => ({ item: match.item, id: sortId(match.item, match.id), name: match.item.name, match }))
+    : candidates.map(item => ({
+        item,
+        id: sortId(item, parseInt(getPokemonIdFromUrl(item.url) || '0')),
+        name: item.name,
+      }));
+
+  if (!isDefaultSort(sort) || !query.trim()) {
+    entries.forEach(entry => {
+      entry.attributes = attributesByName?.get(entry.name);
+    });
+    entries.sort(compareBySort(sort));
+  }
+
+  const page = entries.slice(offset, offset + limit);
+  const results = await Promise.all(
+    page.map(async ({ item, match }) => {
+      const summary = await fetchPokemonSummary(item, signal);
+      return match
+        ? { ...summary, score: match.score, matchedName: match.label, highlights: match.highlights }
+        : summary;
+    })
+  );
+
+  return { count: entries.length, results: await localizeSummaries(results, locale, names, signal) };
 };
 
 // --------------------
@@ -266,7 +728,7 @@ export const searchPokemon = async (
 // --------------------
 export const prefetchPopularPokemon = async (): Promise<void> => {
   const popularIds = [1, 4, 7, 25, 39, 52, 54, 104, 115, 131, 134, 135, 136, 150, 151];
-  await Promise.all(popularIds.map(id => fetchPokemonDetails(id).catch(() => null)));
+  await Promise.all(popularIds.map(id => fetchPokemonDetails(id, undefined, 'prefetch').catch(() => null)));
 };
 
 export const getPokemonIdFromUrl = (url: string): string | null => {
@@ -274,11 +736,25 @@ export const getPokemonIdFromUrl = (url: string): string | null => {
   return match ? match[1] : null;
 };
 
-export const clearCache = (): void => {
+export const getResourceIdFromUrl = (url: string): string | null => {
+  const match = url.match(/\/(\d+)\/?$/);
+  return match ? match[1] : null;
+};
+
+export const clearCache = async (): Promise<void> => {
   pokemonCache.clear();
   summaryCache.clear();
   listCache.clear();
+  attributeCache.clear();
+  speciesCache.clear();
+  evolutionCache.clear();
+  moveCache.clear();
+  abilityCache.clear();
+  typeCache.clear();
+  nameCache.clear();
+  formCache.clear();
   pendingRequests.clear();
+  await getPersistentStore().clear();
 };
 
 export const getCacheStats = () => ({
@@ -286,6 +762,21 @@ export const getCacheStats = () => ({
   summaries: summaryCache.size(),
   lists: listCache.size(),
   pending: pendingRequests.size,
+  requests: getDataSource().scheduler?.stats() ?? null,
+  persistentTier: getPersistentStore().kind,
+  tiers: {
+    pokemon: pokemonCache.stats(),
+    summaries: summaryCache.stats(),
+    lists: listCache.stats(),
+    attributes: attributeCache.stats(),
+    species: speciesCache.stats(),
+    evolutionChains: evolutionCache.stats(),
+    moves: moveCache.stats(),
+    abilities: abilityCache.stats(),
+    types: typeCache.stats(),
+    names: nameCache.stats(),
+    forms: formCache.stats(),
+  },
 });
 
 export const preloadEssentialData = async (): Promise<PokemonListItem[]> => {
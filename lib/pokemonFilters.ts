@@ -0,0 +1,118 @@
+import type { MessageKey } from './messages';
+import { STAT_NAMES, type PokemonAttributes, type StatName } from '../types/pokemon';
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export type RangeKey = StatName | 'total' | 'height' | 'weight';
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export interface PokemonFilters {
+  /** A Pokémon matches when it has any of the selected types. */
+  types: string[];
+  generations: number[];
+  ranges: Partial<Record<RangeKey, NumericRange>>;
+}
+
+export interface RangeDefinition {
+  key: RangeKey;
+  label: MessageKey;
+  /** Values are stored in PokeAPI units; the UI shows them divided by `scale`. */
+  scale: number;
+  unit?: string;
+}
+
+// --------------------
+// Definitions
+// --------------------
+export const GENERATIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+export const RANGE_DEFINITIONS: RangeDefinition[] = [
+  ...STAT_NAMES.map((name): RangeDefinition => ({ key: name, label: `stat.${name}`, scale: 1 })),
+  { key: 'total', label: 'filters.total', scale: 1 },
+  { key: 'height', label: 'detail.height', scale: 10, unit: 'm' },
+  { key: 'weight', label: 'detail.weight', scale: 10, unit: 'kg' },
+];
+
+const RANGE_KEYS = RANGE_DEFINITIONS.map(definition => definition.key);
+
+export const EMPTY_FILTERS: PokemonFilters = { types: [], generations: [], ranges: {} };
+
+// --------------------
+// Filtering
+// --------------------
+export const isFilterActive = (filters: PokemonFilters): boolean =>
+  filters.types.length > 0 ||
+  filters.generations.length > 0 ||
+  Object.values(filters.ranges).some(range => range && (range.min !== undefined || range.max !== undefined));
+
+/** Ranges need the attribute index; types and generations can be checked without it. */
+export const filtersNeedAttributes = (filters: PokemonFilters): boolean =>
+  Object.values(filters.ranges).some(range => range && (range.min !== undefined || range.max !== undefined));
+
+export const countActiveFilters = (filters: PokemonFilters): number =>
+  filters.types.length +
+  filters.generations.length +
+  Object.values(filters.ranges).filter(range => range && (range.min !== undefined || range.max !== undefined)).length;
+
+const rangeValue = (pokemon: PokemonAttributes, key: RangeKey): number => {
+  if (key === 'total' || key === 'height' || key === 'weight') return pokemon[key];
+  return pokemon.stats[key];
+};
+
+export const matchesFilters = (pokemon: PokemonAttributes, filters: PokemonFilters): boolean => {
+  if (filters.types.length > 0 && !filters.types.some(type => pokemon.types.includes(type))) return false;
+  if (filters.generations.length > 0 && !filters.generations.includes(pokemon.generation)) return false;
+
+  return Object.entries(filters.ranges).every(([key, range]) => {
+    if (!range) return true;
+    const value = rangeValue(pokemon, key as RangeKey);
+    return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+  });
+};
+
+// --------------------
+// Query String Encoding
+// --------------------
+// types=fire,water&gen=1,2&hp=50-100&weight=-200 (either bound may be omitted)
+const parseNumber = (value: string): number | undefined => {
+  if (value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export const filtersToSearchParams = (filters: PokemonFilters, params: URLSearchParams = new URLSearchParams()): URLSearchParams => {
+  if (filters.types.length > 0) params.set('types', filters.types.join(','));
+  if (filters.generations.length > 0) params.set('gen', filters.generations.join(','));
+
+  for (const key of RANGE_KEYS) {
+    const range = filters.ranges[key];
+    if (range && (range.min !== undefined || range.max !== undefined)) {
+      params.set(key, `${range.min ?? ''}-${range.max ?? ''}`);
+    }
+  }
+
+  return params;
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): PokemonFilters => {
+  const list = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+  const ranges: PokemonFilters['ranges'] = {};
+
+  for (const key of RANGE_KEYS) {
+    const match = params.get(key)?.match(/^(\d*(?:\.\d+)?)-(\d*(?:\.\d+)?)$/);
+    if (!match) continue;
+    const range = { min: parseNumber(match[1]), max: parseNumber(match[2]) };
+    if (range.min !== undefined || range.max !== undefined) ranges[key] = range;
+  }
+
+  return {
+    types: list(params.get('types')).map(type => type.toLowerCase()),
+    generations: list(params.get('gen')).map(Number).filter(gen => GENERATIONS.includes(gen)),
+    ranges,
+  };
+};
@@ -0,0 +1,86 @@
+import type { PokemonAttributes } from '../types/pokemon';
+import type { MessageKey } from './messages';
+import { RANGE_DEFINITIONS, type RangeKey } from './pokemonFilters';
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export type SortKey = 'id' | 'name' | RangeKey;
+export type SortOrder = 'asc' | 'desc';
+
+export interface PokemonSort {
+  key: SortKey;
+  order: SortOrder;
+}
+
+export interface SortableEntry {
+  id: number;
+  name: string;
+  attributes?: PokemonAttributes;
+}
+
+// --------------------
+// Definitions
+// --------------------
+export const DEFAULT_SORT: PokemonSort = { key: 'id', order: 'asc' };
+
+export const SORT_OPTIONS: Array<{ key: SortKey; label: MessageKey }> = [
+  { key: 'id', label: 'sort.id' },
+  { key: 'name', label: 'sort.name' },
+  ...RANGE_DEFINITIONS.map(definition => ({ key: definition.key, label: definition.label })),
+];
+
+const SORT_KEYS = SORT_OPTIONS.map(option => option.key);
+
+export const isDefaultSort = (sort: PokemonSort): boolean =>
+  sort.key === DEFAULT_SORT.key && sort.order === DEFAULT_SORT.order;
+
+/** Every key except id and name needs the attribute index. */
+export const sortNeedsAttributes = (sort: PokemonSort): boolean => sort.key !== 'id' && sort.key !== 'name';
+
+// --------------------
+// Comparison
+// --------------------
+const sortValue = (entry: SortableEntry, key: SortKey): number | string | undefined => {
+  if (key === 'id') return entry.id;
+  if (key === 'name') return entry.name;
+  if (!entry.attributes) return undefined;
+  if (key === 'total' || key === 'height' || key === 'weight') return entry.attributes[key];
+  return entry.attributes.stats[key];
+};
+
+// Entries without a value always sort last; ties fall back to Pokédex order.
+export const compareBySort = (sort: PokemonSort) => (a: SortableEntry, b: SortableEntry): number => {
+  const aValue = sortValue(a, sort.key);
+  const bValue = sortValue(b, sort.key);
+
+  if (aValue === undefined || bValue === undefined) {
+    if (aValue === bValue) return a.id - b.id;
+    return aValue === undefined ? 1 : -1;
+  }
+
+  const direction = sort.order === 'asc' ? 1 : -1;
+  const result = typeof aValue === 'string'
+    ? aValue.localeCompare(bValue as string)
+    : aValue - (bValue as number);
+
+  return result * direction || a.id - b.id;
+};
+
+// --------------------
+// Query String Encoding
+// --------------------
+// sort=speed&order=desc; the default (id ascending) is omitted.
+export const sortToSearchParams = (sort: PokemonSort, params: URLSearchParams = new URLSearchParams()): URLSearchParams => {
+  if (sort.key !== DEFAULT_SORT.key) params.set('sort', sort.key);
+  if (sort.order !== DEFAULT_SORT.order) params.set('order', sort.order);
+  return params;
+};
+
+export const sortFromSearchParams = (params: URLSearchParams): PokemonSort => {
+  const key = params.get('sort') as SortKey | null;
+  return {
+    key: key && SORT_KEYS.includes(key) ? key : DEFAULT_SORT.key,
+    order: params.get('order') === 'desc' ? 'desc' : 'asc',
+  };
+};
@@ -0,0 +1,39 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getRecentHistory } from './recentHistory';
+
+const store = (value: unknown) => window.localStorage.setItem('pokemon-explorer.recent', JSON.stringify(value));
+
+describe('getRecentHistory', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('cleans up stored entries and drops malformed ones', () => {
+    store({
+      searches: ['pika', '', 7],
+      viewed: [
+        { id: 25, name: 'pikachu', names: { en: 'Pikachu', ja: 5 }, sprite: 1, types: ['electric', null], speciesId: 'x' },
+        { id: 10034, speciesId: 6, name: 'charizard-mega-x', names: 'Charizard' },
+        { id: '4', name: 'charmander' },
+        null,
+      ],
+    });
+
+    expect(getRecentHistory()).toEqual({
+      searches: ['pika'],
+      viewed: [
+        { id: 25, name: 'pikachu', names: { en: 'Pikachu' }, sprite: null, types: ['electric'] },
+        { id: 10034, speciesId: 6, name: 'charizard-mega-x', sprite: null, types: [] },
+      ],
+    });
+  });
+
+  it('returns the empty history for unreadable data', () => {
+    window.localStorage.setItem('pokemon-explorer.recent', 'not json');
+    expect(getRecentHistory()).toEqual({ searches: [], viewed: [] });
+
+    store([1, 2]);
+    expect(getRecentHistory()).toEqual({ searches: [], viewed: [] });
+  });
+});
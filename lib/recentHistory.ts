@@ -0,0 +1,143 @@
+import type { LocalizedNames } from './i18n';
+import { isRecord } from './validation';
+
+// Recent searches and recently viewed Pokémon for the search dropdown, kept
+// in localStorage, newest first.
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export interface RecentPokemon {
+  id: number;
+  /** Pokédex number of the species; only set for alternate forms. */
+  speciesId?: number;
+  name: string;
+  names?: LocalizedNames;
+  sprite?: string | null;
+  types?: string[];
+}
+
+export interface RecentHistory {
+  searches: string[];
+  viewed: RecentPokemon[];
+}
+
+// --------------------
+// Definitions
+// --------------------
+const STORAGE_KEY = 'pokemon-explorer.recent';
+const MAX_SEARCHES = 5;
+const MAX_VIEWED = 5;
+const EMPTY: RecentHistory = { searches: [], viewed: [] };
+
+const listeners = new Set<() => void>();
+let cachedRaw: string | null = null;
+let cachedHistory: RecentHistory = EMPTY;
+
+// --------------------
+// Validation
+// --------------------
+// Keeps only string names, so a hand-edited entry can't put objects in the UI.
+const toStoredNames = (value: unknown): LocalizedNames | undefined =>
+  isRecord(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : undefined;
+
+const toRecentPokemon = (value: unknown): RecentPokemon | null => {
+  if (!isRecord(value)) return null;
+  const { id, speciesId, name, names, sprite, types } = value;
+  if (typeof id !== 'number' || !Number.isInteger(id) || id <= 0 || typeof name !== 'string' || !name) return null;
+
+  return {
+    id,
+    speciesId: typeof speciesId === 'number' && Number.isInteger(speciesId) ? speciesId : undefined,
+    name,
+    names: toStoredNames(names),
+    sprite: typeof sprite === 'string' ? sprite : null,
+    types: Array.isArray(types) ? types.filter((type): type is string => typeof type === 'string') : [],
+  };
+};
+
+const parseStored = (raw: string | null): RecentHistory => {
+  if (!raw) return EMPTY;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) return EMPTY;
+    const searches = Array.isArray(parsed.searches) ? parsed.searches : [];
+    const viewed = Array.isArray(parsed.viewed) ? parsed.viewed : [];
+    return {
+      searches: searches.filter((query): query is string => typeof query === 'string' && query !== '').slice(0, MAX_SEARCHES),
+      viewed: viewed.map(toRecentPokemon).filter((entry): entry is RecentPokemon => entry !== null).slice(0, MAX_VIEWED),
+    };
+  } catch {
+    return EMPTY;
+  }
+};
+
+// --------------------
+// Store
+// --------------------
+const readStorage = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const getRecentHistory = (): RecentHistory => {
+  if (typeof window === 'undefined') return EMPTY;
+
+  const raw = readStorage();
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedHistory = parseStored(raw);
+  }
+  return cachedHistory;
+};
+
+export const getServerRecentHistory = (): RecentHistory => EMPTY;
+
+const writeRecentHistory = (history: RecentHistory): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (err) {
+    console.error('Error saving recent history:', err);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Searches differing only in case or surrounding spaces count as one.
+export const addRecentSearch = (query: string): void => {
+  const trimmed = query.trim();
+  if (!trimmed) return;
+
+  const history = getRecentHistory();
+  const others = history.searches.filter(entry => entry.toLowerCase() !== trimmed.toLowerCase());
+  writeRecentHistory({ ...history, searches: [trimmed, ...others].slice(0, MAX_SEARCHES) });
+};
+
+export const addRecentView = (pokemon: RecentPokemon): void => {
+  const history = getRecentHistory();
+  if (history.viewed[0]?.id === pokemon.id) return;
+
+  const others = history.viewed.filter(entry => entry.id !== pokemon.id);
+  writeRecentHistory({ ...history, viewed: [pokemon, ...others].slice(0, MAX_VIEWED) });
+};
+
+export const clearRecentHistory = (): void => {
+  writeRecentHistory(EMPTY);
+};
+
+export const subscribeRecentHistory = (listener: () => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler } from './requestScheduler';
+import { NetworkError, RateLimitError } from './errors';
+
+const UNLIMITED = { ratePerSecond: 1000, burst: 1000 };
+
+// Resolves when `release` is called, so tests control when a request ends.
+const deferred = () => {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  return { done, release };
+};
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('caps the number of requests in flight', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 2, ...UNLIMITED });
+    const gate = deferred();
+    const tasks = Array.from({ length: 4 }, () => scheduler.schedule(() => gate.done));
+
+    expect(scheduler.stats()).toMatchObject({ active: 2, queued: { visible: 2 } });
+
+    gate.release();
+    await Promise.all(tasks);
+    expect(scheduler.stats()).toMatchObject({ active: 0, completed: 4 });
+  });
+
+  it('serves visible requests before background and prefetch ones', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, ...UNLIMITED });
+    const gate = deferred();
+    const started: string[] = [];
+    const task = (name: string) => async () => {
+      started.push(name);
+      await gate.done;
+    };
+
+    const tasks = [
+      scheduler.schedule(task('first')),
+      scheduler.schedule(task('prefetch'), { priority: 'prefetch' }),
+      scheduler.schedule(task('background'), { priority: 'background' }),
+      scheduler.schedule(task('visible')),
+    ];
+    gate.release();
+    await Promise.all(tasks);
+
+    expect(started).toEqual(['first', 'visible', 'background', 'prefetch']);
+  });
+
+  it('limits the request rate with a token bucket', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 10, ratePerSecond: 10, burst: 2 });
+    let started = 0;
+    const tasks = Array.from({ length: 4 }, () => scheduler.schedule(async () => started++));
+
+    expect(started).toBe(2);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started).toBe(3);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started).toBe(4);
+    await Promise.all(tasks);
+  });
+
+  it('drops queued requests when their signal aborts', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, ...UNLIMITED });
+    const gate = deferred();
+    const controller = new AbortController();
+    let ran = false;
+
+    const running = scheduler.schedule(() => gate.done);
+    const queued = scheduler.schedule(async () => (ran = true), { signal: controller.signal });
+    controller.abort();
+    gate.release();
+
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    await running;
+    expect(ran).toBe(false);
+    expect(scheduler.stats()).toMatchObject({ cancelled: 1, queued: { visible: 0 } });
+  });
+
+  it('retries server errors with exponential backoff', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, ...UNLIMITED, maxRetries: 2 });
+    let attempts = 0;
+    const result = scheduler.schedule(async () => {
+      attempts++;
+      if (attempts < 3) throw new NetworkError('Service unavailable', { status: 503 });
+      return 'ok';
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(attempts).toBe(1);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(attempts).toBe(2);
+    await vi.advanceTimersByTimeAsync(4000);
+    await expect(result).resolves.toBe('ok');
+    expect(scheduler.stats()).toMatchObject({ retried: 2, failed: 0 });
+  });
+
+  it('gives up after maxRetries and does not retry client errors', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, ...UNLIMITED, maxRetries: 1 });
+
+    const serverError = scheduler.schedule(async () => {
+      throw new NetworkError('Bad gateway', { status: 502 });
+    });
+    const expectation = expect(serverError).rejects.toThrow('Bad gateway');
+    await vi.advanceTimersByTimeAsync(2000);
+    await expectation;
+
+    await expect(
+      scheduler.schedule(async () => {
+        throw new NetworkError('Bad request', { status: 400 });
+      })
+    ).rejects.toThrow('Bad request');
+    expect(scheduler.stats()).toMatchObject({ retried: 1, failed: 2 });
+  });
+
+  it('pauses every lane for Retry-After after a 429', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 4, ...UNLIMITED });
+    let limited = true;
+    const started: string[] = [];
+
+    const first = scheduler.schedule(async () => {
+      started.push('first');
+      if (limited) {
+        limited = false;
+        throw new RateLimitError(3);
+      }
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    const second = scheduler.schedule(async () => {
+      started.push('second');
+    }, { priority: 'prefetch' });
+
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(started).toEqual(['first']);
+    expect(scheduler.stats().pausedForMs).toBeGreaterThan(0);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([first, second]);
+    expect(started).toEqual(['first', 'first', 'second']);
+    expect(scheduler.stats()).toMatchObject({ rateLimited: 1, retried: 1, completed: 2 });
+  });
+});
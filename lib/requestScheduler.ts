@@ -0,0 +1,250 @@
+import { abortReason, NetworkError, RateLimitError } from './errors';
+
+// --------------------
+// Types & Interfaces
+// --------------------
+// Lanes in the order they are served: content on screen first, then work the
+// screen is waiting on indirectly (such as the filter index), then prefetching.
+export const REQUEST_PRIORITIES = ['visible', 'background', 'prefetch'] as const;
+export type RequestPriority = (typeof REQUEST_PRIORITIES)[number];
+
+export interface SchedulerOptions {
+  /** Requests allowed in flight at once. */
+  concurrency: number;
+  /** Sustained rate; the token bucket refills at this many requests per second. */
+  ratePerSecond: number;
+  /** Bucket size: how many requests may start back to back. */
+  burst: number;
+  /** Retries after a 429 or a 5xx answer. */
+  maxRetries?: number;
+}
+
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+export interface SchedulerStats {
+  active: number;
+  queued: Record<RequestPriority, number>;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  retried: number;
+  rateLimited: number;
+  tokens: number;
+  /** Time left before dispatch resumes after a 429; 0 when not paused. */
+  pausedForMs: number;
+  offline: boolean;
+}
+
+interface Job {
+  task: (signal?: AbortSignal) => Promise<unknown>;
+  priority: RequestPriority;
+  signal?: AbortSignal;
+  retries: number;
+  /** Earliest dispatch time, set while backing off after a server error. */
+  notBefore: number;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  detach: () => void;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+
+const backoffMs = (retries: number): number => Math.pow(2, retries) * 1000;
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// --------------------
+// Request Scheduler
+// --------------------
+// Runs requests through priority lanes with a concurrency cap and a token
+// bucket. A 429 pauses every lane for the server's Retry-After (or a backoff)
+// before the request is retried; 5xx answers are retried with exponential
+// backoff. While the browser is offline nothing is dispatched, and requests
+// that failed for lack of a connection wait for it to come back.
+export class RequestScheduler {
+  private queues: Record<RequestPriority, Job[]> = { visible: [], background: [], prefetch: [] };
+  private options: Required<SchedulerOptions>;
+  private active = 0;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private counters = { completed: 0, failed: 0, cancelled: 0, retried: 0, rateLimited: 0 };
+
+  constructor(options: SchedulerOptions) {
+    this.options = { maxRetries: DEFAULT_MAX_RETRIES, ...options };
+    this.tokens = options.burst;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.pump());
+    }
+  }
+
+  schedule<T>(
+    task: (signal?: AbortSignal) => Promise<T>,
+    { priority = 'visible', signal }: ScheduleOptions = {}
+  ): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+    return new Promise<T>((resolve, reject) => {
+      const job: Job = {
+        task,
+        priority,
+        signal,
+        retries: 0,
+        notBefore: 0,
+        resolve: value => resolve(value as T),
+        reject,
+        detach: () => undefined,
+      };
+
+      // Queued requests are dropped on abort; running ones are stopped by the
+      // task itself, which receives the signal.
+      if (signal) {
+        const onAbort = () => {
+          if (!this.dequeue(job)) return;
+          this.counters.cancelled++;
+          reject(abortReason(signal));
+          this.pump();
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        job.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.queues[priority].push(job);
+      this.pump();
+    });
+  }
+
+  stats(): SchedulerStats {
+    this.refill(Date.now());
+    return {
+      active: this.active,
+      queued: {
+        visible: this.queues.visible.length,
+        background: this.queues.background.length,
+        prefetch: this.queues.prefetch.length,
+      },
+      ...this.counters,
+      tokens: Math.floor(this.tokens),
+      pausedForMs: Math.max(0, this.pausedUntil - Date.now()),
+      offline: isOffline(),
+    };
+  }
+
+  private pump(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    // The `online` listener restarts dispatch.
+    if (isOffline()) return;
+
+    while (this.active < this.options.concurrency) {
+      const now = Date.now();
+      if (now < this.pausedUntil) return this.wakeIn(this.pausedUntil - now);
+
+      const job = this.nextJob(now);
+      if (!job) {
+        const wait = this.nextRetryIn(now);
+        if (wait !== null) this.wakeIn(wait);
+        return;
+      }
+
+      this.refill(now);
+      if (this.tokens < 1) return this.wakeIn(((1 - this.tokens) / this.options.ratePerSecond) * 1000);
+
+      this.tokens--;
+      this.dequeue(job);
+      this.run(job);
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    this.active++;
+    try {
+      const value = await job.task(job.signal);
+      this.counters.completed++;
+      job.detach();
+      job.resolve(value);
+    } catch (err) {
+      if (job.signal?.aborted) {
+        this.counters.cancelled++;
+        job.detach();
+        job.reject(err);
+      } else if (!this.retry(job, err)) {
+        this.counters.failed++;
+        job.detach();
+        job.reject(err);
+      }
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+
+  // Puts the job back at the front of its lane when the failure is worth
+  // retrying. Returns false when the error should reach the caller.
+  private retry(job: Job, err: unknown): boolean {
+    const now = Date.now();
+
+    if (err instanceof NetworkError && err.status === null && isOffline()) {
+      this.queues[job.priority].unshift(job);
+      return true;
+    }
+
+    const rateLimited = err instanceof RateLimitError;
+    if (rateLimited) {
+      this.counters.rateLimited++;
+      const wait = err.retryAfter !== null ? err.retryAfter * 1000 : backoffMs(job.retries + 1);
+      this.pausedUntil = Math.max(this.pausedUntil, now + wait);
+      this.tokens = 0;
+    }
+
+    const serverError = err instanceof NetworkError && err.status !== null && err.status >= 500;
+    if ((!rateLimited && !serverError) || job.retries >= this.options.maxRetries) return false;
+
+    job.retries++;
+    this.counters.retried++;
+    if (serverError) job.notBefore = now + backoffMs(job.retries);
+    this.queues[job.priority].unshift(job);
+    return true;
+  }
+
+  private nextJob(now: number): Job | undefined {
+    for (const priority of REQUEST_PRIORITIES) {
+      const job = this.queues[priority].find(entry => entry.notBefore <= now);
+      if (job) return job;
+    }
+    return undefined;
+  }
+
+  private nextRetryIn(now: number): number | null {
+    let earliest: number | null = null;
+    for (const priority of REQUEST_PRIORITIES) {
+      for (const job of this.queues[priority]) {
+        earliest = earliest === null ? job.notBefore : Math.min(earliest, job.notBefore);
+      }
+    }
+    return earliest === null ? null : Math.max(0, earliest - now);
+  }
+
+  private dequeue(job: Job): boolean {
+    const queue = this.queues[job.priority];
+    const index = queue.indexOf(job);
+    if (index === -1) return false;
+    queue.splice(index, 1);
+    return true;
+  }
+
+  private refill(now: number): void {
+    const elapsed = (now - this.refilledAt) / 1000;
+    this.tokens = Math.min(this.options.burst, this.tokens + elapsed * this.options.ratePerSecond);
+    this.refilledAt = now;
+  }
+
+  private wakeIn(ms: number): void {
+    this.timer = setTimeout(() => this.pump(), Math.max(0, Math.ceil(ms)));
+  }
+}
@@ -0,0 +1,211 @@
+import { formatSlug } from './i18n';
+import type { PokemonListItem } from './pokemonApi';
+
+// --------------------
+// Types & Interfaces
+// --------------------
+/** Half-open `[start, end)` character range in the matched name. */
+export type HighlightRange = [number, number];
+
+export interface SearchMatch {
+  item: PokemonListItem;
+  id: number;
+  score: number;
+  /** The name that matched, e.g. "Mr Mime" or a localized name; highlights index into it. */
+  label: string;
+  highlights: HighlightRange[];
+}
+
+interface IndexedName {
+  label: string;
+  key: string;
+  // positions[i] is the index in `label` of the i-th character of `key`
+  positions: number[];
+}
+
+interface IndexedEntry {
+  item: PokemonListItem;
+  id: number;
+  names: IndexedName[];
+}
+
+// --------------------
+// Scoring
+// --------------------
+const SCORE = {
+  dexNumber: 1000,
+  exact: 100,
+  prefix: 80,
+  substring: 60,
+  fuzzy: 40,
+  fuzzyPrefix: 30,
+} as const;
+
+// Lowercases, strips accents and drops punctuation and spaces, so "Mr. Mime",
+// "mr mime" and "mr-mime" all normalize to "mrmime". Letters of any script are
+// kept, so "ピカチュウ" and "피카츄" can be searched too.
+const normalizeWithPositions = (value: string): { key: string; positions: number[] } => {
+  let key = '';
+  const positions: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i].normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC').toLowerCase();
+    if (/^[\p{L}\p{N}]$/u.test(char)) {
+      key += char;
+      positions.push(i);
+    }
+  }
+
+  return { key, positions };
+};
+
+export const normalizeSearchTerm = (value: string): string => normalizeWithPositions(value).key;
+
+const maxTypos = (length: number): number => (length <= 4 ? 1 : length <= 8 ? 2 : 3);
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions.
+export const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+// Indices in `target` that belong to a longest common subsequence with `query`.
+const commonPositions = (query: string, target: string): number[] => {
+  const lcs: number[][] = Array.from({ length: query.length + 1 }, () => new Array(target.length + 1).fill(0));
+
+  for (let i = query.length - 1; i >= 0; i--) {
+    for (let j = target.length - 1; j >= 0; j--) {
+      lcs[i][j] = query[i] === target[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const positions: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < query.length && j < target.length) {
+    if (query[i] === target[j]) {
+      positions.push(j);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return positions;
+};
+
+const toRanges = (keyPositions: number[], name: IndexedName): HighlightRange[] => {
+  const ranges: HighlightRange[] = [];
+  for (const keyIndex of keyPositions) {
+    const nameIndex = name.positions[keyIndex];
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === nameIndex) {
+      last[1] = nameIndex + 1;
+    } else {
+      ranges.push([nameIndex, nameIndex + 1]);
+    }
+  }
+  return ranges;
+};
+
+const span = (start: number, length: number): number[] =>
+  Array.from({ length }, (_, offset) => start + offset);
+
+// --------------------
+// Search Index
+// --------------------
+// Each Pokémon is found by its formatted slug and, when given, by any of its
+// other names (such as localized ones). The best-scoring name wins; on a tie
+// the one listed first does.
+export class PokemonSearchIndex {
+  private entries: IndexedEntry[];
+
+  constructor(items: PokemonListItem[], otherNames?: Map<string, string[]>) {
+    this.entries = items.map(item => {
+      const id = Number(item.url.match(/\/pokemon\/(\d+)\/?$/)?.[1] ?? 0);
+      const labels = [...new Set([...(otherNames?.get(item.name) ?? []), formatSlug(item.name)])];
+      return { item, id, names: labels.map(label => ({ label, ...normalizeWithPositions(label) })) };
+    });
+  }
+
+  search(query: string, maxResults: number = 20): SearchMatch[] {
+    const dexNumber = query.trim().match(/^#?0*(\d+)$/);
+    const key = normalizeSearchTerm(query);
+    if (!key) return [];
+
+    const matches: SearchMatch[] = [];
+    for (const entry of this.entries) {
+      const match = dexNumber && entry.id === Number(dexNumber[1])
+        ? { item: entry.item, id: entry.id, score: SCORE.dexNumber, label: entry.names[0].label, highlights: [] }
+        : this.bestMatch(key, entry);
+      if (match) matches.push(match);
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.id - b.id)
+      .slice(0, maxResults);
+  }
+
+  private bestMatch(query: string, entry: IndexedEntry): SearchMatch | null {
+    let best: SearchMatch | null = null;
+    for (const name of entry.names) {
+      const match = this.scoreName(query, entry, name);
+      if (match && (!best || match.score > best.score)) best = match;
+    }
+    return best;
+  }
+
+  private scoreName(query: string, entry: IndexedEntry, name: IndexedName): SearchMatch | null {
+    const { key } = name;
+    const result = (score: number, keyPositions: number[]): SearchMatch => ({
+      item: entry.item,
+      id: entry.id,
+      score,
+      label: name.label,
+      highlights: toRanges(keyPositions, name),
+    });
+
+    if (key === query) return result(SCORE.exact, span(0, key.length));
+
+    // Shorter names rank higher among prefix and substring matches.
+    const coverage = query.length / key.length;
+    if (key.startsWith(query)) return result(SCORE.prefix + coverage * 10, span(0, query.length));
+
+    const index = key.indexOf(query);
+    if (index >= 0) return result(SCORE.substring + coverage * 10 - Math.min(index, 10), span(index, query.length));
+
+    if (query.length < 3) return null;
+
+    const allowed = maxTypos(query.length);
+    const distance = editDistance(query, key);
+    if (distance <= allowed) {
+      return result(SCORE.fuzzy - distance * 5, commonPositions(query, key));
+    }
+
+    const prefix = key.slice(0, query.length);
+    const prefixDistance = editDistance(query, prefix);
+    if (query.length >= 4 && prefixDistance <= Math.max(1, allowed - 1)) {
+      return result(SCORE.fuzzyPrefix - prefixDistance * 5, commonPositions(query, prefix));
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,38 @@
+import { cache } from 'react';
+import { fetchAbility, fetchPokemonSummary, type PokemonSummary } from '../pokemonApi';
+import { NotFoundError } from '../errors';
+import { formatAbilityData, type FormattedAbility, type RawAbility } from '../../types/ability';
+import { setupServerData } from './setup';
+
+export interface AbilityPokemon extends PokemonSummary {
+  isHidden: boolean;
+}
+
+export interface AbilityDetail {
+  ability: FormattedAbility;
+  /** Summaries of `ability.pokemon`, in the same order. */
+  pokemon: AbilityPokemon[];
+}
+
+// Shared by the ability page and its metadata. Resolves to null for unknown
+// abilities; Pokémon whose summary fails to load are still listed by name.
+export const getAbilityDetail = cache(async (name: string): Promise<AbilityDetail | null> => {
+  setupServerData();
+
+  let raw: RawAbility;
+  try {
+    raw = await fetchAbility(name.toLowerCase());
+  } catch (err) {
+    if (err instanceof NotFoundError) return null;
+    throw err;
+  }
+
+  const ability = formatAbilityData(raw);
+  const pokemon = await Promise.all(
+    ability.pokemon.map(async holder => ({
+      ...(await fetchPokemonSummary(holder)),
+      isHidden: holder.isHidden,
+    }))
+  );
+  return { ability, pokemon };
+});
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isDiscarded, type CacheEntry, type PersistentStore } from '../cache';
+
+export const createFileStore = (directory: string): PersistentStore => {
+  const fileFor = (key: string) =>
+    path.join(directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    kind: 'file',
+    get: async <T,>(key: string) => {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as CacheEntry<T>;
+      } catch {
+        return undefined;
+      }
+    },
+    set: async (key, entry) => {
+      const file = fileFor(key);
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(tempFile, JSON.stringify(entry));
+      await fs.rename(tempFile, file);
+    },
+    delete: async key => {
+      await fs.rm(fileFor(key), { force: true });
+    },
+    prune: async now => {
+      const files = await fs.readdir(directory).catch(() => [] as string[]);
+      let removed = 0;
+
+      for (const name of files.filter(file => file.endsWith('.json'))) {
+        const file = path.join(directory, name);
+        try {
+          if (!isDiscarded(JSON.parse(await fs.readFile(file, 'utf8')), now)) continue;
+        } catch {
+          // Unreadable files are dropped along with the discarded ones.
+        }
+        await fs.rm(file, { force: true });
+        removed++;
+      }
+      return removed;
+    },
+    clear: async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    },
+  };
+};
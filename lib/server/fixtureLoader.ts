@@ -0,0 +1,6 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FixtureLoader } from '../dataSource';
+
+export const createFileFixtureLoader = (directory: string): FixtureLoader => async (file, { signal } = {}) =>
+  JSON.parse(await fs.readFile(path.join(directory, file), { encoding: 'utf8', signal }));
@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+import { IndexPendingError, isPokemonApiError, RateLimitError, type PokemonApiErrorKind } from '../errors';
+
+export const CACHE_CONTROL = {
+  list: 'public, max-age=300, stale-while-revalidate=86400',
+  detail: 'public, max-age=3600, stale-while-revalidate=604800',
+  search: 'public, max-age=60, stale-while-revalidate=3600',
+  none: 'no-store',
+} as const;
+
+// Answers with 304 when the client already holds the same payload.
+export const cachedJson = (request: NextRequest, body: unknown, cacheControl: string): NextResponse => {
+  const payload = JSON.stringify(body);
+  const etag = `W/"${createHash('sha1').update(payload).digest('base64url')}"`;
+  const headers = { 'Cache-Control': cacheControl, ETag: etag };
+
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(payload, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+};
+
+export interface ErrorBody {
+  error: string;
+  code: PokemonApiErrorKind | 'internal';
+}
+
+const ERROR_STATUS: Record<PokemonApiErrorKind, number> = {
+  'not-found': 404,
+  'rate-limited': 429,
+  'invalid-payload': 502,
+  network: 503,
+  'index-pending': 503,
+};
+
+// The body's `code` lets the browser client rebuild the typed error.
+export const errorJson = (err: unknown, message: string): NextResponse => {
+  const code = isPokemonApiError(err) ? err.kind : 'internal';
+  const status = code === 'internal' ? 500 : ERROR_STATUS[code];
+  const headers: Record<string, string> = { 'Cache-Control': CACHE_CONTROL.none };
+  if ((err instanceof RateLimitError || err instanceof IndexPendingError) && err.retryAfter !== null) {
+    headers['Retry-After'] = String(err.retryAfter);
+  }
+
+  const body: ErrorBody = { error: code === 'not-found' ? 'Not found' : message, code };
+  return NextResponse.json(body, { status, headers });
+};
+
+export const intParam = (value: string | null, fallback: number, min: number, max: number): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : Math.min(Math.max(parsed, min), max);
+};
@@ -0,0 +1,144 @@
+import { cache } from 'react';
+import {
+  fetchAbility,
+  fetchEvolutionChain,
+  fetchPokemonDetails,
+  fetchPokemonList,
+  fetchPokemonSpecies,
+  getPokemonIdFromUrl,
+  getResourceIdFromUrl,
+} from '../pokemonApi';
+import type { SpeciesResponse } from '../explorerApi';
+import { NotFoundError } from '../errors';
+import { toLocalizedNames, type LocalizedNames } from '../i18n';
+import {
+  formatPokemonData,
+  FormattedPokemon,
+  getSpeciesId,
+  isAlternateFormId,
+  PokemonForm,
+  RawPokemon,
+} from '../../types/pokemon';
+import { formatEvolutionChain, formatSpeciesData } from '../../types/species';
+import { setupServerData } from './setup';
+
+/** The species before or after this one in the Pokédex, for the previous/next links. */
+export interface PokemonNeighbour {
+  id: number;
+  name: string;
+  names?: LocalizedNames;
+  sprite: string | null;
+}
+
+export interface PokemonNeighbours {
+  previous: PokemonNeighbour;
+  next: PokemonNeighbour;
+}
+
+export interface PokemonDetail {
+  pokemon: FormattedPokemon;
+  /** Every variety of the species in PokeAPI order, `pokemon` included; varieties that fail to load are left out. */
+  forms: PokemonForm[];
+  species: SpeciesResponse | null;
+  /** Localized ability names by ability slug; abilities that fail to load are left out. */
+  abilityNames: Record<string, LocalizedNames>;
+  /** Null when the species is not in the Pokédex list. */
+  neighbours: PokemonNeighbours | null;
+}
+
+export const fetchSpeciesResponse = async (pokemon: RawPokemon, signal?: AbortSignal): Promise<SpeciesResponse> => {
+  const species = await fetchPokemonSpecies(getResourceIdFromUrl(pokemon.species.url) ?? pokemon.species.name, signal);
+  const chainId = species.evolution_chain && getResourceIdFromUrl(species.evolution_chain.url);
+  const chain = chainId ? await fetchEvolutionChain(chainId, signal) : null;
+
+  return {
+    species: formatSpeciesData(species),
+    evolution: chain ? formatEvolutionChain(chain.chain) : null,
+  };
+};
+
+const fetchForms = async (pokemon: FormattedPokemon, species: SpeciesResponse | null): Promise<PokemonForm[]> => {
+  const varieties = species?.species.varieties ?? [];
+  if (!varieties.some(variety => variety.id === pokemon.id)) {
+    return [{ pokemon, isDefault: !isAlternateFormId(pokemon.id) }];
+  }
+
+  const forms = await Promise.all(
+    varieties.map(async (variety): Promise<PokemonForm | null> => {
+      if (variety.id === pokemon.id) return { pokemon, isDefault: variety.isDefault };
+      return fetchPokemonDetails(variety.id)
+        .then(raw => ({ pokemon: formatPokemonData(raw), isDefault: variety.isDefault }))
+        .catch(() => null);
+    })
+  );
+  return forms.filter(form => form !== null);
+};
+
+const fetchAbilityNames = async (abilities: string[]): Promise<Record<string, LocalizedNames>> => {
+  const entries = await Promise.all(
+    [...new Set(abilities)].map(ability =>
+      fetchAbility(ability)
+        .then(raw => [ability, toLocalizedNames(raw.names)] as const)
+        .catch(() => null)
+    )
+  );
+  return Object.fromEntries(entries.filter(entry => entry !== null));
+};
+
+// The link shows the species' localized names and the default sprite, so both
+// load with the visible priority like the rest of the page. They are also what
+// the neighbouring page reads first, so following the link is quick.
+const fetchNeighbour = async ({ id, name }: { id: number; name: string }): Promise<PokemonNeighbour> => {
+  const [raw, species] = await Promise.all([
+    fetchPokemonDetails(id).catch(() => null),
+    fetchPokemonSpecies(id).catch(() => null),
+  ]);
+  return {
+    id,
+    name,
+    names: species ? toLocalizedNames(species.names) : undefined,
+    sprite: raw?.sprites.front_default ?? null,
+  };
+};
+
+// Neighbours by Pokédex number, wrapping around at both ends. Alternate forms
+// share their species' neighbours.
+const fetchNeighbours = async (speciesId: number): Promise<PokemonNeighbours | null> => {
+  const list = await fetchPokemonList().catch(() => []);
+  const entries = list
+    .map(item => ({ id: Number(getPokemonIdFromUrl(item.url)), name: item.name }))
+    .filter(entry => entry.id > 0);
+  const index = entries.findIndex(entry => entry.id === speciesId);
+  if (index === -1 || entries.length < 2) return null;
+
+  const [previous, next] = await Promise.all([
+    fetchNeighbour(entries[(index - 1 + entries.length) % entries.length]),
+    fetchNeighbour(entries[(index + 1) % entries.length]),
+  ]);
+  return { previous, next };
+};
+
+// Shared by the detail page, its metadata and its Open Graph image, so one
+// render only loads each Pokémon once. Resolves to null for unknown ids;
+// species data, other forms and ability names are optional and never fail
+// the page.
+export const getPokemonDetail = cache(async (id: string): Promise<PokemonDetail | null> => {
+  setupServerData();
+
+  let raw: RawPokemon;
+  try {
+    raw = await fetchPokemonDetails(id.toLowerCase());
+  } catch (err) {
+    if (err instanceof NotFoundError) return null;
+    throw err;
+  }
+
+  const pokemon = formatPokemonData(raw);
+  const species = await fetchSpeciesResponse(raw).catch(() => null);
+  const [forms, neighbours] = await Promise.all([
+    fetchForms(pokemon, species),
+    fetchNeighbours(species?.species.id ?? getSpeciesId(raw)),
+  ]);
+  const abilityNames = await fetchAbilityNames(forms.flatMap(form => form.pokemon.abilities.map(ability => ability.name)));
+  return { pokemon, forms, species, abilityNames, neighbours };
+});
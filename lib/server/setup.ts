@@ -0,0 +1,25 @@
+import path from 'path';
+import { setPersistentStore } from '../cache';
+import { createFixtureSource, resolveDataSourceKind, setDataSource } from '../dataSource';
+import { createFileStore } from './fileStore';
+import { createFileFixtureLoader } from './fixtureLoader';
+
+const SETUP_KEY = Symbol.for('pokemon-explorer.serverSetup');
+type SetupHolder = { [SETUP_KEY]?: boolean };
+
+// Wires the file-backed cache and, in fixture mode, the on-disk fixtures. The
+// server runs this from instrumentation; `next build` skips instrumentation,
+// so code that renders pages at build time calls it as well.
+export const setupServerData = (): void => {
+  const holder = globalThis as SetupHolder;
+  if (holder[SETUP_KEY]) return;
+  holder[SETUP_KEY] = true;
+
+  setPersistentStore(
+    createFileStore(process.env.POKEMON_CACHE_DIR || path.join(process.cwd(), '.cache', 'pokemon-explorer'))
+  );
+
+  if (resolveDataSourceKind() === 'fixtures') {
+    setDataSource(createFixtureSource(createFileFixtureLoader(path.join(process.cwd(), 'public', 'fixtures'))));
+  }
+};
@@ -0,0 +1,85 @@
+import { STAT_NAMES, type FormattedPokemon, type StatName } from '../types/pokemon';
+import { TYPE_NAMES, getDefensiveMultiplier, getOffensiveMultiplier, type TypeName } from './typeChart';
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export interface AnalyzedMember {
+  pokemon: FormattedPokemon;
+  /** Types of the member's chosen damaging moves. */
+  attackTypes: string[];
+}
+
+export interface DefensiveSummary {
+  type: TypeName;
+  weak: number;
+  resistant: number;
+  immune: number;
+}
+
+export interface OffensiveSummary {
+  type: TypeName;
+  /** Best multiplier any member can hit this type with. */
+  best: number;
+  /** Members that hit it super effectively. */
+  coveredBy: number;
+}
+
+export interface TeamAnalysis {
+  defense: DefensiveSummary[];
+  /** Types at least two members are weak to and that nobody resists. */
+  sharedWeaknesses: TypeName[];
+  offense: OffensiveSummary[];
+  /** Types nothing on the team hits super effectively. */
+  coverageHoles: TypeName[];
+  averageStats: Record<StatName, number>;
+  averageTotal: number;
+}
+
+// --------------------
+// Analysis
+// --------------------
+// Members without damaging moves picked are assumed to attack with their own
+// types (same-type attack bonus moves), so an empty team plan still analyses.
+const memberAttackTypes = (member: AnalyzedMember): string[] =>
+  member.attackTypes.length > 0 ? member.attackTypes : member.pokemon.types;
+
+export const analyzeTeam = (members: AnalyzedMember[]): TeamAnalysis => {
+  const defense = TYPE_NAMES.map((type): DefensiveSummary => {
+    const multipliers = members.map(member => getDefensiveMultiplier(type, member.pokemon.types));
+    return {
+      type,
+      weak: multipliers.filter(value => value > 1).length,
+      resistant: multipliers.filter(value => value > 0 && value < 1).length,
+      immune: multipliers.filter(value => value === 0).length,
+    };
+  });
+
+  const offense = TYPE_NAMES.map((type): OffensiveSummary => {
+    const multipliers = members.map(member => getOffensiveMultiplier(memberAttackTypes(member), [type]));
+    return {
+      type,
+      best: multipliers.length > 0 ? Math.max(...multipliers) : 0,
+      coveredBy: multipliers.filter(value => value > 1).length,
+    };
+  });
+
+  const averageStats = Object.fromEntries(
+    STAT_NAMES.map(name => {
+      const values = members.map(member => member.pokemon.stats.find(stat => stat.name === name)?.value ?? 0);
+      const average = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+      return [name, Math.round(average)];
+    })
+  ) as Record<StatName, number>;
+
+  return {
+    defense,
+    sharedWeaknesses: defense
+      .filter(entry => entry.weak >= 2 && entry.resistant + entry.immune === 0)
+      .map(entry => entry.type),
+    offense,
+    coverageHoles: members.length > 0 ? offense.filter(entry => entry.coveredBy === 0).map(entry => entry.type) : [],
+    averageStats,
+    averageTotal: STAT_NAMES.reduce((total, name) => total + averageStats[name], 0),
+  };
+};
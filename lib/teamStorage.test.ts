@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseTeamState } from './teamStorage';
+
+describe('parseTeamState', () => {
+  it('keeps valid teams and drops malformed entries', () => {
+    const state = parseTeamState(
+      JSON.stringify({
+        version: 1,
+        activeTeamId: 'b',
+        teams: [
+          {
+            id: 'a',
+            name: 'Kanto',
+            members: [
+              { pokemonId: 25, moves: ['thunderbolt'] },
+              { pokemonId: '6', moves: [] },
+              { pokemonId: 0, moves: [] },
+              { pokemonId: -4, moves: [] },
+              { pokemonId: 26, moves: ['thunder', 7] },
+            ],
+          },
+          { id: 'b', members: [], updatedAt: 42 },
+          { name: 'No id', members: [] },
+          null,
+        ],
+      })
+    );
+
+    expect(state).toEqual({
+      version: 1,
+      activeTeamId: 'b',
+      teams: [
+        { id: 'a', name: 'Kanto', members: [{ pokemonId: 25, moves: ['thunderbolt'] }], updatedAt: 0 },
+        { id: 'b', name: 'Untitled team', members: [], updatedAt: 42 },
+      ],
+    });
+  });
+
+  it('falls back to the first team when the active one is missing', () => {
+    const state = parseTeamState(JSON.stringify({ version: 1, activeTeamId: 3, teams: [{ id: 'a', members: [] }] }));
+
+    expect(state.activeTeamId).toBe('a');
+  });
+
+  it('returns the empty state for unreadable data', () => {
+    expect(parseTeamState('not json').teams).toEqual([]);
+    expect(parseTeamState('[1, 2]').teams).toEqual([]);
+    expect(parseTeamState(JSON.stringify({ version: 2, teams: [] })).teams).toEqual([]);
+  });
+});
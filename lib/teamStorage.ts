@@ -0,0 +1,195 @@
+import { isRecord } from './validation';
+
+// Named teams for `/team`, kept in localStorage. Members only store the
+// Pokémon id and chosen move names; details are fetched when the team is shown.
+
+// --------------------
+// Types & Interfaces
+// --------------------
+export interface TeamMember {
+  pokemonId: number;
+  moves: string[];
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  members: TeamMember[];
+  updatedAt: number;
+}
+
+export interface TeamState {
+  version: 1;
+  activeTeamId: string | null;
+  teams: Team[];
+}
+
+// --------------------
+// Definitions
+// --------------------
+export const MAX_TEAM_SIZE = 6;
+export const MAX_MEMBER_MOVES = 4;
+
+const STORAGE_KEY = 'pokemon-explorer.teams';
+const EMPTY_STATE: TeamState = { version: 1, activeTeamId: null, teams: [] };
+
+const listeners = new Set<() => void>();
+let cachedRaw: string | null = null;
+let cachedState: TeamState = EMPTY_STATE;
+
+// --------------------
+// Parsing
+// --------------------
+type StoredTeam = Record<string, unknown> & { id: string; members: unknown[] };
+
+const isStoredTeam = (value: unknown): value is StoredTeam =>
+  isRecord(value) && typeof value.id === 'string' && Array.isArray(value.members);
+
+const isTeamMember = (value: unknown): value is TeamMember =>
+  isRecord(value) &&
+  typeof value.pokemonId === 'number' &&
+  Number.isInteger(value.pokemonId) &&
+  value.pokemonId > 0 &&
+  Array.isArray(value.moves) &&
+  value.moves.every(move => typeof move === 'string');
+
+// Anything unreadable is dropped rather than thrown, so a corrupt entry
+// never locks the page.
+export const parseTeamState = (raw: string | null): TeamState => {
+  if (!raw) return EMPTY_STATE;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed) || parsed.version !== 1 || !Array.isArray(parsed.teams)) return EMPTY_STATE;
+
+    const teams: Team[] = parsed.teams
+      .filter(isStoredTeam)
+      .map(team => ({
+        id: team.id,
+        name: typeof team.name === 'string' ? team.name : 'Untitled team',
+        members: team.members
+          .filter(isTeamMember)
+          .slice(0, MAX_TEAM_SIZE)
+          .map(member => ({
+            pokemonId: member.pokemonId,
+            moves: member.moves.slice(0, MAX_MEMBER_MOVES),
+          })),
+        updatedAt: Number(team.updatedAt) || 0,
+      }));
+
+    const activeTeamId = teams.find(team => team.id === parsed.activeTeamId)?.id ?? teams[0]?.id ?? null;
+    return { version: 1, activeTeamId, teams };
+  } catch {
+    return EMPTY_STATE;
+  }
+};
+
+// --------------------
+// Store
+// --------------------
+const readStorage = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const getTeamState = (): TeamState => {
+  if (typeof window === 'undefined') return EMPTY_STATE;
+
+  const raw = readStorage();
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cachedState = parseTeamState(raw);
+  }
+  return cachedState;
+};
+
+export const getServerTeamState = (): TeamState => EMPTY_STATE;
+
+export const getActiveTeam = (state: TeamState): Team | null =>
+  state.teams.find(team => team.id === state.activeTeamId) ?? null;
+
+const writeState = (state: TeamState): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (err) {
+    console.error('Error saving teams:', err);
+  }
+  listeners.forEach(listener => listener());
+};
+
+const updateTeam = (teamId: string, update: (team: Team) => Team): void => {
+  const state = getTeamState();
+  writeState({
+    ...state,
+    teams: state.teams.map(team => (team.id === teamId ? { ...update(team), updatedAt: Date.now() } : team)),
+  });
+};
+
+const createTeamId = (): string => `team-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTeam = (name: string): Team => {
+  const state = getTeamState();
+  const team: Team = {
+    id: createTeamId(),
+    name: name.trim() || `Team ${state.teams.length + 1}`,
+    members: [],
+    updatedAt: Date.now(),
+  };
+  writeState({ ...state, activeTeamId: team.id, teams: [...state.teams, team] });
+  return team;
+};
+
+export const renameTeam = (teamId: string, name: string): void =>
+  updateTeam(teamId, team => ({ ...team, name: name.trim() || team.name }));
+
+export const deleteTeam = (teamId: string): void => {
+  const state = getTeamState();
+  const teams = state.teams.filter(team => team.id !== teamId);
+  writeState({
+    ...state,
+    teams,
+    activeTeamId: state.activeTeamId === teamId ? teams[0]?.id ?? null : state.activeTeamId,
+  });
+};
+
+export const setActiveTeam = (teamId: string): void => {
+  const state = getTeamState();
+  if (state.teams.some(team => team.id === teamId)) writeState({ ...state, activeTeamId: teamId });
+};
+
+// Adds to the active team, creating one when there is none. Returns false
+// when the team is already full.
+export const addToTeam = (pokemonId: number): boolean => {
+  const team = getActiveTeam(getTeamState()) ?? createTeam('');
+  if (team.members.length >= MAX_TEAM_SIZE) return false;
+
+  updateTeam(team.id, current => ({ ...current, members: [...current.members, { pokemonId, moves: [] }] }));
+  return true;
+};
+
+export const removeFromTeam = (teamId: string, index: number): void =>
+  updateTeam(teamId, team => ({ ...team, members: team.members.filter((_, i) => i !== index) }));
+
+export const setMemberMoves = (teamId: string, index: number, moves: string[]): void =>
+  updateTeam(teamId, team => ({
+    ...team,
+    members: team.members.map((member, i) =>
+      i === index ? { ...member, moves: moves.slice(0, MAX_MEMBER_MOVES) } : member
+    ),
+  }));
+
+export const subscribeTeams = (listener: () => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
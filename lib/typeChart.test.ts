@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatMultiplier,
+  getDefensiveMatchups,
+  getDefensiveMultiplier,
+  getOffensiveMultiplier,
+  getTypeMultiplier,
+} from './typeChart';
+
+describe('getTypeMultiplier', () => {
+  it('reads single-type matchups from the chart', () => {
+    expect(getTypeMultiplier('water', 'fire')).toBe(2);
+    expect(getTypeMultiplier('fire', 'water')).toBe(0.5);
+    expect(getTypeMultiplier('normal', 'ghost')).toBe(0);
+    expect(getTypeMultiplier('normal', 'fire')).toBe(1);
+  });
+});
+
+describe('getDefensiveMultiplier', () => {
+  it('stacks dual types multiplicatively', () => {
+    expect(getDefensiveMultiplier('rock', ['fire', 'flying'])).toBe(4);
+    expect(getDefensiveMultiplier('grass', ['fire', 'flying'])).toBe(0.25);
+    expect(getDefensiveMultiplier('ice', ['fire', 'flying'])).toBe(1);
+  });
+
+  it('lets an immunity override a weakness', () => {
+    expect(getDefensiveMultiplier('ground', ['electric', 'flying'])).toBe(0);
+    expect(getDefensiveMultiplier('fighting', ['normal', 'ghost'])).toBe(0);
+  });
+
+  it('treats unknown types as neutral', () => {
+    expect(getDefensiveMultiplier('water', ['fire', 'stellar'])).toBe(2);
+  });
+});
+
+describe('getOffensiveMultiplier', () => {
+  it('uses the best of the attacking types', () => {
+    expect(getOffensiveMultiplier(['electric', 'ground'], ['water', 'flying'])).toBe(4);
+    expect(getOffensiveMultiplier(['normal'], ['ghost'])).toBe(0);
+  });
+});
+
+describe('getDefensiveMatchups', () => {
+  it('groups weaknesses, resistances and immunities by multiplier', () => {
+    expect(getDefensiveMatchups(['fire', 'flying'])).toEqual({
+      weaknesses: [
+        { multiplier: 4, types: ['rock'] },
+        { multiplier: 2, types: ['water', 'electric'] },
+      ],
+      resistances: [
+        { multiplier: 0.5, types: ['fire', 'fighting', 'steel', 'fairy'] },
+        { multiplier: 0.25, types: ['grass', 'bug'] },
+      ],
+      immunities: ['ground'],
+    });
+  });
+
+  it('leaves out empty groups', () => {
+    expect(getDefensiveMatchups(['normal'])).toEqual({
+      weaknesses: [{ multiplier: 2, types: ['fighting'] }],
+      resistances: [],
+      immunities: ['ghost'],
+    });
+  });
+});
+
+describe('formatMultiplier', () => {
+  it('writes fractions as glyphs', () => {
+    expect(formatMultiplier(0.25)).toBe('¼×');
+    expect(formatMultiplier(0.5)).toBe('½×');
+    expect(formatMultiplier(4)).toBe('4×');
+  });
+});
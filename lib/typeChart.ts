@@ -0,0 +1,119 @@
+// --------------------
+// Types & Interfaces
+// --------------------
+export const TYPE_NAMES = [
+  'normal',
+  'fire',
+  'water',
+  'electric',
+  'grass',
+  'ice',
+  'fighting',
+  'poison',
+  'ground',
+  'flying',
+  'psychic',
+  'bug',
+  'rock',
+  'ghost',
+  'dragon',
+  'dark',
+  'steel',
+  'fairy',
+] as const;
+
+export type TypeName = typeof TYPE_NAMES[number];
+
+export interface MatchupGroup {
+  multiplier: number;
+  types: TypeName[];
+}
+
+export interface DefensiveMatchups {
+  weaknesses: MatchupGroup[];
+  resistances: MatchupGroup[];
+  immunities: TypeName[];
+}
+
+// --------------------
+// Type Chart
+// --------------------
+// Attacking type -> defending type -> multiplier. Pairs that are not listed
+// are neutral (1×). Matches the chart used since Generation VI.
+const TYPE_CHART: Record<TypeName, Partial<Record<TypeName, number>>> = {
+  normal: { rock: 0.5, ghost: 0, steel: 0.5 },
+  fire: { fire: 0.5, water: 0.5, grass: 2, ice: 2, bug: 2, rock: 0.5, dragon: 0.5, steel: 2 },
+  water: { fire: 2, water: 0.5, grass: 0.5, ground: 2, rock: 2, dragon: 0.5 },
+  electric: { water: 2, electric: 0.5, grass: 0.5, ground: 0, flying: 2, dragon: 0.5 },
+  grass: {
+    fire: 0.5, water: 2, grass: 0.5, poison: 0.5, ground: 2, flying: 0.5, bug: 0.5, rock: 2, dragon: 0.5, steel: 0.5,
+  },
+  ice: { fire: 0.5, water: 0.5, grass: 2, ice: 0.5, ground: 2, flying: 2, dragon: 2, steel: 0.5 },
+  fighting: {
+    normal: 2, ice: 2, poison: 0.5, flying: 0.5, psychic: 0.5, bug: 0.5, rock: 2, ghost: 0, dark: 2, steel: 2, fairy: 0.5,
+  },
+  poison: { grass: 2, poison: 0.5, ground: 0.5, rock: 0.5, ghost: 0.5, steel: 0, fairy: 2 },
+  ground: { fire: 2, electric: 2, grass: 0.5, poison: 2, flying: 0, bug: 0.5, rock: 2, steel: 2 },
+  flying: { electric: 0.5, grass: 2, fighting: 2, bug: 2, rock: 0.5, steel: 0.5 },
+  psychic: { fighting: 2, poison: 2, psychic: 0.5, dark: 0, steel: 0.5 },
+  bug: {
+    fire: 0.5, grass: 2, fighting: 0.5, poison: 0.5, flying: 0.5, psychic: 2, ghost: 0.5, dark: 2, steel: 0.5, fairy: 0.5,
+  },
+  rock: { fire: 2, ice: 2, fighting: 0.5, ground: 0.5, flying: 2, bug: 2, steel: 0.5 },
+  ghost: { normal: 0, psychic: 2, ghost: 2, dark: 0.5 },
+  dragon: { dragon: 2, steel: 0.5, fairy: 0 },
+  dark: { fighting: 0.5, psychic: 2, ghost: 2, dark: 0.5, fairy: 0.5 },
+  steel: { fire: 0.5, water: 0.5, electric: 0.5, ice: 2, rock: 2, steel: 0.5, fairy: 2 },
+  fairy: { fire: 0.5, fighting: 2, poison: 0.5, dragon: 2, dark: 2, steel: 0.5 },
+};
+
+export const isTypeName = (value: string): value is TypeName =>
+  (TYPE_NAMES as readonly string[]).includes(value);
+
+// --------------------
+// Effectiveness
+// --------------------
+export const getTypeMultiplier = (attacking: TypeName, defending: TypeName): number =>
+  TYPE_CHART[attacking][defending] ?? 1;
+
+// Dual types stack multiplicatively. Unknown type names (e.g. PokeAPI's
+// "stellar" or "unknown") are treated as neutral.
+export const getDefensiveMultiplier = (attacking: TypeName, defendingTypes: string[]): number =>
+  defendingTypes.reduce(
+    (multiplier, defending) => (isTypeName(defending) ? multiplier * getTypeMultiplier(attacking, defending) : multiplier),
+    1
+  );
+
+// Best multiplier any of the attacking types achieves against the defender.
+export const getOffensiveMultiplier = (attackingTypes: string[], defendingTypes: string[]): number =>
+  attackingTypes.filter(isTypeName).reduce(
+    (best, attacking) => Math.max(best, getDefensiveMultiplier(attacking, defendingTypes)),
+    attackingTypes.some(isTypeName) ? 0 : 1
+  );
+
+const groupByMultiplier = (entries: Array<[TypeName, number]>, multipliers: number[]): MatchupGroup[] =>
+  multipliers
+    .map((multiplier) => ({
+      multiplier,
+      types: entries.filter(([, value]) => value === multiplier).map(([type]) => type),
+    }))
+    .filter((group) => group.types.length > 0);
+
+export const getDefensiveMatchups = (defendingTypes: string[]): DefensiveMatchups => {
+  const entries = TYPE_NAMES.map((attacking): [TypeName, number] => [
+    attacking,
+    getDefensiveMultiplier(attacking, defendingTypes),
+  ]);
+
+  return {
+    weaknesses: groupByMultiplier(entries, [4, 2]),
+    resistances: groupByMultiplier(entries, [0.5, 0.25]),
+    immunities: entries.filter(([, value]) => value === 0).map(([type]) => type),
+  };
+};
+
+export const formatMultiplier = (multiplier: number): string => {
+  if (multiplier === 0.5) return '½×';
+  if (multiplier === 0.25) return '¼×';
+  return `${multiplier}×`;
+};
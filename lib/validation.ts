@@ -0,0 +1,244 @@
+import { InvalidPayloadError } from './errors';
+import type { PokemonListItem } from './pokemonApi';
+import { RAW_SPRITE_KEYS, type RawPokemon, type RawSpriteSet } from '../types/pokemon';
+import type { RawChainLink, RawEvolutionChain, RawEvolutionDetail, RawPokemonSpecies } from '../types/species';
+import type { RawMove } from '../types/move';
+import type { RawAbility } from '../types/ability';
+import type { RawType } from '../types/type';
+
+// --------------------
+// Schemas
+// --------------------
+// A schema checks an unknown value and returns it typed, throwing
+// InvalidPayloadError with the path of the first mismatch. Object schemas
+// only check the keys they list; other keys are passed through untouched.
+export type Schema<T> = (value: unknown, path: string) => T;
+
+type Shape<T> = { [K in keyof T]?: Schema<T[K]> };
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const schema = {
+  string: ((value, path) => {
+    if (typeof value !== 'string') throw new InvalidPayloadError(path, 'a string');
+    return value;
+  }) as Schema<string>,
+
+  number: ((value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new InvalidPayloadError(path, 'a number');
+    return value;
+  }) as Schema<number>,
+
+  boolean: ((value, path) => {
+    if (typeof value !== 'boolean') throw new InvalidPayloadError(path, 'a boolean');
+    return value;
+  }) as Schema<boolean>,
+
+  nullable: <T,>(inner: Schema<T>): Schema<T | null> => (value, path) => (value == null ? null : inner(value, path)),
+
+  withDefault: <T,>(inner: Schema<T>, fallback: T): Schema<T> => (value, path) =>
+    value == null ? fallback : inner(value, path),
+
+  array: <T,>(item: Schema<T>): Schema<T[]> => (value, path) => {
+    if (!Array.isArray(value)) throw new InvalidPayloadError(path, 'an array');
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  },
+
+  record: <T,>(item: Schema<T>): Schema<Record<string, T>> => (value, path) => {
+    if (!isRecord(value)) throw new InvalidPayloadError(path, 'an object');
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, item(entry, `${path}.${key}`)]));
+  },
+
+  object: <T,>(shape: Shape<T>): Schema<T> => (value, path) => {
+    if (!isRecord(value)) throw new InvalidPayloadError(path, 'an object');
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, check] of Object.entries(shape) as Array<[string, Schema<unknown>]>) {
+      result[key] = check(value[key], `${path}.${key}`);
+    }
+    return result as T;
+  },
+};
+
+// --------------------
+// PokeAPI Schemas
+// --------------------
+const namedResource = schema.object<{ name: string; url: string }>({
+  name: schema.string,
+  url: schema.string,
+});
+
+const localizedNames = schema.withDefault(
+  schema.array(schema.object({ name: schema.string, language: namedResource })),
+  []
+);
+
+export const pokemonListSchema = schema.object<{ count: number; results: PokemonListItem[] }>({
+  count: schema.number,
+  results: schema.array(namedResource),
+});
+
+// Older and alternate-form entries often lack artwork, so missing sprites
+// become null instead of failing the whole Pokémon.
+const spriteUrl = schema.withDefault(schema.nullable(schema.string), null);
+
+const spriteSlots: Shape<RawSpriteSet> = Object.fromEntries(RAW_SPRITE_KEYS.map((key) => [key, spriteUrl]));
+
+const spriteSet = schema.object<RawSpriteSet>(spriteSlots);
+
+const versionSprites = schema.object<RawSpriteSet & { animated?: RawSpriteSet | null }>({
+  ...spriteSlots,
+  animated: schema.withDefault(schema.nullable(spriteSet), null),
+});
+
+export const rawPokemonSchema = schema.object<RawPokemon>({
+  id: schema.number,
+  name: schema.string,
+  height: schema.withDefault(schema.number, 0),
+  weight: schema.withDefault(schema.number, 0),
+  species: namedResource,
+  sprites: schema.object<RawPokemon['sprites']>({
+    ...spriteSlots,
+    front_default: spriteUrl,
+    other: schema.withDefault(schema.record(spriteSet), {}),
+    versions: schema.withDefault(schema.record(schema.record(versionSprites)), {}),
+  }),
+  types: schema.array(schema.object({ type: schema.object({ name: schema.string }) })),
+  abilities: schema.array(
+    schema.object<RawPokemon['abilities'][number]>({
+      ability: schema.object({ name: schema.string }),
+      is_hidden: schema.withDefault(schema.boolean, false),
+      slot: schema.withDefault(schema.number, 1),
+    })
+  ),
+  stats: schema.array(schema.object({ stat: schema.object({ name: schema.string }), base_stat: schema.number })),
+  moves: schema.withDefault(
+    schema.array(
+      schema.object<RawPokemon['moves'][number]>({
+        move: namedResource,
+        version_group_details: schema.withDefault(
+          schema.array(
+            schema.object<RawPokemon['moves'][number]['version_group_details'][number]>({
+              level_learned_at: schema.withDefault(schema.number, 0),
+              move_learn_method: schema.object({ name: schema.string }),
+              version_group: schema.object({ name: schema.string }),
+            })
+          ),
+          []
+        ),
+      })
+    ),
+    []
+  ),
+});
+
+export const rawSpeciesSchema = schema.object<RawPokemonSpecies>({
+  id: schema.number,
+  name: schema.string,
+  gender_rate: schema.number,
+  capture_rate: schema.number,
+  base_happiness: schema.nullable(schema.number),
+  is_baby: schema.withDefault(schema.boolean, false),
+  is_legendary: schema.withDefault(schema.boolean, false),
+  is_mythical: schema.withDefault(schema.boolean, false),
+  color: namedResource,
+  egg_groups: schema.withDefault(schema.array(namedResource), []),
+  evolution_chain: schema.nullable(schema.object({ url: schema.string })),
+  generation: namedResource,
+  growth_rate: namedResource,
+  habitat: schema.nullable(namedResource),
+  names: localizedNames,
+  genera: schema.withDefault(schema.array(schema.object({ genus: schema.string, language: namedResource })), []),
+  flavor_text_entries: schema.withDefault(
+    schema.array(
+      schema.object<RawPokemonSpecies['flavor_text_entries'][number]>({
+        flavor_text: schema.string,
+        language: namedResource,
+      })
+    ),
+    []
+  ),
+  varieties: schema.withDefault(
+    schema.array(schema.object<RawPokemonSpecies['varieties'][number]>({ is_default: schema.boolean, pokemon: namedResource })),
+    []
+  ),
+});
+
+const chainLinkSchema: Schema<RawChainLink> = (value, path) =>
+  schema.object<RawChainLink>({
+    is_baby: schema.withDefault(schema.boolean, false),
+    species: namedResource,
+    evolution_details: schema.withDefault(
+      schema.array(schema.object<RawEvolutionDetail>({ trigger: namedResource })),
+      []
+    ),
+    evolves_to: schema.withDefault(schema.array(chainLinkSchema), []),
+  })(value, path);
+
+export const rawEvolutionChainSchema = schema.object<RawEvolutionChain>({
+  id: schema.number,
+  chain: chainLinkSchema,
+});
+
+export const rawMoveSchema = schema.object<RawMove>({
+  id: schema.number,
+  name: schema.string,
+  accuracy: schema.nullable(schema.number),
+  power: schema.nullable(schema.number),
+  pp: schema.nullable(schema.number),
+  priority: schema.withDefault(schema.number, 0),
+  effect_chance: schema.nullable(schema.number),
+  type: namedResource,
+  damage_class: schema.nullable(namedResource),
+  names: localizedNames,
+  effect_entries: schema.withDefault(
+    schema.array(
+      schema.object<RawMove['effect_entries'][number]>({
+        short_effect: schema.string,
+        language: namedResource,
+      })
+    ),
+    []
+  ),
+});
+
+export const rawAbilitySchema = schema.object<RawAbility>({
+  id: schema.number,
+  name: schema.string,
+  names: localizedNames,
+  generation: schema.nullable(namedResource),
+  effect_entries: schema.withDefault(
+    schema.array(
+      schema.object<RawAbility['effect_entries'][number]>({
+        effect: schema.string,
+        short_effect: schema.string,
+        language: namedResource,
+      })
+    ),
+    []
+  ),
+  pokemon: schema.withDefault(
+    schema.array(
+      schema.object<RawAbility['pokemon'][number]>({
+        is_hidden: schema.withDefault(schema.boolean, false),
+        slot: schema.withDefault(schema.number, 1),
+        pokemon: namedResource,
+      })
+    ),
+    []
+  ),
+});
+
+export const rawTypeSchema = schema.object<RawType>({
+  id: schema.number,
+  name: schema.string,
+  pokemon: schema.withDefault(
+    schema.array(
+      schema.object<RawType['pokemon'][number]>({
+        slot: schema.withDefault(schema.number, 1),
+        pokemon: namedResource,
+      })
+    ),
+    []
+  ),
+});
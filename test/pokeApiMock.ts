@@ -0,0 +1,55 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import nock from 'nock';
+
+const FIXTURE_DIR = path.join(__dirname, '..', 'public', 'fixtures');
+const API_ORIGIN = 'https://pokeapi.co';
+const API_PREFIX = '/api/v2/';
+
+interface FixtureIndex {
+  count: number;
+  results: Array<{ name: string; url: string }>;
+}
+
+const readFixture = (file: string): unknown => JSON.parse(readFileSync(path.join(FIXTURE_DIR, file), 'utf8'));
+
+// Answers PokeAPI requests with the recorded responses under `public/fixtures`,
+// the same files the offline data source uses. Returns the request paths seen
+// so tests can count network calls.
+export const mockPokeApi = () => {
+  const requests: string[] = [];
+
+  nock(API_ORIGIN)
+    .persist()
+    .get(uri => uri.startsWith(API_PREFIX))
+    .reply(uri => {
+      requests.push(uri);
+      const url = new URL(uri, API_ORIGIN);
+      const [resource, key] = url.pathname.slice(API_PREFIX.length).split('/').filter(Boolean);
+
+      try {
+        const index = readFixture(`${resource}/index.json`) as FixtureIndex;
+        if (!key) {
+          const offset = Number(url.searchParams.get('offset') ?? 0);
+          const limit = Number(url.searchParams.get('limit') ?? 20);
+          return [200, { ...index, results: index.results.slice(offset, offset + limit) }];
+        }
+
+        const id = /^\d+$/.test(key)
+          ? key
+          : index.results.find(item => item.name === key)?.url.match(/\/(\d+)\/?$/)?.[1];
+        return id ? [200, readFixture(`${resource}/${id}.json`)] : [404, 'Not Found'];
+      } catch {
+        return [404, 'Not Found'];
+      }
+    });
+
+  return { requests };
+};
+
+// Replies once to `path` (e.g. `/api/v2/pokemon/25`). nock matches in
+// registration order, so set this up before `mockPokeApi`.
+export const mockPokeApiOnce = (path: string, status: number, body: unknown, headers?: Record<string, string>) =>
+  nock(API_ORIGIN).get(path).reply(status, body as nock.Body, headers);
+
+export const loadFixture = <T,>(file: string): T => readFixture(file) as T;
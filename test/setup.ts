@@ -0,0 +1,27 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import nock from 'nock';
+import { afterEach } from 'vitest';
+
+// Tests never reach the real PokeAPI; see `test/pokeApiMock.ts`.
+nock.disableNetConnect();
+
+afterEach(() => {
+  cleanup();
+  nock.cleanAll();
+});
+
+// jsdom has no layout, so the observers used by the virtualized grid and the
+// infinite scroll only need to exist.
+if (typeof window !== 'undefined') {
+  class NoopObserver {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+    takeRecords() {
+      return [];
+    }
+  }
+  window.ResizeObserver ??= NoopObserver as unknown as typeof ResizeObserver;
+  window.IntersectionObserver ??= NoopObserver as unknown as typeof IntersectionObserver;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { formatAbilityData, RawAbility } from './ability';
+import { loadFixture } from '../test/pokeApiMock';
+
+const lightningRod = loadFixture<RawAbility>('ability/31.json');
+
+describe('formatAbilityData', () => {
+  it('flattens a PokeAPI response', () => {
+    const ability = formatAbilityData(lightningRod);
+
+    expect(ability).toMatchObject({ id: 31, name: 'lightning-rod', generation: 'III', names: { en: 'Lightning Rod' } });
+    expect(ability.shortEffect).toBe(
+      'Redirects single-target electric moves to this Pokémon where possible. Absorbs Electric moves, raising Special Attack one stage.'
+    );
+  });
+
+  it('keeps whether each Pokémon has the ability hidden', () => {
+    expect(formatAbilityData(lightningRod).pokemon).toContainEqual({
+      name: 'pikachu',
+      url: 'https://pokeapi.co/api/v2/pokemon/25/',
+      isHidden: true,
+      slot: 3,
+    });
+  });
+
+  it('has no effect text without an entry in the language', () => {
+    const ability = formatAbilityData({ ...lightningRod, effect_entries: [], generation: null });
+    expect(ability).toMatchObject({ effect: null, shortEffect: null, generation: null });
+  });
+});
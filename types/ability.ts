@@ -0,0 +1,67 @@
+import { toLocalizedNames, type LocalizedNames } from '../lib/i18n';
+
+interface NamedResource {
+  name: string;
+  url: string;
+}
+
+export interface RawAbility {
+  id: number;
+  name: string;
+  names: Array<{
+    name: string;
+    language: NamedResource;
+  }>;
+  generation: NamedResource | null;
+  effect_entries: Array<{
+    effect: string;
+    short_effect: string;
+    language: NamedResource;
+  }>;
+  pokemon: Array<{
+    is_hidden: boolean;
+    slot: number;
+    pokemon: NamedResource;
+  }>;
+}
+
+export interface AbilityHolder {
+  name: string;
+  url: string;
+  isHidden: boolean;
+  slot: number;
+}
+
+export interface FormattedAbility {
+  id: number;
+  name: string;
+  names: LocalizedNames;
+  /** Roman numeral, like species generations; null when PokeAPI has none. */
+  generation: string | null;
+  effect: string | null;
+  shortEffect: string | null;
+  /** Every Pokémon that can have the ability, alternate forms included, in PokeAPI order. */
+  pokemon: AbilityHolder[];
+}
+
+// Effect texts wrap at a fixed width in PokeAPI; the line breaks carry no meaning.
+const flattenText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+export const formatAbilityData = (ability: RawAbility, language: string = 'en'): FormattedAbility => {
+  const effect = ability.effect_entries.find((entry) => entry.language.name === language);
+
+  return {
+    id: ability.id,
+    name: ability.name,
+    names: toLocalizedNames(ability.names),
+    generation: ability.generation?.name.replace('generation-', '').toUpperCase() ?? null,
+    effect: effect ? flattenText(effect.effect) : null,
+    shortEffect: effect ? flattenText(effect.short_effect) : null,
+    pokemon: ability.pokemon.map((entry) => ({
+      name: entry.pokemon.name,
+      url: entry.pokemon.url,
+      isHidden: entry.is_hidden,
+      slot: entry.slot,
+    })),
+  };
+};
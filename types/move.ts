@@ -0,0 +1,147 @@
+import type { RawPokemon } from './pokemon';
+import { toLocalizedNames, type LocalizedNames } from '../lib/i18n';
+import type { MessageKey } from '../lib/messages';
+
+interface NamedResource {
+  name: string;
+  url: string;
+}
+
+export interface RawMove {
+  id: number;
+  name: string;
+  accuracy: number | null;
+  power: number | null;
+  pp: number | null;
+  priority: number;
+  effect_chance: number | null;
+  type: NamedResource;
+  damage_class: NamedResource | null;
+  names: Array<{
+    name: string;
+    language: NamedResource;
+  }>;
+  effect_entries: Array<{
+    effect: string;
+    short_effect: string;
+    language: NamedResource;
+  }>;
+}
+
+export type MoveLearnMethod = 'level-up' | 'machine' | 'egg' | 'tutor' | 'other';
+export type DamageClass = 'physical' | 'special' | 'status';
+
+export interface MoveDetails {
+  id: number;
+  name: string;
+  names: LocalizedNames;
+  type: string;
+  damageClass: DamageClass | null;
+  power: number | null;
+  accuracy: number | null;
+  pp: number | null;
+  priority: number;
+  effect: string | null;
+}
+
+export interface LearnsetEntry {
+  name: string;
+  url: string;
+  method: MoveLearnMethod;
+  /** Level the move is learned at; only set for level-up moves. */
+  level: number | null;
+}
+
+export type LearnedMove = LearnsetEntry & { details: MoveDetails | null };
+
+export const LEARN_METHODS: Array<{ method: MoveLearnMethod; label: MessageKey }> = [
+  { method: 'level-up', label: 'moves.learn.level-up' },
+  { method: 'machine', label: 'moves.learn.machine' },
+  { method: 'egg', label: 'moves.learn.egg' },
+  { method: 'tutor', label: 'moves.learn.tutor' },
+  { method: 'other', label: 'moves.learn.other' },
+];
+
+// Oldest to newest; PokeAPI lists version groups in no particular order per move.
+export const VERSION_GROUPS = [
+  'red-blue',
+  'yellow',
+  'gold-silver',
+  'crystal',
+  'ruby-sapphire',
+  'emerald',
+  'firered-leafgreen',
+  'colosseum',
+  'xd',
+  'diamond-pearl',
+  'platinum',
+  'heartgold-soulsilver',
+  'black-white',
+  'black-2-white-2',
+  'x-y',
+  'omega-ruby-alpha-sapphire',
+  'sun-moon',
+  'ultra-sun-ultra-moon',
+  'lets-go-pikachu-lets-go-eevee',
+  'sword-shield',
+  'the-isle-of-armor',
+  'the-crown-tundra',
+  'brilliant-diamond-and-shining-pearl',
+  'legends-arceus',
+  'scarlet-violet',
+  'the-teal-mask',
+  'the-indigo-disk',
+];
+
+const versionGroupRank = (name: string): number => {
+  const index = VERSION_GROUPS.indexOf(name);
+  return index === -1 ? VERSION_GROUPS.length : index;
+};
+
+const toLearnMethod = (name: string): MoveLearnMethod =>
+  LEARN_METHODS.some((entry) => entry.method === name) ? (name as MoveLearnMethod) : 'other';
+
+// Newest version group first.
+export const getVersionGroups = (pokemon: RawPokemon): string[] => {
+  const groups = new Set<string>();
+  pokemon.moves.forEach((move) => move.version_group_details.forEach((detail) => groups.add(detail.version_group.name)));
+  return [...groups].sort((a, b) => versionGroupRank(b) - versionGroupRank(a));
+};
+
+// A move can be learnable several ways in one version group (e.g. level-up and
+// TM), so it appears once per method.
+export const getLearnset = (pokemon: RawPokemon, versionGroup: string): LearnsetEntry[] =>
+  pokemon.moves.flatMap((move) =>
+    move.version_group_details
+      .filter((detail) => detail.version_group.name === versionGroup)
+      .map((detail): LearnsetEntry => {
+        const method = toLearnMethod(detail.move_learn_method.name);
+        return {
+          name: move.move.name,
+          url: move.move.url,
+          method,
+          level: method === 'level-up' ? detail.level_learned_at : null,
+        };
+      })
+  );
+
+export const formatMoveData = (move: RawMove, language: string = 'en'): MoveDetails => {
+  const effect = move.effect_entries.find((entry) => entry.language.name === language);
+  const damageClass = move.damage_class?.name;
+
+  return {
+    id: move.id,
+    name: move.name,
+    names: toLocalizedNames(move.names),
+    type: move.type.name,
+    damageClass:
+      damageClass === 'physical' || damageClass === 'special' || damageClass === 'status' ? damageClass : null,
+    power: move.power,
+    accuracy: move.accuracy,
+    pp: move.pp,
+    priority: move.priority,
+    effect: effect
+      ? effect.short_effect.replace(/\$effect_chance/g, String(move.effect_chance ?? '')).replace(/\s+/g, ' ')
+      : null,
+  };
+};
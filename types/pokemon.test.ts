@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { formatPokemonData, pickSprite, RawPokemon } from './pokemon';
+import { loadFixture } from '../test/pokeApiMock';
+
+const pikachu = loadFixture<RawPokemon>('pokemon/25.json');
+
+const withSprites = (sprites: Partial<RawPokemon['sprites']>): RawPokemon => ({
+  ...pikachu,
+  sprites: { front_default: null, other: {}, ...sprites },
+});
+
+describe('formatPokemonData', () => {
+  it('flattens a PokeAPI response', () => {
+    const pokemon = formatPokemonData(pikachu);
+
+    expect(pokemon).toMatchObject({ id: 25, name: 'pikachu', types: ['electric'] });
+    expect(pokemon.image).toBe(pikachu.sprites.other['official-artwork']?.front_default);
+    expect(pokemon.stats).toContainEqual({ name: 'speed', value: 90 });
+    expect(pokemon.abilities).toEqual([
+      { name: 'static', isHidden: false, slot: 1 },
+      { name: 'lightning-rod', isHidden: true, slot: 3 },
+    ]);
+  });
+
+  it('falls back to the default sprite without official artwork', () => {
+    const pokemon = formatPokemonData(
+      withSprites({ front_default: 'front.png', other: { 'official-artwork': { front_default: null } } })
+    );
+    expect(pokemon.image).toBe('front.png');
+  });
+
+  it('falls back to the default sprite when `other` has no artwork entry', () => {
+    expect(formatPokemonData(withSprites({ front_default: 'front.png' })).image).toBe('front.png');
+  });
+
+  it('has no image when no sprite is available', () => {
+    expect(formatPokemonData(withSprites({})).image).toBeNull();
+  });
+
+  it('normalizes every sprite source by angle, shininess and gender', () => {
+    const { sprites } = formatPokemonData(pikachu);
+
+    expect(sprites.game.backShinyFemale).toBe(pikachu.sprites.back_shiny_female);
+    expect(sprites.artwork).toEqual({
+      front: pikachu.sprites.other['official-artwork']?.front_default,
+      frontShiny: pikachu.sprites.other['official-artwork']?.front_shiny,
+    });
+    expect(sprites.showdown.front).toMatch(/showdown\/25\.gif$/);
+    expect(sprites.home.back).toBeUndefined();
+  });
+
+  it('lists version sprites by generation and drops empty games', () => {
+    const pokemon = formatPokemonData(
+      withSprites({
+        versions: {
+          'generation-i': { yellow: { front_default: 'yellow.png', back_default: null } },
+          'generation-v': {
+            'black-white': { front_default: 'bw.png', animated: { front_default: 'bw.gif' } },
+          },
+          'generation-viii': { icons: { front_default: null } },
+        },
+      })
+    );
+
+    expect(pokemon.sprites.versions).toEqual([
+      { generation: 'I', game: 'yellow', sprites: { front: 'yellow.png' }, animated: null },
+      { generation: 'V', game: 'black-white', sprites: { front: 'bw.png' }, animated: { front: 'bw.gif' } },
+    ]);
+  });
+});
+
+describe('pickSprite', () => {
+  const sprites = { front: 'front.png', frontFemale: 'female.png', back: 'back.png' };
+
+  it('picks the sprite for the chosen options', () => {
+    expect(pickSprite(sprites, { angle: 'front', shiny: false, female: true })).toBe('female.png');
+    expect(pickSprite(sprites, { angle: 'back', shiny: false, female: false })).toBe('back.png');
+  });
+
+  it('falls back to the default sprite only for the female variant', () => {
+    expect(pickSprite(sprites, { angle: 'back', shiny: false, female: true })).toBe('back.png');
+    expect(pickSprite(sprites, { angle: 'front', shiny: true, female: false })).toBeNull();
+  });
+});
@@ -19,18 +19,42 @@ export const PokemonTypes: Record<string, string> = {
     fairy: 'from-pink-400 to-rose-500',
 };
 
+// Every sprite slot PokeAPI may fill for one source (game, Home, Showdown...).
+// Unused slots are null.
+export const RAW_SPRITE_KEYS = [
+  'front_default',
+  'front_shiny',
+  'front_female',
+  'front_shiny_female',
+  'back_default',
+  'back_shiny',
+  'back_female',
+  'back_shiny_female',
+] as const;
+
+export type RawSpriteKey = (typeof RAW_SPRITE_KEYS)[number];
+
+export type RawSpriteSet = Partial<Record<RawSpriteKey, string | null>>;
+
+// `versions` is keyed by generation, then by game (`generation-v` →
+// `black-white`); Black/White also nests animated sprites.
+export type RawVersionSprites = Record<string, Record<string, RawSpriteSet & { animated?: RawSpriteSet | null }>>;
+
 export interface RawPokemon {
   id: number;
   name: string;
   height: number;
   weight: number;
-  sprites: {
-    front_default: string;
+  species: {
+    name: string;
+    url: string;
+  };
+  sprites: RawSpriteSet & {
+    front_default: string | null;
     other: {
-      [key: string]: {
-        front_default: string;
-      };
+      [key: string]: RawSpriteSet;
     };
+    versions?: RawVersionSprites;
   };
   types: Array<{
     type: {
@@ -41,6 +65,8 @@ export interface RawPokemon {
     ability: {
       name: string;
     };
+    is_hidden: boolean;
+    slot: number;
   }>;
   stats: Array<{
     stat: {
@@ -51,18 +77,65 @@ export interface RawPokemon {
   moves: Array<{
     move: {
       name: string;
+      url: string;
     };
+    version_group_details: Array<{
+      level_learned_at: number;
+      move_learn_method: {
+        name: string;
+      };
+      version_group: {
+        name: string;
+      };
+    }>;
   }>;
 }
 
+export type SpriteAngle = 'front' | 'back';
+
+export interface SpriteOptions {
+  angle: SpriteAngle;
+  shiny: boolean;
+  female: boolean;
+}
+
+// Sprite URLs for one source keyed by `angle[Shiny][Female]`, e.g. `front`,
+// `backShiny`, `frontShinyFemale`. Missing slots are left out.
+export type SpriteVariant = `${SpriteAngle}${'' | 'Shiny'}${'' | 'Female'}`;
+export type SpriteSet = Partial<Record<SpriteVariant, string>>;
+
+export interface VersionSprites {
+  generation: string;
+  game: string;
+  sprites: SpriteSet;
+  animated: SpriteSet | null;
+}
+
+export interface PokemonSprites {
+  artwork: SpriteSet;
+  game: SpriteSet;
+  home: SpriteSet;
+  dreamWorld: SpriteSet;
+  showdown: SpriteSet;
+  versions: VersionSprites[];
+}
+
+export interface PokemonAbility {
+  name: string;
+  /** Hidden abilities only come from special encounters, breeding or items. */
+  isHidden: boolean;
+  slot: number;
+}
+
 export interface FormattedPokemon {
   id: number;
   name: string;
-  image: string;
+  image: string | null;
+  sprites: PokemonSprites;
   types: string[];
   height: number;
   weight: number;
-  abilities: string[];
+  abilities: PokemonAbility[];
   stats: {
     name: string;
     value: number;
@@ -70,25 +143,162 @@ export interface FormattedPokemon {
   moves: string[];
 }
 
-export type DisplayPokemon = Omit<FormattedPokemon, 'id' | 'image' | 'types'> & {
+/** One variety of a species, as offered by the form switcher on detail pages. */
+export interface PokemonForm {
+  pokemon: FormattedPokemon;
+  isDefault: boolean;
+}
+
+export type DisplayPokemon = Omit<FormattedPokemon, 'id' | 'types' | 'sprites'> & {
   id: number;
-  image: string | null;
+  /** Pokédex number of the species, for alternate forms. */
+  speciesId?: number;
   types: string[];
+  names?: Record<string, string>;
+  matchedName?: string;
+  highlights?: Array<[number, number]>;
 };
 
+export const spriteVariant = ({ angle, shiny, female }: SpriteOptions): SpriteVariant =>
+  `${angle}${shiny ? 'Shiny' : ''}${female ? 'Female' : ''}`;
+
+// Most Pokémon look the same either way, so a missing female sprite falls
+// back to the default one. Shiny and back sprites have no fallback.
+export const pickSprite = (sprites: SpriteSet, options: SpriteOptions): string | null =>
+  sprites[spriteVariant(options)] ?? (options.female ? sprites[spriteVariant({ ...options, female: false })] : null) ?? null;
+
+export const hasFemaleSprites = (sprites: PokemonSprites): boolean =>
+  [sprites.artwork, sprites.game, sprites.home, sprites.showdown, ...sprites.versions.map((version) => version.sprites)]
+    .some((set) => Object.keys(set).some((variant) => variant.endsWith('Female')));
+
+const toSpriteSet = (raw: RawSpriteSet | null | undefined): SpriteSet => {
+  const sprites: SpriteSet = {};
+  RAW_SPRITE_KEYS.forEach((key) => {
+    const url = raw?.[key];
+    if (!url) return;
+    const [angle, ...rest] = key.split('_');
+    sprites[spriteVariant({ angle: angle as SpriteAngle, shiny: rest.includes('shiny'), female: rest.includes('female') })] = url;
+  });
+  return sprites;
+};
+
+const isEmpty = (sprites: SpriteSet) => Object.keys(sprites).length === 0;
+
+// Games without a single sprite for this Pokémon (it did not exist yet) are
+// dropped.
+const formatVersionSprites = (versions: RawVersionSprites = {}): VersionSprites[] =>
+  Object.entries(versions).flatMap(([generation, games]) =>
+    Object.entries(games ?? {})
+      .map(([game, raw]) => {
+        const animated = toSpriteSet(raw?.animated);
+        return {
+          generation: generation.replace('generation-', '').toUpperCase(),
+          game,
+          sprites: toSpriteSet(raw),
+          animated: isEmpty(animated) ? null : animated,
+        };
+      })
+      .filter((version) => !isEmpty(version.sprites) || version.animated)
+  );
+
+const formatSprites = (sprites: RawPokemon['sprites']): PokemonSprites => ({
+  artwork: toSpriteSet(sprites.other?.['official-artwork']),
+  game: toSpriteSet(sprites),
+  home: toSpriteSet(sprites.other?.home),
+  dreamWorld: toSpriteSet(sprites.other?.dream_world),
+  showdown: toSpriteSet(sprites.other?.showdown),
+  versions: formatVersionSprites(sprites.versions),
+});
+
 export const formatPokemonData = (pokemon: RawPokemon): FormattedPokemon => ({
   id: pokemon.id,
   name: pokemon.name,
   image:
-    pokemon.sprites.other['official-artwork']?.front_default ||
-    pokemon.sprites.front_default,
+    pokemon.sprites.other?.['official-artwork']?.front_default ||
+    pokemon.sprites.front_default ||
+    null,
+  sprites: formatSprites(pokemon.sprites),
   types: pokemon.types.map((type) => type.type.name),
   height: pokemon.height,
   weight: pokemon.weight,
-  abilities: pokemon.abilities.map((a) => a.ability.name),
+  abilities: pokemon.abilities.map((a) => ({ name: a.ability.name, isHidden: a.is_hidden, slot: a.slot })),
   stats: pokemon.stats.map((stat) => ({
     name: stat.stat.name,
     value: stat.base_stat,
   })),
-  moves: pokemon.moves.slice(0, 10).map((move) => move.move.name),
+  moves: pokemon.moves.map((move) => move.move.name),
 });
+
+export const STAT_NAMES = [
+  'hp',
+  'attack',
+  'defense',
+  'special-attack',
+  'special-defense',
+  'speed',
+] as const;
+
+export type StatName = (typeof STAT_NAMES)[number];
+
+export const STAT_LABELS: Record<StatName, string> = {
+  hp: 'HP',
+  attack: 'Attack',
+  defense: 'Defense',
+  'special-attack': 'Sp. Atk',
+  'special-defense': 'Sp. Def',
+  speed: 'Speed',
+};
+
+export interface PokemonAttributes {
+  id: number;
+  name: string;
+  types: string[];
+  generation: number;
+  height: number;
+  weight: number;
+  stats: Record<StatName, number>;
+  total: number;
+}
+
+// PokeAPI numbers the default variety of each species by its Pokédex number
+// and every other variety (megas, regional forms, Gigantamax...) from 10001.
+export const ALTERNATE_FORM_MIN_ID = 10001;
+
+export const isAlternateFormId = (id: number): boolean => id >= ALTERNATE_FORM_MIN_ID;
+
+export const getSpeciesId = (pokemon: RawPokemon): number =>
+  Number(pokemon.species.url.match(/\/(\d+)\/?$/)?.[1] ?? pokemon.id);
+
+// Name of a variety without its species prefix: "charizard-mega-x" -> "mega-x".
+export const formSuffix = (name: string, speciesName: string): string =>
+  name.startsWith(`${speciesName}-`) ? name.slice(speciesName.length + 1) : name;
+
+// National Pokédex number at which each generation starts.
+const GENERATION_STARTS = [1, 152, 252, 387, 494, 650, 722, 810, 906];
+
+export const getGeneration = (id: number): number => {
+  let generation = 1;
+  GENERATION_STARTS.forEach((start, index) => {
+    if (id >= start) generation = index + 1;
+  });
+  return generation;
+};
+
+export const extractPokemonAttributes = (pokemon: RawPokemon): PokemonAttributes => {
+  const stats = Object.fromEntries(STAT_NAMES.map((name) => [name, 0])) as Record<StatName, number>;
+  pokemon.stats.forEach((stat) => {
+    if (stat.stat.name in stats) stats[stat.stat.name as StatName] = stat.base_stat;
+  });
+
+  return {
+    id: pokemon.id,
+    name: pokemon.name,
+    types: pokemon.types.map((type) => type.type.name),
+    // Forms belong to their species' generation.
+    generation: getGeneration(getSpeciesId(pokemon)),
+    height: pokemon.height,
+    weight: pokemon.weight,
+    stats,
+    total: STAT_NAMES.reduce((sum, name) => sum + stats[name], 0),
+  };
+};
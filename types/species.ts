@@ -0,0 +1,250 @@
+import { toLocalizedNames, type LocalizedNames, type MessageParams } from '../lib/i18n';
+import type { MessageKey } from '../lib/messages';
+
+interface NamedResource {
+  name: string;
+  url: string;
+}
+
+export interface RawPokemonSpecies {
+  id: number;
+  name: string;
+  gender_rate: number;
+  capture_rate: number;
+  base_happiness: number | null;
+  is_baby: boolean;
+  is_legendary: boolean;
+  is_mythical: boolean;
+  hatch_counter: number | null;
+  color: NamedResource;
+  egg_groups: NamedResource[];
+  evolution_chain: { url: string } | null;
+  generation: NamedResource;
+  growth_rate: NamedResource;
+  habitat: NamedResource | null;
+  names: Array<{
+    name: string;
+    language: NamedResource;
+  }>;
+  genera: Array<{
+    genus: string;
+    language: NamedResource;
+  }>;
+  flavor_text_entries: Array<{
+    flavor_text: string;
+    language: NamedResource;
+    version: NamedResource;
+  }>;
+  /** Every `pokemon` entry of the species: the default one plus megas, regional forms and so on. */
+  varieties: Array<{
+    is_default: boolean;
+    pokemon: NamedResource;
+  }>;
+}
+
+export interface RawEvolutionDetail {
+  trigger: NamedResource;
+  min_level: number | null;
+  item: NamedResource | null;
+  held_item: NamedResource | null;
+  min_happiness: number | null;
+  min_affection: number | null;
+  min_beauty: number | null;
+  known_move: NamedResource | null;
+  known_move_type: NamedResource | null;
+  location: NamedResource | null;
+  time_of_day: string;
+  gender: number | null;
+  needs_overworld_rain: boolean;
+  party_species: NamedResource | null;
+  party_type: NamedResource | null;
+  relative_physical_stats: number | null;
+  trade_species: NamedResource | null;
+  turn_upside_down: boolean;
+}
+
+export interface RawChainLink {
+  is_baby: boolean;
+  species: NamedResource;
+  evolution_details: RawEvolutionDetail[];
+  evolves_to: RawChainLink[];
+}
+
+export interface RawEvolutionChain {
+  id: number;
+  chain: RawChainLink;
+}
+
+export interface FormattedSpecies {
+  id: number;
+  name: string;
+  names: LocalizedNames;
+  genus: string | null;
+  flavorText: string | null;
+  generation: string;
+  habitat: string | null;
+  color: string;
+  captureRate: number;
+  baseHappiness: number | null;
+  growthRate: string;
+  eggGroups: string[];
+  /** Chance of being female in eighths, or -1 when genderless. */
+  genderRate: number;
+  isBaby: boolean;
+  isLegendary: boolean;
+  isMythical: boolean;
+  varieties: SpeciesVariety[];
+}
+
+export interface SpeciesVariety {
+  id: number;
+  name: string;
+  url: string;
+  isDefault: boolean;
+}
+
+export type EvolutionTriggerKind = 'level' | 'item' | 'trade' | 'friendship' | 'other';
+
+/** One translatable piece of a trigger; `type` is a type slug passed to the message as `{type}`. */
+export interface EvolutionText {
+  key: MessageKey;
+  params?: MessageParams;
+  type?: string;
+}
+
+export interface EvolutionTrigger {
+  kind: EvolutionTriggerKind;
+  /** The trigger followed by its conditions, translated and joined with spaces when shown. */
+  parts: EvolutionText[];
+}
+
+export interface EvolutionNode {
+  id: number;
+  name: string;
+  image: string;
+  isBaby: boolean;
+  /** How the previous stage evolves into this one; empty for the base stage. */
+  triggers: EvolutionTrigger[];
+  evolvesTo: EvolutionNode[];
+}
+
+const ARTWORK_URL = 'https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/pokemon/other/official-artwork';
+
+const resourceId = (url: string): number => Number(url.match(/\/(\d+)\/?$/)?.[1] ?? 0);
+
+const humanize = (name: string): string => name.replace(/-/g, ' ');
+
+const cleanFlavorText = (text: string): string => text.replace(/[\f\n\r\u00ad]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const formatSpeciesData = (species: RawPokemonSpecies, language: string = 'en'): FormattedSpecies => {
+  const genus = species.genera.find((entry) => entry.language.name === language);
+  const flavorTexts = species.flavor_text_entries.filter((entry) => entry.language.name === language);
+  const flavorText = flavorTexts[flavorTexts.length - 1];
+
+  return {
+    id: species.id,
+    name: species.name,
+    names: toLocalizedNames(species.names),
+    genus: genus?.genus ?? null,
+    flavorText: flavorText ? cleanFlavorText(flavorText.flavor_text) : null,
+    generation: species.generation.name.replace('generation-', '').toUpperCase(),
+    habitat: species.habitat ? humanize(species.habitat.name) : null,
+    color: species.color.name,
+    captureRate: species.capture_rate,
+    baseHappiness: species.base_happiness,
+    growthRate: humanize(species.growth_rate.name),
+    eggGroups: species.egg_groups.map((group) => humanize(group.name)),
+    genderRate: species.gender_rate,
+    isBaby: species.is_baby,
+    isLegendary: species.is_legendary,
+    isMythical: species.is_mythical,
+    varieties: species.varieties.map((variety) => ({
+      id: resourceId(variety.pokemon.url),
+      name: variety.pokemon.name,
+      url: variety.pokemon.url,
+      isDefault: variety.is_default,
+    })),
+  };
+};
+
+const TIMES_OF_DAY: Record<string, MessageKey> = {
+  day: 'evolution.day',
+  night: 'evolution.night',
+  dusk: 'evolution.dusk',
+};
+
+export const describeEvolution = (detail: RawEvolutionDetail): EvolutionTrigger => {
+  const conditions: EvolutionText[] = [];
+
+  if (detail.held_item) {
+    conditions.push({ key: 'evolution.holding', params: { item: humanize(detail.held_item.name) } });
+  }
+  if (detail.known_move) {
+    conditions.push({ key: 'evolution.knowing', params: { move: humanize(detail.known_move.name) } });
+  }
+  if (detail.known_move_type) conditions.push({ key: 'evolution.knowingType', type: detail.known_move_type.name });
+  if (detail.min_affection) conditions.push({ key: 'evolution.affection' });
+  if (detail.min_beauty) conditions.push({ key: 'evolution.beauty' });
+  if (detail.location) {
+    conditions.push({ key: 'evolution.location', params: { location: humanize(detail.location.name) } });
+  }
+  if (detail.time_of_day) {
+    const key = TIMES_OF_DAY[detail.time_of_day];
+    conditions.push(key ? { key } : { key: 'evolution.timeOfDay', params: { time: humanize(detail.time_of_day) } });
+  }
+  if (detail.gender === 1) conditions.push({ key: 'evolution.female' });
+  if (detail.gender === 2) conditions.push({ key: 'evolution.male' });
+  if (detail.needs_overworld_rain) conditions.push({ key: 'evolution.rain' });
+  if (detail.party_species) {
+    conditions.push({ key: 'evolution.partySpecies', params: { species: humanize(detail.party_species.name) } });
+  }
+  if (detail.party_type) conditions.push({ key: 'evolution.partyType', type: detail.party_type.name });
+  if (detail.relative_physical_stats === 1) conditions.push({ key: 'evolution.attackHigher' });
+  if (detail.relative_physical_stats === -1) conditions.push({ key: 'evolution.attackLower' });
+  if (detail.relative_physical_stats === 0) conditions.push({ key: 'evolution.attackEqual' });
+  if (detail.trade_species) {
+    conditions.push({ key: 'evolution.tradeFor', params: { species: humanize(detail.trade_species.name) } });
+  }
+  if (detail.turn_upside_down) conditions.push({ key: 'evolution.upsideDown' });
+
+  const withConditions = (base: EvolutionText) => [base, ...conditions];
+
+  switch (detail.trigger.name) {
+    case 'level-up':
+      if (detail.min_happiness) {
+        return { kind: 'friendship', parts: withConditions({ key: 'evolution.friendship' }) };
+      }
+      return {
+        kind: 'level',
+        parts: withConditions(
+          detail.min_level
+            ? { key: 'evolution.level', params: { level: detail.min_level } }
+            : { key: 'evolution.levelUp' }
+        ),
+      };
+    case 'use-item':
+      return {
+        kind: 'item',
+        parts: withConditions({ key: 'evolution.useItem', params: { item: humanize(detail.item?.name ?? 'item') } }),
+      };
+    case 'trade':
+      return { kind: 'trade', parts: withConditions({ key: 'evolution.trade' }) };
+    default:
+      return {
+        kind: 'other',
+        parts: withConditions({ key: 'evolution.other', params: { trigger: humanize(detail.trigger.name) } }),
+      };
+  }
+};
+
+export const formatEvolutionChain = (link: RawChainLink): EvolutionNode => {
+  const id = resourceId(link.species.url);
+  return {
+    id,
+    name: link.species.name,
+    image: `${ARTWORK_URL}/${id}.png`,
+    isBaby: link.is_baby,
+    triggers: link.evolution_details.map(describeEvolution),
+    evolvesTo: link.evolves_to.map(formatEvolutionChain),
+  };
+};
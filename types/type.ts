@@ -0,0 +1,15 @@
+interface NamedResource {
+  name: string;
+  url: string;
+}
+
+// Only the membership list is read: the type chart itself is static (see
+// `lib/typeChart.ts`).
+export interface RawType {
+  id: number;
+  name: string;
+  pokemon: Array<{
+    slot: number;
+    pokemon: NamedResource;
+  }>;
+}
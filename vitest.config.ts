@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // Next compiles JSX itself (`jsx: preserve`), so the tests need their own transform.
+  esbuild: { jsx: 'automatic' },
+  test: {
+    environment: 'node',
+    include: ['**/*.test.{ts,tsx}'],
+    exclude: ['node_modules/**', '.next/**'],
+    setupFiles: ['./test/setup.ts'],
+    restoreMocks: true,
+  },
+});